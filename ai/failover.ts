@@ -0,0 +1,197 @@
+import { APICallError, RetryError, streamText, type TextStreamPart, type ToolSet } from "ai";
+import { CircuitBreaker, type CircuitSnapshot } from "@/lib/circuit-breaker";
+import { getLanguageModel } from "./providers";
+import type { modelID } from "./models";
+
+type StreamTextOptions = Omit<Parameters<typeof streamText>[0], "model">;
+// TextStreamPart<ToolSet> types results of tools only known at runtime as never
+type StreamPart =
+  | TextStreamPart<ToolSet>
+  | { type: "tool-result"; toolCallId: string; toolName: string; args: unknown; result: unknown };
+
+export type ProviderName = "openai" | "deepinfra";
+
+const PROVIDERS: Record<ProviderName, { label: string; apiKeyEnv: string }> = {
+  openai: { label: "OpenAI", apiKeyEnv: "OPENAI_API_KEY" },
+  deepinfra: { label: "DeepInfra", apiKeyEnv: "DEEPINFRA_API_KEY" },
+};
+
+const breakers: Record<ProviderName, CircuitBreaker> = {
+  openai: new CircuitBreaker("openai"),
+  deepinfra: new CircuitBreaker("deepinfra"),
+};
+
+export function providerOf(id: modelID): ProviderName {
+  return id.slice(0, id.indexOf(":")) as ProviderName;
+}
+
+export function isProviderConfigured(provider: ProviderName): boolean {
+  return !!process.env[PROVIDERS[provider].apiKeyEnv];
+}
+
+export interface ProviderHealth extends CircuitSnapshot {
+  label: string;
+  configured: boolean;
+}
+
+/**
+ * Circuit state and recent error rate per provider, for the admin dashboard
+ */
+export function getProviderHealth(): ProviderHealth[] {
+  return (Object.keys(breakers) as ProviderName[]).map((provider) => ({
+    ...breakers[provider].snapshot(),
+    label: PROVIDERS[provider].label,
+    configured: isProviderConfigured(provider),
+  }));
+}
+
+// Socket and timeout failures reaching the provider, from Node and undici
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+]);
+
+function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const { code, cause } = error as Error & { code?: unknown; cause?: unknown };
+  if (error.name === "TimeoutError" || (typeof code === "string" && NETWORK_ERROR_CODES.has(code))) {
+    return true;
+  }
+  // fetch() reports socket errors as TypeError("fetch failed") with the system error as its cause
+  return (error instanceof TypeError && error.message === "fetch failed") || isNetworkError(cause);
+}
+
+/**
+ * Provider-side failures (rate limits, quota, auth, outages, network errors) move on to
+ * the next provider. Anything else, such as a bad prompt, a schema error or a tool that
+ * threw, would fail everywhere and is rethrown.
+ */
+export function isFailoverError(error: unknown): boolean {
+  const cause = RetryError.isInstance(error) ? error.lastError : error;
+  if (APICallError.isInstance(cause)) {
+    const status = cause.statusCode;
+    return cause.isRetryable || status === undefined || status === 401 || status === 403 || status === 429 || status >= 500;
+  }
+  return isNetworkError(cause);
+}
+
+export interface FailoverStream {
+  modelId: modelID;
+  // Models that failed before this one answered
+  failedOver: modelID[];
+  parts: AsyncIterable<StreamPart>;
+}
+
+async function* trackOutcome(
+  breaker: CircuitBreaker,
+  firstParts: StreamPart[],
+  rest: AsyncIterator<StreamPart>,
+  abortSignal: AbortSignal | undefined
+): AsyncGenerator<StreamPart> {
+  yield* firstParts;
+  let failed = false;
+  for (let next = await rest.next(); !next.done; next = await rest.next()) {
+    // A cancelled request or a tool that threw says nothing about the provider's health
+    if (next.value.type === "error" && !failed && !abortSignal?.aborted && isFailoverError(next.value.error)) {
+      failed = true;
+      breaker.recordFailure(next.value.error);
+    }
+    yield next.value;
+  }
+  if (!failed && !abortSignal?.aborted) {
+    breaker.recordSuccess();
+  }
+}
+
+/**
+ * Start a model's stream and read it up to its first text, reasoning or tool call, or its
+ * first error
+ */
+async function startModel(
+  modelId: modelID,
+  options: StreamTextOptions
+): Promise<{ firstParts: StreamPart[]; rest: AsyncIterator<StreamPart>; error: unknown }> {
+  const result = streamText({
+    ...options,
+    model: getLanguageModel(modelId),
+    // The next provider is the retry
+    maxRetries: 0,
+  });
+
+  const rest = result.fullStream[Symbol.asyncIterator]();
+  const firstParts: StreamPart[] = [];
+  for (let next = await rest.next(); !next.done; next = await rest.next()) {
+    if (next.value.type === "error") {
+      return { firstParts, rest, error: next.value.error };
+    }
+    firstParts.push(next.value);
+    // Reasoning is visible output and a tool call may already have side effects,
+    // so either commits to this model too
+    if (next.value.type === "text-delta" || next.value.type === "reasoning" || next.value.type === "tool-call") {
+      break;
+    }
+  }
+  return { firstParts, rest, error: null };
+}
+
+/**
+ * Stream a completion from the first healthy model in the chain. Each candidate is
+ * read up to its first text, reasoning or tool call, so failures before any output reach the
+ * client fall through to the next provider. Errors after that point surface in `parts`.
+ */
+export async function streamTextWithFailover(chain: modelID[], options: StreamTextOptions): Promise<FailoverStream> {
+  // The first model is always tried; fallbacks only on providers with an API key
+  const candidates = chain.filter((id, index) =>
+    chain.indexOf(id) === index && (index === 0 || isProviderConfigured(providerOf(id)))
+  );
+
+  const failedOver: modelID[] = [];
+  const failedProviders = new Set<ProviderName>();
+  let firstError: unknown = null;
+  let attempted = false;
+
+  // Each breaker is asked just before its model would be tried: a half-open circuit hands out
+  // a single trial request, which must not be claimed for a provider that is never called.
+  // With every circuit open, the chain is still tried rather than fail without asking anyone.
+  for (const force of [false, true]) {
+    if (force && attempted) {
+      break;
+    }
+
+    for (const modelId of candidates) {
+      const provider = providerOf(modelId);
+      const breaker = breakers[provider];
+      if (failedProviders.has(provider) || (!force && !breaker.canRequest())) {
+        continue;
+      }
+
+      attempted = true;
+      const { firstParts, rest, error } = await startModel(modelId, options);
+      if (!error) {
+        return { modelId, failedOver, parts: trackOutcome(breaker, firstParts, rest, options.abortSignal) };
+      }
+
+      firstError = firstError ?? error;
+      if (!isFailoverError(error) || options.abortSignal?.aborted) {
+        throw error;
+      }
+
+      breaker.recordFailure(error);
+      failedOver.push(modelId);
+      failedProviders.add(provider);
+      console.warn(`Model ${modelId} failed, trying next provider:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  throw firstError ?? new Error("No model provider is available");
+}
@@ -0,0 +1,48 @@
+// Catalog of the models the companions can run on. Client-safe: the provider
+// instances live in ai/providers.ts. IDs are "<provider>:<model>" registry IDs.
+
+// contextWindow is in tokens. encoding is the tiktoken encoding used to count them;
+// the open models' own tokenizers are close enough to cl100k_base for budgeting.
+export const MODEL_CATALOG = {
+  "openai:gpt-4o-mini": { label: "GPT-4o mini", provider: "OpenAI", contextWindow: 128000, encoding: "o200k_base" },
+  "openai:gpt-4o": { label: "GPT-4o", provider: "OpenAI", contextWindow: 128000, encoding: "o200k_base" },
+  "deepinfra:meta-llama/Llama-3.3-70B-Instruct-Turbo": {
+    label: "Llama 3.3 70B",
+    provider: "DeepInfra",
+    contextWindow: 131072,
+    encoding: "cl100k_base",
+  },
+  "deepinfra:deepseek-ai/DeepSeek-R1": {
+    label: "DeepSeek R1",
+    provider: "DeepInfra",
+    contextWindow: 64000,
+    encoding: "cl100k_base",
+  },
+  "deepinfra:Qwen/Qwen2.5-72B-Instruct": {
+    label: "Qwen 2.5 72B",
+    provider: "DeepInfra",
+    contextWindow: 32768,
+    encoding: "cl100k_base",
+  },
+} as const;
+
+export type modelID = keyof typeof MODEL_CATALOG;
+
+export const MODELS = Object.keys(MODEL_CATALOG) as modelID[];
+
+export const defaultModel: modelID = "openai:gpt-4o-mini";
+
+// Tried in order when a mode's model fails; override with FALLBACK_MODELS (comma-separated IDs)
+export const DEFAULT_FALLBACK_MODELS: modelID[] = [
+  "deepinfra:meta-llama/Llama-3.3-70B-Instruct-Turbo",
+  "openai:gpt-4o-mini",
+];
+
+export function isModelID(id: unknown): id is modelID {
+  return typeof id === "string" && Object.prototype.hasOwnProperty.call(MODEL_CATALOG, id);
+}
+
+// Whether the chat shows the model picker to everyone (admins always see it)
+export function isModelPickerEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_MODEL_PICKER === "true";
+}
@@ -1,32 +1,47 @@
 import { deepinfra } from "@ai-sdk/deepinfra";
+import { openai } from "@ai-sdk/openai";
 import {
+  createProviderRegistry,
   customProvider,
   extractReasoningMiddleware,
   wrapLanguageModel,
+  type LanguageModelV1,
 } from "ai";
+import type { modelID } from "./models";
 
-const languageModels = {
-  "meta-llama/Llama-3.3-70B-Instruct-Turbo": wrapLanguageModel({
-    middleware: extractReasoningMiddleware({
-      tagName: "think",
+const deepinfraModels = customProvider({
+  languageModels: {
+    "meta-llama/Llama-3.3-70B-Instruct-Turbo": wrapLanguageModel({
+      middleware: extractReasoningMiddleware({
+        tagName: "think",
+      }),
+      model: deepinfra("meta-llama/Llama-3.3-70B-Instruct-Turbo"),
     }),
-    model: deepinfra("meta-llama/Llama-3.3-70B-Instruct-Turbo"),
-  }),
-  "deepseek-ai/DeepSeek-R1": wrapLanguageModel({
-    middleware: extractReasoningMiddleware({
-      tagName: "think",
+    "deepseek-ai/DeepSeek-R1": wrapLanguageModel({
+      middleware: extractReasoningMiddleware({
+        tagName: "think",
+      }),
+      model: deepinfra("deepseek-ai/DeepSeek-R1"),
     }),
-    model: deepinfra("deepseek-ai/DeepSeek-R1"),
-  }),
-  "Qwen/Qwen2.5-72B-Instruct": deepinfra("Qwen/Qwen2.5-72B-Instruct"),
-};
+    "Qwen/Qwen2.5-72B-Instruct": deepinfra("Qwen/Qwen2.5-72B-Instruct"),
+  },
+});
 
-export const model = customProvider({
-  languageModels,
+export const registry = createProviderRegistry({
+  openai,
+  deepinfra: deepinfraModels,
 });
 
-export type modelID = keyof typeof languageModels;
+// Replaces the registry for every model ID, e.g. with the recorded-fixture stand-in
+// the offline eval runner (lib/evals) uses. Never set in the app.
+let languageModelOverride: ((id: modelID) => LanguageModelV1) | null = null;
+
+export function setLanguageModelOverride(resolve: ((id: modelID) => LanguageModelV1) | null) {
+  languageModelOverride = resolve;
+}
 
-export const MODELS = Object.keys(languageModels);
+export function getLanguageModel(id: modelID): LanguageModelV1 {
+  return languageModelOverride ? languageModelOverride(id) : registry.languageModel(id);
+}
 
-export const defaultModel: modelID = "deepseek-ai/DeepSeek-R1";
+export { MODELS, defaultModel, isModelID, type modelID } from "./models";
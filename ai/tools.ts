@@ -1,13 +1,302 @@
-import { tool } from "ai";
+import { tool, type Tool, type ToolSet } from "ai";
 import { z } from "zod";
+import { wellbeingStore } from "@/lib/wellbeing-store";
 
-export const weatherTool = tool({
-  description: "Get the weather in a location",
+// Who a tool is acting for; tools that save data need a signed-in user
+export interface ToolContext {
+  userId?: string;
+  threadId: string;
+  mode: string;
+}
+
+export interface BreathingPhase {
+  label: string;
+  seconds: number;
+}
+
+const BREATHING_PATTERNS: Record<string, BreathingPhase[]> = {
+  box: [
+    { label: "Breathe in", seconds: 4 },
+    { label: "Hold", seconds: 4 },
+    { label: "Breathe out", seconds: 4 },
+    { label: "Hold", seconds: 4 },
+  ],
+  "4-7-8": [
+    { label: "Breathe in", seconds: 4 },
+    { label: "Hold", seconds: 7 },
+    { label: "Breathe out", seconds: 8 },
+  ],
+  coherent: [
+    { label: "Breathe in", seconds: 5 },
+    { label: "Breathe out", seconds: 5 },
+  ],
+};
+
+const EXCHANGE_RATES_URL = "https://open.er-api.com/v6/latest";
+
+export interface BreathingExerciseResult {
+  pattern: string;
+  cycles: number;
+  phases: BreathingPhase[];
+  totalSeconds: number;
+}
+
+export interface JournalEntryResult {
+  saved: boolean;
+  entryId?: string;
+  title?: string | null;
+  reason?: string;
+}
+
+export interface MoodCheckInResult {
+  logged: boolean;
+  rating: number;
+  feeling: string;
+  // Earlier ratings, newest first, so the companion can comment on the trend
+  recentRatings: number[];
+  reason?: string;
+}
+
+export interface CurrencyConversionResult {
+  amount: number;
+  from: string;
+  conversions: { currency: string; rate: number; amount: number }[];
+  updatedAt?: string;
+  error?: string;
+}
+
+export interface TimeZoneResult {
+  reference: { timeZone: string; localTime: string };
+  times: { timeZone: string; localTime: string; utcOffset: string }[];
+  error?: string;
+}
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function zoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour12: false,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour") % 24, get("minute"), get("second"));
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+// The instant a wall-clock time in `timeZone` refers to
+function zonedTimeToDate(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Second pass corrects for a DST change between the guess and the answer
+  const guess = wallClock - zoneOffsetMs(new Date(wallClock), timeZone);
+  return new Date(wallClock - zoneOffsetMs(new Date(guess), timeZone));
+}
+
+function formatUtcOffset(offsetMs: number): string {
+  const minutes = Math.round(offsetMs / 60000);
+  const sign = minutes < 0 ? "-" : "+";
+  const hours = Math.floor(Math.abs(minutes) / 60);
+  const rest = Math.abs(minutes) % 60;
+  return `UTC${sign}${hours}${rest ? `:${String(rest).padStart(2, "0")}` : ""}`;
+}
+
+function formatLocalTime(date: Date, timeZone: string): string {
+  return date.toLocaleString("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+const breathingExercise = tool({
+  description:
+    "Start a guided breathing timer in the chat. Use when the user is anxious, stressed or asks to calm down.",
+  parameters: z.object({
+    pattern: z
+      .enum(["box", "4-7-8", "coherent"])
+      .describe("box: 4-4-4-4 for focus, 4-7-8: for sleep and anxiety, coherent: slow 5-5 breathing"),
+    cycles: z.number().int().min(1).max(10).default(4).describe("How many rounds of the pattern"),
+  }),
+  execute: async ({ pattern, cycles }): Promise<BreathingExerciseResult> => {
+    const phases = BREATHING_PATTERNS[pattern];
+    const cycleSeconds = phases.reduce((total, phase) => total + phase.seconds, 0);
+    return { pattern, cycles, phases, totalSeconds: cycleSeconds * cycles };
+  },
+});
+
+const convertCurrency = tool({
+  description: "Convert an amount of money between currencies at today's exchange rate.",
   parameters: z.object({
-    location: z.string().describe("The location to get the weather for"),
+    amount: z.number().positive().describe("The amount to convert"),
+    from: z.string().length(3).describe("ISO 4217 code of the source currency, e.g. USD"),
+    to: z.array(z.string().length(3)).min(1).max(5).describe("ISO 4217 codes to convert into, e.g. [\"JPY\", \"EUR\"]"),
   }),
-  execute: async ({ location }) => ({
-    location,
-    temperature: 72 + Math.floor(Math.random() * 21) - 10,
+  execute: async ({ amount, from, to }): Promise<CurrencyConversionResult> => {
+    const base = from.toUpperCase();
+    try {
+      const response = await fetch(`${EXCHANGE_RATES_URL}/${base}`, { next: { revalidate: 3600 } });
+      const data = await response.json();
+      if (!response.ok || data.result !== "success") {
+        return { amount, from: base, conversions: [], error: `No exchange rates for ${base}` };
+      }
+
+      const conversions = to
+        .map((code) => code.toUpperCase())
+        .filter((code) => typeof data.rates[code] === "number")
+        .map((currency) => ({
+          currency,
+          rate: data.rates[currency],
+          amount: Math.round(amount * data.rates[currency] * 100) / 100,
+        }));
+
+      return {
+        amount,
+        from: base,
+        conversions,
+        updatedAt: data.time_last_update_utc,
+        ...(conversions.length < to.length && { error: "Some currency codes were not recognised" }),
+      };
+    } catch (error) {
+      console.error("Error fetching exchange rates:", error);
+      return { amount, from: base, conversions: [], error: "Exchange rates are unavailable right now" };
+    }
+  },
+});
+
+const compareTimeZones = tool({
+  description:
+    "Show what time it is (or will be) in other time zones, e.g. to plan calls home or adjust to jet lag.",
+  parameters: z.object({
+    fromTimeZone: z.string().describe("IANA time zone of the reference time, e.g. America/New_York"),
+    toTimeZones: z.array(z.string()).min(1).max(5).describe("IANA time zones to convert into, e.g. [\"Asia/Tokyo\"]"),
+    time: z
+      .string()
+      .regex(/^\d{1,2}:\d{2}$/)
+      .optional()
+      .describe("24-hour HH:mm in fromTimeZone; omit for the current time"),
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .optional()
+      .describe("YYYY-MM-DD in fromTimeZone; omit for today"),
   }),
+  execute: async ({ fromTimeZone, toTimeZones, time, date }): Promise<TimeZoneResult> => {
+    const unknown = [fromTimeZone, ...toTimeZones].filter((zone) => !isTimeZone(zone));
+    if (unknown.length > 0) {
+      return {
+        reference: { timeZone: fromTimeZone, localTime: "" },
+        times: [],
+        error: `Unknown time zone: ${unknown.join(", ")}`,
+      };
+    }
+
+    let instant = new Date();
+    if (time || date) {
+      // en-CA formats dates as YYYY-MM-DD
+      const today = instant.toLocaleDateString("en-CA", { timeZone: fromTimeZone });
+      const now = instant.toLocaleTimeString("en-GB", { timeZone: fromTimeZone, hour: "2-digit", minute: "2-digit" });
+      instant = zonedTimeToDate(date ?? today, time ?? now, fromTimeZone);
+    }
+
+    return {
+      reference: { timeZone: fromTimeZone, localTime: formatLocalTime(instant, fromTimeZone) },
+      times: toTimeZones.map((timeZone) => ({
+        timeZone,
+        localTime: formatLocalTime(instant, timeZone),
+        utcOffset: formatUtcOffset(zoneOffsetMs(instant, timeZone)),
+      })),
+    };
+  },
 });
+
+const toolFactories = {
+  breathingExercise: () => breathingExercise,
+  saveJournalEntry: ({ userId, threadId, mode }: ToolContext) =>
+    tool({
+      description:
+        "Save a journal entry for the user. Only use when the user asks to journal or agrees to save what they wrote.",
+      parameters: z.object({
+        content: z.string().min(1).max(4000).describe("The entry, in the user's own words"),
+        title: z.string().max(120).optional().describe("A short title for the entry"),
+        mood: z.string().max(40).optional().describe("One or two words for how the user feels"),
+      }),
+      execute: async ({ content, title, mood }): Promise<JournalEntryResult> => {
+        if (!userId) {
+          return { saved: false, reason: "The user needs to sign in to keep a journal" };
+        }
+
+        const entry = await wellbeingStore.addJournalEntry({
+          user_id: userId,
+          thread_id: threadId,
+          mode,
+          title: title ?? null,
+          content,
+          mood: mood ?? null,
+        });
+        return entry
+          ? { saved: true, entryId: entry.id, title: entry.title }
+          : { saved: false, reason: "The journal could not be saved right now" };
+      },
+    }),
+  logMoodCheckIn: ({ userId, threadId, mode }: ToolContext) =>
+    tool({
+      description:
+        "Log how the user is feeling on a 1-5 scale. Use when the user shares a rating or answers a check-in question.",
+      parameters: z.object({
+        rating: z.number().int().min(1).max(5).describe("1 = very low, 5 = very good"),
+        feeling: z.string().min(1).max(40).describe("One or two words, e.g. anxious, calm"),
+        note: z.string().max(500).optional().describe("What the user said is behind the feeling"),
+      }),
+      execute: async ({ rating, feeling, note }): Promise<MoodCheckInResult> => {
+        if (!userId) {
+          return { logged: false, rating, feeling, recentRatings: [], reason: "The user needs to sign in to track their mood" };
+        }
+
+        const recent = await wellbeingStore.listMoodCheckIns(userId);
+        const checkIn = await wellbeingStore.addMoodCheckIn({
+          user_id: userId,
+          thread_id: threadId,
+          mode,
+          rating,
+          feeling,
+          note: note ?? null,
+        });
+        return {
+          logged: !!checkIn,
+          rating,
+          feeling,
+          recentRatings: recent.map((previous) => previous.rating),
+          ...(!checkIn && { reason: "The check-in could not be saved right now" }),
+        };
+      },
+    }),
+  convertCurrency: () => convertCurrency,
+  compareTimeZones: () => compareTimeZones,
+} satisfies Record<string, (context: ToolContext) => Tool>;
+
+export type ToolName = keyof typeof toolFactories;
+
+/**
+ * Build the tools a companion mode opted into, bound to the current user and thread
+ */
+export function buildToolSet(names: ToolName[], context: ToolContext): ToolSet {
+  return Object.fromEntries(names.map((name) => [name, toolFactories[name](context)]));
+}
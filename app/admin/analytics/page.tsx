@@ -4,6 +4,8 @@ import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import { AdminNav } from '@/components/admin-nav';
+import { ExperimentsPanel } from '@/components/experiments-panel';
+import { FeedbackPanel } from '@/components/feedback-panel';
 import {
   Users,
   Activity,
@@ -239,6 +241,12 @@ export default function AnalyticsDashboard() {
             </div>
           )}
 
+          {/* Thumbs up/down on assistant replies */}
+          <FeedbackPanel days={timeRange} />
+
+          {/* Prompt and model A/B experiments */}
+          <ExperimentsPanel />
+
           {/* Daily Visitors Chart */}
           {engagementData?.daily_visitors && (
             <div className="bg-white p-4 sm:p-6 rounded-lg border overflow-x-auto">
@@ -0,0 +1,339 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { FileText, History, Rocket, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { AdminNav } from '@/components/admin-nav';
+import { useRouter } from 'next/navigation';
+import { cn } from '@/lib/utils';
+import { diffLines } from '@/lib/text-diff';
+
+interface PromptDefinition {
+  key: string;
+  mode: string;
+  kind: 'system' | 'intro';
+  defaultContent: string;
+}
+
+interface PromptVersion {
+  id: string;
+  key: string;
+  version: number;
+  content: string;
+  status: 'draft' | 'published' | 'archived';
+  changelog: string;
+  created_at: string;
+  published_at: string | null;
+}
+
+const STATUS_VARIANTS: Record<PromptVersion['status'], 'default' | 'secondary' | 'outline'> = {
+  published: 'default',
+  draft: 'secondary',
+  archived: 'outline',
+};
+
+export default function PromptsDashboard() {
+  const [definitions, setDefinitions] = useState<PromptDefinition[]>([]);
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [content, setContent] = useState('');
+  const [changelog, setChangelog] = useState('');
+  const router = useRouter();
+
+  const handleLogout = () => {
+    // Clear admin auth cookie
+    document.cookie = 'admin-auth=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/;';
+    router.push('/admin/login');
+  };
+
+  const fetchPrompts = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/prompts');
+
+      if (response.status === 401) {
+        router.push('/admin/login');
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to fetch prompts');
+      }
+
+      const data = await response.json();
+      setDefinitions(data.definitions);
+      setVersions(data.versions);
+      setSelectedKey((key) => key ?? data.definitions[0]?.key ?? null);
+    } catch (error) {
+      console.error('Error fetching prompts:', error);
+      toast.error('Failed to load prompts');
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchPrompts();
+  }, [fetchPrompts]);
+
+  const definition = definitions.find((d) => d.key === selectedKey);
+  const keyVersions = versions.filter((v) => v.key === selectedKey);
+  const published = keyVersions.find((v) => v.status === 'published');
+  const draft = keyVersions.find((v) => v.status === 'draft');
+  const liveContent = published?.content ?? definition?.defaultContent ?? '';
+
+  // Edit the open draft, or start a new one from what is live
+  useEffect(() => {
+    setContent(draft?.content ?? liveContent);
+    setChangelog(draft?.changelog ?? '');
+  }, [selectedKey, draft?.id, draft?.content, draft?.changelog, liveContent]);
+
+  const diff = useMemo(() => diffLines(liveContent, content), [liveContent, content]);
+  const hasChanges = diff.some((line) => line.type !== 'same');
+
+  const request = async (url: string, init: RequestInit, failure: string) => {
+    try {
+      setSaving(true);
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || failure);
+      }
+      await fetchPrompts();
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast.error(error instanceof Error ? error.message : failure);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveDraft = async () => {
+    if (!selectedKey) {
+      return;
+    }
+    const saved = draft
+      ? await request(`/api/admin/prompts/${draft.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify({ content, changelog }),
+        }, 'Failed to save draft')
+      : await request('/api/admin/prompts', {
+          method: 'POST',
+          body: JSON.stringify({ key: selectedKey, content, changelog }),
+        }, 'Failed to create draft');
+    if (saved) {
+      toast.success('Draft saved');
+    }
+  };
+
+  const publish = async (version: PromptVersion) => {
+    if (await request(`/api/admin/prompts/${version.id}`, {
+      method: 'POST',
+      body: JSON.stringify({ action: 'publish' }),
+    }, 'Failed to publish prompt')) {
+      toast.success(`Published ${version.key} v${version.version}`);
+    }
+  };
+
+  const rollback = async (version: PromptVersion) => {
+    if (!confirm(`Publish the content of ${version.key} v${version.version} again as a new version?`)) {
+      return;
+    }
+    if (await request(`/api/admin/prompts/${version.id}`, {
+      method: 'POST',
+      body: JSON.stringify({ action: 'rollback' }),
+    }, 'Failed to roll back prompt')) {
+      toast.success(`Rolled back ${version.key} to v${version.version}`);
+    }
+  };
+
+  const deleteDraft = async (version: PromptVersion) => {
+    if (await request(`/api/admin/prompts/${version.id}`, { method: 'DELETE' }, 'Failed to delete draft')) {
+      toast.success('Draft deleted');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminNav onLogout={handleLogout} />
+      <div className="container mx-auto p-6 space-y-6 max-w-full px-2 sm:px-6 lg:px-8">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold">Prompts</h1>
+          <p className="text-gray-600 text-sm sm:text-base">
+            System prompts and intro messages served to chat, voice and avatar sessions
+          </p>
+        </div>
+
+        {loading && definitions.length === 0 ? (
+          <div className="flex items-center justify-center py-24">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-gray-900"></div>
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[16rem_1fr]">
+            <Card className="h-fit">
+              <CardContent className="p-2">
+                {definitions.map((d) => {
+                  const live = versions.find((v) => v.key === d.key && v.status === 'published');
+                  const hasDraft = versions.some((v) => v.key === d.key && v.status === 'draft');
+                  return (
+                    <button
+                      key={d.key}
+                      onClick={() => setSelectedKey(d.key)}
+                      className={cn(
+                        'w-full flex items-center justify-between gap-2 px-3 py-2 text-sm rounded-md text-left transition-colors',
+                        d.key === selectedKey ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'
+                      )}
+                    >
+                      <span className="flex items-center gap-2">
+                        <FileText className="h-4 w-4" />
+                        {d.key}
+                      </span>
+                      <span className="flex gap-1">
+                        {hasDraft && <Badge variant="secondary">draft</Badge>}
+                        <Badge variant="outline">{live ? `v${live.version}` : 'default'}</Badge>
+                      </span>
+                    </button>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            {definition && (
+              <div className="space-y-6 min-w-0">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{draft ? `Draft v${draft.version}` : 'New draft'}</CardTitle>
+                    <CardDescription>
+                      {published
+                        ? `Live: v${published.version}, published ${new Date(published.published_at ?? published.created_at).toLocaleString()}`
+                        : 'Live: built-in default (nothing published yet)'}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <Textarea
+                      value={content}
+                      onChange={(e) => setContent(e.target.value)}
+                      className="min-h-[240px] font-mono text-xs"
+                    />
+                    <div className="space-y-2">
+                      <Label htmlFor="changelog">Changelog</Label>
+                      <Input
+                        id="changelog"
+                        value={changelog}
+                        onChange={(e) => setChangelog(e.target.value)}
+                        placeholder="What changed and why"
+                      />
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button onClick={saveDraft} disabled={saving || !content.trim() || (!draft && !hasChanges)}>
+                        <Save className="h-4 w-4 mr-2" />
+                        Save draft
+                      </Button>
+                      {draft && (
+                        <>
+                          <Button
+                            variant="outline"
+                            onClick={() => publish(draft)}
+                            disabled={saving || content !== draft.content || changelog !== draft.changelog}
+                            title={content !== draft.content ? 'Save the draft before publishing' : undefined}
+                          >
+                            <Rocket className="h-4 w-4 mr-2" />
+                            Publish
+                          </Button>
+                          <Button
+                            variant="outline"
+                            onClick={() => deleteDraft(draft)}
+                            disabled={saving}
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Discard draft
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Changes from live</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {hasChanges ? (
+                      <pre className="text-xs whitespace-pre-wrap rounded-md border bg-white overflow-x-auto">
+                        {diff.map((line, index) => (
+                          <div
+                            key={index}
+                            className={cn(
+                              'px-3',
+                              line.type === 'added' && 'bg-green-50 text-green-800',
+                              line.type === 'removed' && 'bg-red-50 text-red-800 line-through'
+                            )}
+                          >
+                            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                            {line.text}
+                          </div>
+                        ))}
+                      </pre>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No changes.</p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <History className="h-4 w-4" />
+                      History
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {keyVersions.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No versions saved yet.</p>
+                    ) : (
+                      <div className="divide-y">
+                        {keyVersions.map((version) => (
+                          <div key={version.id} className="py-3 flex items-start justify-between gap-4">
+                            <div className="space-y-1 min-w-0">
+                              <div className="flex flex-wrap items-center gap-2 text-sm">
+                                <span className="font-medium">v{version.version}</span>
+                                <Badge variant={STATUS_VARIANTS[version.status]}>{version.status}</Badge>
+                                <span className="text-xs text-muted-foreground">
+                                  {new Date(version.published_at ?? version.created_at).toLocaleString()}
+                                </span>
+                              </div>
+                              <p className="text-sm text-gray-600">{version.changelog || 'No changelog'}</p>
+                            </div>
+                            {version.status === 'archived' && (
+                              <Button variant="outline" size="sm" onClick={() => rollback(version)} disabled={saving}>
+                                Roll back
+                              </Button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, RotateCcw, ShieldAlert } from 'lucide-react';
+import { toast } from 'sonner';
+import { AdminNav } from '@/components/admin-nav';
+import { useRouter } from 'next/navigation';
+
+interface SafetyEvent {
+  id: string;
+  user_id: string | null;
+  thread_id: string | null;
+  mode: string;
+  source: 'keywords' | 'moderation';
+  categories: string[];
+  excerpt: string;
+  locale: string | null;
+  reviewed: boolean;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+interface GuardrailViolation {
+  id: string;
+  user_id: string | null;
+  thread_id: string | null;
+  mode: string;
+  rule_id: string;
+  action: 'rewrite' | 'redact' | 'cutoff';
+  source: 'regex' | 'judge';
+  excerpt: string;
+  created_at: string;
+}
+
+export default function SafetyDashboard() {
+  const [events, setEvents] = useState<SafetyEvent[]>([]);
+  const [violations, setViolations] = useState<GuardrailViolation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState('open');
+  const router = useRouter();
+
+  const handleLogout = () => {
+    // Clear admin auth cookie
+    document.cookie = 'admin-auth=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/;';
+    router.push('/admin/login');
+  };
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/admin/safety?includeReviewed=${filter === 'all'}`);
+
+      if (response.status === 401) {
+        router.push('/admin/login');
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to fetch safety events');
+      }
+
+      const data = await response.json();
+      setEvents(data.events);
+      setViolations(data.violations);
+    } catch (error) {
+      console.error('Error fetching safety events:', error);
+      toast.error('Failed to load safety events');
+    } finally {
+      setLoading(false);
+    }
+  }, [filter, router]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const setReviewed = async (id: string, reviewed: boolean) => {
+    try {
+      const response = await fetch('/api/admin/safety', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, reviewed }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update safety event');
+      }
+
+      await fetchEvents();
+    } catch (error) {
+      console.error('Error updating safety event:', error);
+      toast.error('Failed to update safety event');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminNav onLogout={handleLogout} />
+      <div className="container mx-auto p-6 space-y-6 max-w-full px-2 sm:px-6 lg:px-8">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold">Safety Events</h1>
+            <p className="text-gray-600 text-sm sm:text-base">
+              Messages escalated to crisis resources instead of a normal reply
+            </p>
+          </div>
+          <Select value={filter} onValueChange={setFilter}>
+            <SelectTrigger className="w-full sm:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Needs review</SelectItem>
+              <SelectItem value="all">All events</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-24">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-gray-900"></div>
+          </div>
+        ) : events.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              No safety events to review.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {events.map((event) => (
+              <Card key={event.id} className={event.reviewed ? 'opacity-70' : ''}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+                  <div className="space-y-1">
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      <ShieldAlert className="h-4 w-4 text-red-600" />
+                      {event.mode} companion
+                    </CardTitle>
+                    <CardDescription>
+                      {new Date(event.created_at).toLocaleString()}
+                      {event.locale && ` · ${event.locale}`}
+                      {` · ${event.user_id ? `user ${event.user_id}` : 'anonymous'}`}
+                      {event.thread_id && ` · thread ${event.thread_id}`}
+                    </CardDescription>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setReviewed(event.id, !event.reviewed)}
+                  >
+                    {event.reviewed ? (
+                      <>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Reopen
+                      </>
+                    ) : (
+                      <>
+                        <CheckCircle2 className="h-4 w-4 mr-2" />
+                        Mark reviewed
+                      </>
+                    )}
+                  </Button>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="secondary">{event.source}</Badge>
+                    {event.categories.map((category) => (
+                      <Badge key={category} variant="destructive">{category}</Badge>
+                    ))}
+                    {event.reviewed && event.reviewed_at && (
+                      <Badge variant="outline">
+                        Reviewed {new Date(event.reviewed_at).toLocaleDateString()}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap bg-gray-50 rounded-md p-3 border">
+                    {event.excerpt}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {!loading && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Output Guardrails</CardTitle>
+              <CardDescription>
+                Assistant sentences that were rewritten, redacted or cut off before reaching the user
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {violations.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No guardrail violations recorded.</p>
+              ) : (
+                <div className="divide-y">
+                  {violations.map((violation) => (
+                    <div key={violation.id} className="py-3 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        <Badge variant={violation.action === 'cutoff' ? 'destructive' : 'secondary'}>
+                          {violation.action}
+                        </Badge>
+                        <Badge variant="outline">{violation.rule_id}</Badge>
+                        <span>{violation.mode}</span>
+                        <span>·</span>
+                        <span>{violation.source}</span>
+                        <span>·</span>
+                        <span>{new Date(violation.created_at).toLocaleString()}</span>
+                      </div>
+                      <p className="text-sm">{violation.excerpt}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
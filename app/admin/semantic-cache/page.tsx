@@ -0,0 +1,245 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, RotateCcw, Trash2, Zap } from 'lucide-react';
+import { toast } from 'sonner';
+import { AdminNav } from '@/components/admin-nav';
+import { useRouter } from 'next/navigation';
+
+interface SemanticCacheEntry {
+  id: string;
+  mode: string;
+  prompt_version_id: string | null;
+  embedding_model: string;
+  question: string;
+  answer: string;
+  model_id: string;
+  status: 'pending' | 'approved';
+  ask_count: number;
+  hit_count: number;
+  created_at: string;
+  approved_at: string | null;
+  last_asked_at: string;
+}
+
+const ALL = 'all';
+
+export default function SemanticCacheDashboard() {
+  const [entries, setEntries] = useState<SemanticCacheEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState('pending');
+  const [mode, setMode] = useState(ALL);
+  const router = useRouter();
+
+  const handleLogout = () => {
+    // Clear admin auth cookie
+    document.cookie = 'admin-auth=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/;';
+    router.push('/admin/login');
+  };
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams();
+      if (status !== ALL) params.set('status', status);
+      if (mode !== ALL) params.set('mode', mode);
+      const response = await fetch(`/api/admin/semantic-cache?${params}`);
+
+      if (response.status === 401) {
+        router.push('/admin/login');
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to fetch semantic cache entries');
+      }
+
+      const data = await response.json();
+      setEntries(data.entries);
+    } catch (error) {
+      console.error('Error fetching semantic cache entries:', error);
+      toast.error('Failed to load semantic cache entries');
+    } finally {
+      setLoading(false);
+    }
+  }, [status, mode, router]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const setEntryStatus = async (id: string, nextStatus: SemanticCacheEntry['status']) => {
+    try {
+      const response = await fetch('/api/admin/semantic-cache', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, status: nextStatus }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update semantic cache entry');
+      }
+
+      await fetchEntries();
+    } catch (error) {
+      console.error('Error updating semantic cache entry:', error);
+      toast.error('Failed to update semantic cache entry');
+    }
+  };
+
+  const purge = async (filter: { ids?: string[]; status?: string; mode?: string }) => {
+    try {
+      const response = await fetch('/api/admin/semantic-cache', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(filter),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to purge semantic cache entries');
+      }
+
+      const { deleted } = await response.json();
+      toast.success(`Removed ${deleted} ${deleted === 1 ? 'entry' : 'entries'}`);
+      await fetchEntries();
+    } catch (error) {
+      console.error('Error purging semantic cache entries:', error);
+      toast.error('Failed to purge semantic cache entries');
+    }
+  };
+
+  const purgeShown = () => {
+    const scope = [status !== ALL && status, mode !== ALL && mode].filter(Boolean).join(' ');
+    if (!confirm(`Delete all ${scope ? `${scope} ` : ''}cache entries? Repeated questions will be answered by the model again.`)) {
+      return;
+    }
+    purge({
+      ...(status !== ALL && { status }),
+      ...(mode !== ALL && { mode }),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminNav onLogout={handleLogout} />
+      <div className="container mx-auto p-6 space-y-6 max-w-full px-2 sm:px-6 lg:px-8">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold">Semantic Cache</h1>
+            <p className="text-gray-600 text-sm sm:text-base">
+              Opening questions asked again in other words. Approved answers are served without calling the model.
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-full sm:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pending">Needs review</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value={ALL}>All entries</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={mode} onValueChange={setMode}>
+              <SelectTrigger className="w-full sm:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All modes</SelectItem>
+                <SelectItem value="corporate">Corporate</SelectItem>
+                <SelectItem value="travel">Travel</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={purgeShown}
+              disabled={entries.length === 0}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Purge
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-24">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-gray-900"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              No cached questions here yet.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {entries.map((entry) => (
+              <Card key={entry.id}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+                  <div className="space-y-1">
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      <Zap className={entry.status === 'approved' ? 'h-4 w-4 text-green-600' : 'h-4 w-4 text-gray-400'} />
+                      {entry.question}
+                    </CardTitle>
+                    <CardDescription>
+                      {entry.mode} companion · {entry.model_id} · first asked {new Date(entry.created_at).toLocaleString()}
+                      {` · last asked ${new Date(entry.last_asked_at).toLocaleString()}`}
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEntryStatus(entry.id, entry.status === 'approved' ? 'pending' : 'approved')}
+                    >
+                      {entry.status === 'approved' ? (
+                        <>
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Unapprove
+                        </>
+                      ) : (
+                        <>
+                          <CheckCircle2 className="h-4 w-4 mr-2" />
+                          Approve
+                        </>
+                      )}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => purge({ ids: [entry.id] })}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant={entry.status === 'approved' ? 'default' : 'secondary'}>{entry.status}</Badge>
+                    <Badge variant="outline">Asked {entry.ask_count}×</Badge>
+                    <Badge variant="outline">Served {entry.hit_count}×</Badge>
+                    <Badge variant="outline">{entry.prompt_version_id ? 'Published prompt' : 'Default prompt'}</Badge>
+                    {entry.approved_at && (
+                      <Badge variant="outline">
+                        Approved {new Date(entry.approved_at).toLocaleDateString()}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap bg-gray-50 rounded-md p-3 border">
+                    {entry.answer}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import crypto from 'crypto';
+import { isAdminRequest } from '@/lib/admin-auth';
 
 export const runtime = 'nodejs';
 
@@ -41,27 +42,6 @@ function generateToken(payload: JWTPayload): string {
   return `${encodedHeader}.${encodedPayload}.${signature}`;
 }
 
-function verifyToken(token: string): boolean {
-  try {
-    if (!JWT_SECRET) {
-      return false;
-    }
-
-    const parts = token.split('.');
-    if (parts.length !== 3) { return false };
-
-    const [header, payload, signature] = parts;
-    const expectedSignature = crypto
-      .createHmac('sha256', JWT_SECRET)
-      .update(`${header}.${payload}`)
-      .digest('base64url');
-
-    return signature === expectedSignature;
-  } catch {
-    return false;
-  }
-}
-
 export async function POST(request: NextRequest) {
   try {
     const { username, password } = await request.json();
@@ -112,13 +92,7 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const token = request.cookies.get('admin-auth')?.value;
-
-    if (!token || !verifyToken(token)) {
-      return NextResponse.json({ authenticated: false });
-    }
-
-    return NextResponse.json({ authenticated: true });
+    return NextResponse.json({ authenticated: isAdminRequest(request) });
   } catch (error) {
     console.error('Auth check error:', error);
     return NextResponse.json({ authenticated: false });
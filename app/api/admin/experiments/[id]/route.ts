@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { experimentStore } from '@/lib/experiment-store';
+import { invalidateExperiment } from '@/lib/companion/experiments';
+
+export const runtime = 'nodejs';
+
+/**
+ * Stop a running experiment; its sessions go back to the published prompt and default model
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { status } = await request.json();
+    if (status !== 'stopped') {
+      return NextResponse.json({ error: 'Status must be stopped' }, { status: 400 });
+    }
+
+    const experiment = await experimentStore.stopExperiment(id);
+    if (!experiment) {
+      return NextResponse.json({ error: 'Running experiment not found' }, { status: 404 });
+    }
+
+    invalidateExperiment(experiment.mode);
+
+    return NextResponse.json({ experiment });
+  } catch (error) {
+    console.error('Error stopping experiment:', error);
+    return NextResponse.json(
+      { error: 'Failed to stop experiment', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { experimentStore } from '@/lib/experiment-store';
+import { promptStore } from '@/lib/prompt-store';
+import { getCompanionMode } from '@/lib/companion/modes';
+import { promptKey } from '@/lib/companion/prompts';
+import { invalidateExperiment } from '@/lib/companion/experiments';
+import { isModelID } from '@/ai/models';
+import type { ExperimentVariant } from '@/lib/supabase';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const experiments = await experimentStore.listExperiments();
+    const results = await Promise.all(experiments.map((experiment) => experimentStore.getResults(experiment)));
+
+    return NextResponse.json({ experiments: results });
+  } catch (error) {
+    console.error('Error fetching experiments:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch experiments', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Start an experiment. Body: { mode, name, split?, variants: [{ promptVersionId, model }, { promptVersionId, model }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { mode, name, split = 50, variants } = await request.json();
+    if (typeof mode !== 'string' || !getCompanionMode(mode)) {
+      return NextResponse.json({ error: `Unknown companion mode: ${mode}` }, { status: 400 });
+    }
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Missing required field: name' }, { status: 400 });
+    }
+    if (!Number.isInteger(split) || split < 1 || split > 99) {
+      return NextResponse.json({ error: 'Split must be a whole percentage between 1 and 99' }, { status: 400 });
+    }
+    if (!Array.isArray(variants) || variants.length !== 2) {
+      return NextResponse.json({ error: 'Exactly two variants are required' }, { status: 400 });
+    }
+
+    const parsed: ExperimentVariant[] = [];
+    for (const [index, variant] of variants.entries()) {
+      const promptVersionId = variant?.promptVersionId || null;
+      const model = variant?.model || null;
+
+      if (model !== null && !isModelID(model)) {
+        return NextResponse.json({ error: `Unknown model: ${model}` }, { status: 400 });
+      }
+      if (promptVersionId !== null) {
+        const version = await promptStore.getVersion(promptVersionId);
+        if (!version || version.key !== promptKey(mode, 'system')) {
+          return NextResponse.json(
+            { error: `Variant prompts must be versions of ${promptKey(mode, 'system')}` },
+            { status: 400 }
+          );
+        }
+      }
+
+      parsed.push({ id: index === 0 ? 'A' : 'B', promptVersionId, model });
+    }
+
+    if (parsed[0].promptVersionId === parsed[1].promptVersionId && parsed[0].model === parsed[1].model) {
+      return NextResponse.json({ error: 'The two variants are identical' }, { status: 400 });
+    }
+
+    const experiment = await experimentStore.createExperiment({ mode, name: name.trim(), split, variants: parsed });
+    if (!experiment) {
+      return NextResponse.json(
+        { error: `Could not start the experiment; stop the one already running in ${mode} first` },
+        { status: 409 }
+      );
+    }
+
+    invalidateExperiment(mode);
+
+    return NextResponse.json({ experiment }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating experiment:', error);
+    return NextResponse.json(
+      { error: 'Failed to create experiment', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
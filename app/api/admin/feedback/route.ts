@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { feedbackStore } from '@/lib/feedback-store';
+
+export const runtime = 'nodejs';
+
+/**
+ * Message feedback over the last ?days= (default 30), aggregated for the analytics page
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const days = parseInt(request.nextUrl.searchParams.get('days') || '30');
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      return NextResponse.json({ error: 'days must be between 1 and 365' }, { status: 400 });
+    }
+
+    const summary = await feedbackStore.getSummary(days);
+
+    return NextResponse.json({ summary });
+  } catch (error) {
+    console.error('Error fetching feedback summary:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch feedback', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
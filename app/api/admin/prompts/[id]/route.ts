@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { promptStore } from '@/lib/prompt-store';
+import { invalidatePrompt } from '@/lib/companion/prompts';
+import { promptCacheTag, responseCache } from '@/lib/cache';
+
+export const runtime = 'nodejs';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { content, changelog } = await request.json();
+    if (content !== undefined && (typeof content !== 'string' || !content.trim())) {
+      return NextResponse.json({ error: 'Content must be a non-empty string' }, { status: 400 });
+    }
+    if (changelog !== undefined && typeof changelog !== 'string') {
+      return NextResponse.json({ error: 'Changelog must be a string' }, { status: 400 });
+    }
+
+    const version = await promptStore.updateDraft(id, { content, changelog });
+    if (!version) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ version });
+  } catch (error) {
+    console.error('Error updating prompt draft:', error);
+    return NextResponse.json(
+      { error: 'Failed to update draft', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Publish a draft, or roll back to an earlier version
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { action } = await request.json();
+    if (action !== 'publish' && action !== 'rollback') {
+      return NextResponse.json({ error: 'Action must be publish or rollback' }, { status: 400 });
+    }
+
+    const version = action === 'publish' ? await promptStore.publish(id) : await promptStore.rollback(id);
+    if (!version) {
+      return NextResponse.json(
+        { error: action === 'publish' ? 'Draft not found' : 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    // Other instances pick the new version up when their cache expires
+    invalidatePrompt(version.key);
+    // Cached responses are shared across instances, so drop the ones written with earlier versions
+    await responseCache.invalidateTag(promptCacheTag(version.key));
+
+    return NextResponse.json({ version });
+  } catch (error) {
+    console.error('Error publishing prompt:', error);
+    return NextResponse.json(
+      { error: 'Failed to publish prompt', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const deleted = await promptStore.deleteDraft(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting prompt draft:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete draft', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
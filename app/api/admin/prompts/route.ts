@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { promptStore } from '@/lib/prompt-store';
+import { PROMPT_DEFINITIONS, getPromptDefinition } from '@/lib/companion/prompts';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const versions = await promptStore.listVersions();
+    return NextResponse.json({ definitions: PROMPT_DEFINITIONS, versions });
+  } catch (error) {
+    console.error('Error fetching prompts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch prompts', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { key, content, changelog } = await request.json();
+    if (typeof key !== 'string' || typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json({ error: 'Missing required fields: key, content' }, { status: 400 });
+    }
+    if (!getPromptDefinition(key)) {
+      return NextResponse.json({ error: `Unknown prompt: ${key}` }, { status: 400 });
+    }
+
+    const version = await promptStore.createDraft(key, content, typeof changelog === 'string' ? changelog : '');
+    if (!version) {
+      return NextResponse.json({ error: 'Failed to create draft' }, { status: 500 });
+    }
+
+    return NextResponse.json({ version }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating prompt draft:', error);
+    return NextResponse.json(
+      { error: 'Failed to create draft', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
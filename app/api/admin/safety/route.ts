@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { safetyEventStore } from '@/lib/safety-store';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const includeReviewed = searchParams.get('includeReviewed') === 'true';
+
+    const [events, violations] = await Promise.all([
+      safetyEventStore.listEvents({ includeReviewed }),
+      safetyEventStore.listGuardrailViolations(),
+    ]);
+
+    return NextResponse.json({ events, violations });
+  } catch (error) {
+    console.error('Error fetching safety events:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch safety events', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, reviewed } = await request.json();
+    if (typeof id !== 'string' || typeof reviewed !== 'boolean') {
+      return NextResponse.json({ error: 'Missing required fields: id, reviewed' }, { status: 400 });
+    }
+
+    const event = await safetyEventStore.setReviewed(id, reviewed);
+    if (!event) {
+      return NextResponse.json({ error: 'Safety event not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ event });
+  } catch (error) {
+    console.error('Error updating safety event:', error);
+    return NextResponse.json(
+      { error: 'Failed to update safety event', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
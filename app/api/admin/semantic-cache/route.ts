@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { semanticCacheStore, type SemanticCacheStatus } from '@/lib/semantic-cache-store';
+import { invalidateSemanticIndexes } from '@/lib/companion/semantic-cache';
+
+export const runtime = 'nodejs';
+
+function parseStatus(value: unknown): SemanticCacheStatus | undefined {
+  return value === 'pending' || value === 'approved' ? value : undefined;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const entries = await semanticCacheStore.listEntries({
+      status: parseStatus(searchParams.get('status')),
+      mode: searchParams.get('mode') || undefined,
+    });
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Error fetching semantic cache entries:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch semantic cache entries', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, status } = await request.json();
+    const nextStatus = parseStatus(status);
+    if (typeof id !== 'string' || !nextStatus) {
+      return NextResponse.json({ error: 'Missing required fields: id, status (pending or approved)' }, { status: 400 });
+    }
+
+    const entry = await semanticCacheStore.setStatus(id, nextStatus);
+    if (!entry) {
+      return NextResponse.json({ error: 'Semantic cache entry not found' }, { status: 404 });
+    }
+
+    invalidateSemanticIndexes();
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('Error updating semantic cache entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to update semantic cache entry', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Purge entries: the given IDs, or everything matching an optional status and mode
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    if (!isAdminRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { ids, status, mode } = await request.json().catch(() => ({}));
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id) => typeof id === 'string'))) {
+      return NextResponse.json({ error: 'ids must be an array of entry IDs' }, { status: 400 });
+    }
+
+    const deleted = await semanticCacheStore.purge({
+      ids,
+      status: parseStatus(status),
+      mode: typeof mode === 'string' && mode ? mode : undefined,
+    });
+    if (deleted === null) {
+      return NextResponse.json({ error: 'Failed to purge semantic cache entries' }, { status: 500 });
+    }
+
+    invalidateSemanticIndexes();
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    console.error('Error purging semantic cache entries:', error);
+    return NextResponse.json(
+      { error: 'Failed to purge semantic cache entries', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -28,12 +28,16 @@ export async function POST(request: NextRequest) {
     // Create Supabase client
     const supabase = await createClient();
 
+    // Signed-in visitors' events are linked to their account so account deletion removes them
+    const { data: { user } } = await supabase.auth.getUser();
+
     // Insert engagement metric with better error handling
     try {
       const { data, error } = await supabase
         .from('engagement_metrics')
         .insert({
           visitor_id,
+          user_id: user?.id ?? null,
           session_id,
           service_used,
           environment,
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCompanionMode } from '@/lib/companion/modes';
+import { getPrompt, promptKey } from '@/lib/companion/prompts';
+
+/**
+ * The published intro message for a companion mode, shown before the first turn
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ mode: string }> }
+) {
+  const { mode: modeId } = await params;
+
+  if (!getCompanionMode(modeId)) {
+    return NextResponse.json({ error: `Unknown companion mode: ${modeId}` }, { status: 404 });
+  }
+
+  const intro = await getPrompt(promptKey(modeId, 'intro'));
+  return NextResponse.json({ intro: intro.content, versionId: intro.versionId });
+}
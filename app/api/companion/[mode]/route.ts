@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server';
+import { getCompanionMode } from '@/lib/companion/modes';
+import { errorResponse, handleCompanionRequest } from '@/lib/companion/engine';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ mode: string }> }
+) {
+  const { mode: modeId } = await params;
+  const mode = getCompanionMode(modeId);
+
+  if (!mode) {
+    return errorResponse(`Unknown companion mode: ${modeId}`, 404);
+  }
+
+  return handleCompanionRequest(request, mode);
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { conversationStore, type ConversationUpdate } from '@/lib/conversation-store';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function isSignedIn(): Promise<boolean> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  return !!user;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!(await isSignedIn())) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const conversation = await conversationStore.getConversation(id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const messages = await conversationStore.getMessages(conversation.id);
+
+    return NextResponse.json({ conversation, messages });
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { title, pinned, activeMessageId } = await request.json();
+
+    if (!(await isSignedIn())) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const update: ConversationUpdate = {};
+    if (typeof title === 'string') {
+      const trimmedTitle = title.trim().slice(0, 120);
+      if (!trimmedTitle) {
+        return NextResponse.json({ error: 'Title cannot be empty' }, { status: 400 });
+      }
+      update.title = trimmedTitle;
+    }
+    if (typeof pinned === 'boolean') {
+      update.pinned = pinned;
+    }
+    // Switch the branch on screen; the message must be one of this conversation's
+    if (typeof activeMessageId === 'string') {
+      if (!(await conversationStore.hasMessage(id, activeMessageId))) {
+        return NextResponse.json({ error: 'Message not found in this conversation' }, { status: 400 });
+      }
+      update.active_message_id = activeMessageId;
+    }
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update: provide title, pinned or activeMessageId' }, { status: 400 });
+    }
+
+    const conversation = await conversationStore.updateConversation(id, update);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error('Error updating conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to update conversation', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!(await isSignedIn())) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const deleted = await conversationStore.deleteConversation(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete conversation', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { conversationStore } from '@/lib/conversation-store';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const mode = searchParams.get('mode');
+    const query = searchParams.get('q') || undefined;
+
+    if (!mode) {
+      return NextResponse.json({ error: 'Missing required parameter: mode' }, { status: 400 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const conversations = await conversationStore.listConversations(mode, query);
+
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    console.error('Error listing conversations:', error);
+    return NextResponse.json(
+      { error: 'Failed to list conversations', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
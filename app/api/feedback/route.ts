@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { feedbackStore } from '@/lib/feedback-store';
+import { isFeedbackReason, MAX_FEEDBACK_COMMENT_LENGTH } from '@/lib/companion/feedback';
+
+export const runtime = 'nodejs';
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value ? value : null);
+
+async function getUserId(): Promise<string | null> {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    return user?.id ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The engine's record of a reply, if it was served to this account or, signed out, this visitor
+ */
+async function findOwnReply(messageId: string, visitorId: string, userId: string | null) {
+  const reply = await feedbackStore.getReply(messageId);
+  if (!reply || (reply.user_id ? reply.user_id !== userId : reply.visitor_id !== visitorId)) {
+    return null;
+  }
+  return reply;
+}
+
+/**
+ * Rate an assistant reply. Body: { messageId, visitorId, rating: 'up' | 'down', reason?, comment? }.
+ * The thread, mode, model, prompt version, experiment and excerpt come from the engine's record
+ * of the reply, never from the client.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { messageId, visitorId, rating, reason, comment } = await request.json();
+
+    if (typeof messageId !== 'string' || !messageId || typeof visitorId !== 'string' || !visitorId) {
+      return NextResponse.json({ error: 'Missing required fields: messageId, visitorId' }, { status: 400 });
+    }
+    if (rating !== 'up' && rating !== 'down') {
+      return NextResponse.json({ error: "Rating must be 'up' or 'down'" }, { status: 400 });
+    }
+    if (reason != null && !isFeedbackReason(reason)) {
+      return NextResponse.json({ error: `Unknown feedback reason: ${reason}` }, { status: 400 });
+    }
+    if (comment != null && (typeof comment !== 'string' || comment.length > MAX_FEEDBACK_COMMENT_LENGTH)) {
+      return NextResponse.json(
+        { error: `Comment must be text of at most ${MAX_FEEDBACK_COMMENT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const userId = await getUserId();
+    const reply = await findOwnReply(messageId, visitorId, userId);
+    if (!reply) {
+      return NextResponse.json({ error: 'Reply not found' }, { status: 404 });
+    }
+
+    const feedback = await feedbackStore.saveFeedback({
+      message_id: messageId,
+      thread_id: reply.thread_id,
+      mode: reply.mode,
+      user_id: userId,
+      visitor_id: visitorId,
+      rating,
+      // Reasons and comments explain a thumbs down
+      reason: rating === 'down' ? reason ?? null : null,
+      comment: optionalString(comment?.trim()),
+      model_id: reply.model_id,
+      prompt_version_id: reply.prompt_version_id,
+      experiment_id: reply.experiment_id,
+      experiment_variant: reply.experiment_variant,
+      excerpt: reply.excerpt,
+    });
+
+    if (!feedback) {
+      return NextResponse.json({ error: 'Failed to save feedback' }, { status: 500 });
+    }
+
+    return NextResponse.json({ feedback });
+  } catch (error) {
+    console.error('Error saving feedback:', error);
+    return NextResponse.json(
+      { error: 'Failed to save feedback', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Withdraw a rating. Body: { messageId, visitorId }; only whoever may rate the reply can withdraw it
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { messageId, visitorId } = await request.json();
+    if (typeof messageId !== 'string' || !messageId || typeof visitorId !== 'string' || !visitorId) {
+      return NextResponse.json({ error: 'Missing required fields: messageId, visitorId' }, { status: 400 });
+    }
+
+    if (!(await findOwnReply(messageId, visitorId, await getUserId()))) {
+      return NextResponse.json({ error: 'Reply not found' }, { status: 404 });
+    }
+
+    const removed = await feedbackStore.removeFeedback(messageId, visitorId);
+    if (!removed) {
+      return NextResponse.json({ error: 'Feedback not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing feedback:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove feedback', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
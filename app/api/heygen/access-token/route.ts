@@ -1,6 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getCompanionMode } from '@/lib/companion/modes';
+import { getPrompt, promptKey, recordPromptUsage } from '@/lib/companion/prompts';
+
 const { HEYGEN_API_KEY } = process.env;
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   console.log('🔍 [HeyGen API] Access token request received');
   console.log('🔍 [HeyGen API] Environment check:', {
     hasApiKey: !!HEYGEN_API_KEY,
@@ -9,6 +14,14 @@ export async function POST() {
   });
 
   try {
+    const { mode: modeId } = await request.json().catch(() => ({}));
+    if (!modeId || !getCompanionMode(modeId)) {
+      return NextResponse.json(
+        { error: modeId ? `Unknown companion mode: ${modeId}` : 'Mode is required' },
+        { status: 400 }
+      );
+    }
+
     if (!HEYGEN_API_KEY) {
       console.error('❌ [HeyGen API] API key is missing from .env');
       return new Response('API key is missing', {
@@ -62,11 +75,33 @@ export async function POST() {
       tokenPreview: data.data?.token?.substring(0, 20) + '...' || 'undefined'
     });
 
-    // Return token as plain text, matching the official demo format
-    console.log('✅ [HeyGen API] Returning token as plain text to client');
+    // The avatar speaks the mode's published intro and answers from its published system prompt
+    const [systemPrompt, intro] = await Promise.all([
+      getPrompt(promptKey(modeId, 'system')),
+      getPrompt(promptKey(modeId, 'intro')),
+    ]);
 
-    return new Response(data.data.token, {
-      status: 200,
+    let userId: string | undefined;
+    try {
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      userId = user?.id;
+    } catch (error) {
+      console.warn('Could not get user for prompt usage tracking:', error);
+    }
+
+    await recordPromptUsage([systemPrompt, intro], { channel: 'avatar', user_id: userId ?? null, thread_id: null });
+
+    console.log('✅ [HeyGen API] Returning token and prompts to client');
+
+    return NextResponse.json({
+      token: data.data.token,
+      intro: intro.content,
+      knowledgeBase: systemPrompt.content,
+      promptVersions: {
+        system: systemPrompt.versionId,
+        intro: intro.versionId,
+      },
     });
   } catch (error) {
     console.error('❌ [HeyGen API] Error retrieving access token:', error);
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { memoryStore } from '@/lib/memory-store';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function isSignedIn(): Promise<boolean> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  return !!user;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { fact } = await request.json();
+
+    if (!(await isSignedIn())) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const trimmedFact = typeof fact === 'string' ? fact.trim() : '';
+    if (!trimmedFact) {
+      return NextResponse.json({ error: 'Fact cannot be empty' }, { status: 400 });
+    }
+
+    const memory = await memoryStore.updateMemory(id, trimmedFact);
+    if (!memory) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ memory });
+  } catch (error) {
+    console.error('Error updating memory:', error);
+    return NextResponse.json(
+      { error: 'Failed to update memory', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+
+    if (!(await isSignedIn())) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const deleted = await memoryStore.deleteMemory(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting memory:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete memory', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { memoryStore } from '@/lib/memory-store';
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const memories = await memoryStore.listMemories(user.id);
+
+    return NextResponse.json({ memories });
+  } catch (error) {
+    console.error('Error fetching memories:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch memories', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
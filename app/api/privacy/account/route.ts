@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { privacyStore } from '@/lib/privacy-store';
+
+export const runtime = 'nodejs';
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { confirmEmail } = await request.json();
+
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Typing the account email guards against deleting by accident
+    if (typeof confirmEmail !== 'string' || confirmEmail.trim().toLowerCase() !== (user.email ?? '').toLowerCase()) {
+      return NextResponse.json({ error: 'Type your account email to confirm' }, { status: 400 });
+    }
+
+    const deletion = await privacyStore.deleteAccount(user);
+    if (deletion.status !== 'completed') {
+      return NextResponse.json(
+        { error: 'Failed to delete your account', details: deletion.error, deletionId: deletion.id },
+        { status: 500 }
+      );
+    }
+
+    // The auth user is gone; drop the session cookies too
+    await supabase.auth.signOut();
+
+    return NextResponse.json({ success: true, deletionId: deletion.id, deletedRows: deletion.deleted_rows });
+  } catch (error) {
+    console.error('Error deleting account:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete your account', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getQueueStats } from '@/lib/queue/bull-queue';
 import { redisHealthCheck, getRedisInfo } from '@/lib/redis';
-import crypto from 'crypto';
+import { getProviderHealth } from '@/ai/failover';
+import { responseCache, type CacheMetrics } from '@/lib/cache';
+import { getJobRunner } from '@/lib/queue/jobs';
+import { InProcessJobRunner } from '@/lib/queue/in-process-runner';
+import { getWorkerHealth, mergeCacheMetrics, mergeProviderHealth } from '@/lib/queue/worker-health';
+import { isAdminRequest } from '@/lib/admin-auth';
 import type { Job } from 'bull';
 
 export const runtime = 'nodejs';
@@ -14,36 +19,10 @@ interface QueueStats {
   failed: Job[];
 }
 
-// JWT verification function (same as in auth route)
-function verifyToken(token: string): boolean {
-  try {
-    const { JWT_SECRET } = process.env;
-    if (!JWT_SECRET) {
-      console.error('JWT_SECRET is not configured');
-      return false;
-    }
-
-    const parts = token.split('.');
-    if (parts.length !== 3) { return false };
-
-    const [header, payload, signature] = parts;
-    const expectedSignature = crypto
-      .createHmac('sha256', JWT_SECRET)
-      .update(`${header}.${payload}`)
-      .digest('base64url');
-
-    return signature === expectedSignature;
-  } catch {
-    return false;
-  }
-}
-
 export async function GET(request: NextRequest) {
   try {
     // Check authentication
-    const token = request.cookies.get('admin-auth')?.value;
-
-    if (!token || !verifyToken(token)) {
+    if (!isAdminRequest(request)) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -93,6 +72,29 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Jobs submitted by this server; the Bull queues above only fill with JOB_RUNNER=bull
+    const runner = await getJobRunner();
+    const jobs = {
+      runner: runner.name,
+      ...(runner instanceof InProcessJobRunner && { inProcess: runner.getCounts() }),
+    };
+
+    // Model calls and the response cache run wherever the jobs do: here, or in the Bull workers,
+    // which report their breakers and cache metrics through Redis
+    let providers = getProviderHealth();
+    let cache: CacheMetrics | null = await responseCache.getMetrics();
+    let workers: { workerId: string; reportedAt: string }[] | undefined;
+    if (runner.name === 'bull') {
+      const reports = await getWorkerHealth().catch((error) => {
+        console.error('Worker health error:', error);
+        return [];
+      });
+      providers = mergeProviderHealth(reports);
+      // Null until a worker has reported
+      cache = mergeCacheMetrics(reports);
+      workers = reports.map(({ workerId, reportedAt }) => ({ workerId, reportedAt }));
+    }
+
     const status = {
       timestamp: new Date().toISOString(),
       redis: {
@@ -101,6 +103,9 @@ export async function GET(request: NextRequest) {
       },
       queues: queueStats,
       summary,
+      jobs: { ...jobs, ...(workers && { workers }) },
+      providers,
+      cache,
       system: {
         uptime: process.uptime(),
         memory: process.memoryUsage(),
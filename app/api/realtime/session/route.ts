@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { OpenAI } from 'openai';
-import { corporate } from '@/lib/system-prompt';
+import { createClient } from '@/lib/supabase/server';
+import { getCompanionMode } from '@/lib/companion/modes';
+import { getPrompt, promptKey, recordPromptUsage } from '@/lib/companion/prompts';
 
 // Initialize OpenAI client
 const openai = new OpenAI({
@@ -9,26 +11,47 @@ const openai = new OpenAI({
 
 export async function POST(request: NextRequest) {
   try {
-    const { model, voice, instructions } = await request.json();
+    const { model, voice, mode: modeId } = await request.json();
 
-    if (!model || !voice) {
+    if (!model || !voice || !modeId) {
       return NextResponse.json(
-        { error: 'Model and voice are required' },
+        { error: 'Model, voice and mode are required' },
         { status: 400 }
       );
     }
 
-    console.log('Creating OpenAI Realtime session...', { model, voice });
+    if (!getCompanionMode(modeId)) {
+      return NextResponse.json(
+        { error: `Unknown companion mode: ${modeId}` },
+        { status: 400 }
+      );
+    }
+
+    console.log('Creating OpenAI Realtime session...', { model, voice, mode: modeId });
+
+    // Voice sessions follow the same published system prompt as the mode's text chat
+    const prompt = await getPrompt(promptKey(modeId, 'system'));
 
     // Create a new Realtime session
     const session = await openai.beta.realtime.sessions.create({
       model: model || 'gpt-4o-realtime-preview-2024-12-17',
       voice: voice || 'alloy',
-      instructions: instructions || corporate,
+      instructions: prompt.content,
     });
 
     console.log('Realtime session created successfully');
 
+    let userId: string | undefined;
+    try {
+      const supabase = await createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      userId = user?.id;
+    } catch (error) {
+      console.warn('Could not get user for prompt usage tracking:', error);
+    }
+
+    await recordPromptUsage([prompt], { channel: 'realtime', user_id: userId ?? null, thread_id: null });
+
     return NextResponse.json(session);
 
   } catch (error) {
@@ -0,0 +1,8 @@
+import { NextRequest } from 'next/server';
+import { getCompanionMode } from '@/lib/companion/modes';
+import { handleCompanionRequest } from '@/lib/companion/engine';
+
+// Alias of /api/companion/travel
+export async function POST(request: NextRequest) {
+  return handleCompanionRequest(request, getCompanionMode('travel'));
+}
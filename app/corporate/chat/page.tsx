@@ -81,6 +81,7 @@ export default function Page() {
             <TabsContent value="text" className="mt-4">
               <Chat
                 api="/api/corporate"
+                mode="corporate"
                 chat_url="/corporate/chat"
                 features_url="/corporate/features"
                 how_it_works_url="/corporate/how-it-works"
@@ -90,7 +91,7 @@ export default function Page() {
             </TabsContent>
 
             <TabsContent value="avatar" className="mt-4">
-              <InteractiveAvatar initialMessage={`I am your corporate wellness companion, designed to support you during emotionally demanding moments at work. I can help you with burnout, decision fatigue, rumination, or personal doubt by offering a calm, thoughtful space for reflection. What is your name?`} />
+              <InteractiveAvatar mode="corporate" />
             </TabsContent>
           </Tabs>
         </div>
@@ -0,0 +1,171 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { trackPageView } from "@/lib/analytics";
+import { AuthGuard } from '@/components/auth-guard';
+import { Video, MessageSquare, Globe } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { culture } from '@/lib/intro-prompt';
+
+// Dynamic import of Chat component to reduce initial bundle size
+const Chat = dynamic(() => import('@/components/chat'), {
+    loading: () => (
+        <div className="w-full min-h-screen flex items-center justify-center">
+            <div className="flex flex-col items-center gap-4">
+                <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+                <p className="text-muted-foreground">Loading chat interface...</p>
+            </div>
+        </div>
+    ),
+    ssr: false // Disable SSR for chat component to prevent hydration issues
+});
+
+// Dynamic import of InteractiveAvatar component (return the component directly)
+const InteractiveAvatar = dynamic(
+    () => import('@/components/heygen/InteractiveAvatar').then((m) => m.default),
+    {
+        loading: () => (
+            <div className="w-full min-h-screen flex items-center justify-center">
+                <div className="flex flex-col items-center gap-4">
+                    <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+                    <p className="text-muted-foreground">Loading avatar interface...</p>
+                </div>
+            </div>
+        ),
+        ssr: false,
+    }
+);
+
+// Culture-specific voice configuration
+const CULTURE_VOICE_CONFIG = {
+    defaultVoice: 'fable' as const, // Warm, storytelling voice for cultural insights
+    speed: 0.95,
+    autoPlay: true,
+};
+
+const ANY_COUNTRY = 'any';
+
+const DESTINATION_COUNTRIES = [
+    'Brazil',
+    'China',
+    'France',
+    'Germany',
+    'India',
+    'Indonesia',
+    'Italy',
+    'Japan',
+    'Mexico',
+    'Morocco',
+    'Netherlands',
+    'Saudi Arabia',
+    'South Korea',
+    'Spain',
+    'Thailand',
+    'Turkey',
+    'United Arab Emirates',
+    'United Kingdom',
+    'United States',
+    'Vietnam',
+];
+
+const CULTURE_SUGGESTED_ACTIONS = [
+    {
+        label: "How should I greet colleagues at my first meeting?",
+        action: "How should I greet colleagues at my first business meeting there?",
+    },
+    {
+        label: "Let's practice ordering dinner at a restaurant.",
+        action: "Can we role-play ordering dinner at a local restaurant? You play the server.",
+    },
+    {
+        label: "What gifts are appropriate when visiting someone's home?",
+        action: "What gifts are appropriate when I'm invited to someone's home, and what should I avoid?",
+    },
+    {
+        label: "Something I said came across as rude. What happened?",
+        action: "I made a joke at work and people went quiet. Can you help me understand what happened?",
+    },
+];
+
+export default function Page() {
+    const voiceConfig = CULTURE_VOICE_CONFIG;
+    const [chatMode, setChatMode] = useState<'text' | 'avatar'>('text');
+    const [destinationCountry, setDestinationCountry] = useState<string>(ANY_COUNTRY);
+
+    useEffect(() => {
+        // Track page view for analytics
+        trackPageView('culture_chat');
+
+        // Store culture voice preferences
+        localStorage.setItem('culture_voice', voiceConfig.defaultVoice);
+        localStorage.setItem('culture_voice_speed', voiceConfig.speed.toString());
+    }, [voiceConfig]);
+
+    const chatContext = destinationCountry === ANY_COUNTRY
+        ? undefined
+        : { destinationCountry };
+
+    return (
+        <AuthGuard redirectTo="/culture">
+            <div className="culture-chat-container w-full min-h-screen flex flex-col py-2 sm:py-4 lg:py-8 px-2 sm:px-6 lg:px-8">
+                <div className="mb-4">
+                    <h1 className="text-2xl font-bold mb-2">Culture Chat</h1>
+                    <p className="text-muted-foreground mb-4">
+                        Pick a destination country, then choose between text-based chat or interact with our AI avatar
+                    </p>
+
+                    <div className="flex items-center gap-2 mb-4">
+                        <Globe className="h-4 w-4 text-muted-foreground" />
+                        <Select value={destinationCountry} onValueChange={setDestinationCountry}>
+                            <SelectTrigger className="w-64">
+                                <SelectValue placeholder="Destination country" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ANY_COUNTRY}>Any country</SelectItem>
+                                {DESTINATION_COUNTRIES.map((country) => (
+                                    <SelectItem key={country} value={country}>
+                                        {country}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <Tabs value={chatMode} onValueChange={(value: string) => setChatMode(value as 'text' | 'avatar')}>
+                        <TabsList className="grid w-full max-w-md grid-cols-2">
+                            <TabsTrigger value="text" className="flex items-center gap-2">
+                                <MessageSquare className="h-4 w-4" />
+                                Text Chat
+                            </TabsTrigger>
+                            <TabsTrigger value="avatar" className="flex items-center gap-2">
+                                <Video className="h-4 w-4" />
+                                Avatar Chat
+                            </TabsTrigger>
+                        </TabsList>
+
+                        <TabsContent value="text" className="mt-4">
+                            <Chat
+                                api="/api/culture"
+                                mode="culture"
+                                chat_url="/culture/chat"
+                                features_url="/culture/features"
+                                how_it_works_url="/culture/how-it-works"
+                                ttsConfig={voiceConfig}
+                                introMessage={culture}
+                                title="Buddy AI | Culture & Communication"
+                                suggestedActions={CULTURE_SUGGESTED_ACTIONS}
+                                context={chatContext}
+                            />
+                        </TabsContent>
+
+                        <TabsContent value="avatar" className="mt-4">
+                            <InteractiveAvatar mode="culture" />
+                        </TabsContent>
+                    </Tabs>
+                </div>
+            </div>
+        </AuthGuard>
+    );
+}
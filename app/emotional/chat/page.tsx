@@ -81,6 +81,7 @@ export default function Page() {
                         <TabsContent value="text" className="mt-4">
                             <Chat
                                 api="/api/emotional"
+                                mode="emotional"
                                 chat_url="/emotional/chat"
                                 features_url="/emotional/features"
                                 how_it_works_url="/emotional/how-it-works"
@@ -92,7 +93,7 @@ export default function Page() {
                         </TabsContent>
 
                         <TabsContent value="avatar" className="mt-4">
-                            <InteractiveAvatar initialMessage={`I’m your emotional support companion, here to be present during life’s difficult or overwhelming moments. Whether you’re feeling lonely, anxious, stuck in overthinking or just need someone to listen, I’ll offer a safe, judgment-free space to share and reflect. What’s your name?`} />
+                            <InteractiveAvatar mode="emotional" />
                         </TabsContent>
                     </Tabs>
                 </div>
@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { trackPageView } from "@/lib/analytics";
+import { AuthGuard } from '@/components/auth-guard';
+import { Video, MessageSquare } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { travel } from '@/lib/intro-prompt';
+
+// Dynamic import of Chat component to reduce initial bundle size
+const Chat = dynamic(() => import('@/components/chat'), {
+  loading: () => (
+    <div className="w-full min-h-screen flex items-center justify-center">
+      <div className="flex flex-col items-center gap-4">
+        <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+        <p className="text-muted-foreground">Loading chat interface...</p>
+      </div>
+    </div>
+  ),
+  ssr: false // Disable SSR for chat component to prevent hydration issues
+});
+
+// Dynamic import of InteractiveAvatar component (return the component directly)
+const InteractiveAvatar = dynamic(
+  () => import('@/components/heygen/InteractiveAvatar').then((m) => m.default),
+  {
+    loading: () => (
+      <div className="w-full min-h-screen flex items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          <p className="text-muted-foreground">Loading avatar interface...</p>
+        </div>
+      </div>
+    ),
+    ssr: false,
+  }
+);
+
+// Travel-specific voice configuration
+const TRAVEL_VOICE_CONFIG = {
+  defaultVoice: 'nova' as const, // Bright, energetic voice for trip planning
+  speed: 1.0,
+  autoPlay: true,
+};
+
+const TRAVEL_SUGGESTED_ACTIONS = [
+  {
+    label: "Plan a relaxed 5-day itinerary for Lisbon.",
+    action: "Can you plan a relaxed 5-day itinerary for Lisbon? I love food markets and viewpoints, and I'm on a mid-range budget.",
+  },
+  {
+    label: "Where should I go for a long weekend in October?",
+    action: "Where should I go for a long weekend in October? I want somewhere warm with good walking.",
+  },
+  {
+    label: "My flight was cancelled — help me rework tomorrow.",
+    action: "My flight was cancelled and I'm stuck an extra day. Can you help me rework tomorrow?",
+  },
+  {
+    label: "Hidden gems in Tokyo that locals love?",
+    action: "What are some hidden gems in Tokyo that locals love but tourists usually miss?",
+  },
+];
+
+export default function Page() {
+  const voiceConfig = TRAVEL_VOICE_CONFIG;
+  const [chatMode, setChatMode] = useState<'text' | 'avatar'>('text');
+
+  useEffect(() => {
+    // Track page view for analytics
+    trackPageView('travel_chat');
+
+    // Store travel voice preferences
+    localStorage.setItem('travel_voice', voiceConfig.defaultVoice);
+    localStorage.setItem('travel_voice_speed', voiceConfig.speed.toString());
+  }, [voiceConfig]);
+
+  return (
+    <AuthGuard redirectTo="/travel">
+      <div className="travel-chat-container w-full min-h-screen flex flex-col py-2 sm:py-4 lg:py-8 px-2 sm:px-6 lg:px-8">
+        <div className="mb-4">
+          <h1 className="text-2xl font-bold mb-2">Travel Chat</h1>
+          <p className="text-muted-foreground mb-4">
+            Choose between text-based chat or interact with our AI avatar
+          </p>
+
+          <Tabs value={chatMode} onValueChange={(value) => setChatMode(value as 'text' | 'avatar')}>
+            <TabsList className="grid w-full max-w-md grid-cols-2">
+              <TabsTrigger value="text" className="flex items-center gap-2">
+                <MessageSquare className="h-4 w-4" />
+                Text Chat
+              </TabsTrigger>
+              <TabsTrigger value="avatar" className="flex items-center gap-2">
+                <Video className="h-4 w-4" />
+                Avatar Chat
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="text" className="mt-4">
+              <Chat
+                api="/api/travel"
+                mode="travel"
+                chat_url="/travel/chat"
+                features_url="/travel/features"
+                how_it_works_url="/travel/how-it-works"
+                ttsConfig={voiceConfig}
+                introMessage={travel}
+                title="Buddy AI | Travel Companion"
+                suggestedActions={TRAVEL_SUGGESTED_ACTIONS}
+              />
+            </TabsContent>
+
+            <TabsContent value="avatar" className="mt-4">
+              <InteractiveAvatar mode="travel" />
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+    </AuthGuard>
+  );
+}
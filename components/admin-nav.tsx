@@ -9,6 +9,9 @@ import {
   Settings,
   LogOut,
   DollarSign,
+  ShieldAlert,
+  FileText,
+  Zap,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
@@ -43,6 +46,24 @@ export function AdminNav({ onLogout }: AdminNavProps) {
       label: 'Queue',
       icon: Settings,
       description: 'Job queue management'
+    },
+    {
+      href: '/admin/safety',
+      label: 'Safety',
+      icon: ShieldAlert,
+      description: 'Crisis escalations to review'
+    },
+    {
+      href: '/admin/prompts',
+      label: 'Prompts',
+      icon: FileText,
+      description: 'Versioned system prompts and intros'
+    },
+    {
+      href: '/admin/semantic-cache',
+      label: 'Cache',
+      icon: Zap,
+      description: 'Cached answers to common opening questions'
     }
   ];
 
@@ -1,17 +1,38 @@
 "use client";
 
 import { useChat } from "@ai-sdk/react";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { Textarea } from "./textarea";
 import { ProjectOverview } from "./project-overview";
 import { Messages } from "./messages";
 import Header from "./sub-header";
 import { toast } from "sonner";
-import { SuggestedPrompts } from "./suggested-prompts";
+import { SuggestedPrompts, type SuggestedAction } from "./suggested-prompts";
+import { ConversationSidebar } from "./conversation-sidebar";
+import { ModelPicker } from "./model-picker";
+import { isModelPickerEnabled, type modelID } from "@/ai/models";
 import type { Message as TMessage } from "ai";
+import {
+  isServerHistoryEnabled,
+  loadConversationTree,
+  saveActiveBranch,
+  saveLocalConversation,
+} from "@/lib/conversation-history";
+import {
+  EMPTY_TREE,
+  getBranch,
+  getBranchPositions,
+  mergeBranch,
+  switchBranch,
+  type MessageTree,
+} from "@/lib/conversation-branches";
+import { generateSessionId, generateVisitorId } from "@/lib/analytics";
+import type { TranscriptAnnotation } from "@/lib/companion/annotations";
 
 export default function Chat(props: {
   api: string,
+  mode: string,
   chat_url: string,
   features_url: string,
   how_it_works_url: string,
@@ -23,12 +44,31 @@ export default function Chat(props: {
   hideVoiceModeButton?: boolean,
   introMessage: string,
   title?: string,
+  suggestedActions?: SuggestedAction[],
+  context?: Record<string, string>,
 }) {
-  const [threadId, setThreadId] = useState<string | null>(null);
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const resumeThreadId = searchParams.get('thread');
+  const [threadId, setThreadId] = useState<string | null>(resumeThreadId);
   const [isAudioEnabled, setIsAudioEnabled] = useState(true);
   const [voice, setVoice] = useState<'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer'>(props.ttsConfig?.defaultVoice || 'alloy');
   const [hasStartedConversation, setHasStartedConversation] = useState(false);
   const [introMessage, setIntroMessage] = useState<TMessage | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [showModelPicker, setShowModelPicker] = useState(isModelPickerEnabled());
+  const [selectedModel, setSelectedModel] = useState<modelID | undefined>(undefined);
+  const [analyticsIds, setAnalyticsIds] = useState<{ visitorId: string; sessionId: string } | null>(null);
+  // Every branch of the thread; useChat only holds the one on screen
+  const [tree, setTree] = useState<MessageTree>(EMPTY_TREE);
+  // The latest dictation, sent along with the next message
+  const [pendingTranscript, setPendingTranscript] = useState<TranscriptAnnotation | null>(null);
+
+  // Read from browser storage after mount; the visitor ID also decides experiment variants
+  useEffect(() => {
+    setAnalyticsIds({ visitorId: generateVisitorId(), sessionId: generateSessionId() });
+  }, []);
 
   // Debug voice changes
   const handleVoiceChange = (newVoice: 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer') => {
@@ -36,12 +76,17 @@ export default function Chat(props: {
     setVoice(newVoice);
   };
 
-  const { messages, input, handleInputChange: chatHandleInputChange, handleSubmit, status, stop, setInput } =
+  const { messages, input, handleInputChange: chatHandleInputChange, handleSubmit, status, stop, setInput, setMessages, reload, append } =
     useChat({
       api: `${props.api}`,
-      maxSteps: 5,
+      // Message IDs are sent along and become the stored IDs, so branches line up with the server
+      generateId: () => crypto.randomUUID(),
+      sendExtraMessageFields: true,
       body: {
         threadId,
+        context: props.context,
+        model: selectedModel,
+        ...analyticsIds,
       },
       onResponse: (response) => {
         // Only handle headers, don't read the response body
@@ -55,6 +100,7 @@ export default function Chat(props: {
       onFinish: (message) => {
         // Log the final processed message
         console.log('Assistant message received:', message);
+        setHistoryVersion((version) => version + 1);
       },
       onError: (error) => {
         console.error('Chat error:', error);
@@ -66,17 +112,14 @@ export default function Chat(props: {
           errorMessage.includes('exceeded');
 
         if (isRateLimitError) {
+          // Reaching the client means every configured provider failed over
           toast.error(
-            "OpenAI API Rate Limit Exceeded",
+            "Our AI providers are busy right now",
             {
               position: "top-center",
               richColors: true,
-              description: "You have exceeded your current quota. Please check your plan and billing details.",
+              description: "Every available model is rate limited or out of quota. Please try again in a minute.",
               duration: 10000, // Show for 10 seconds
-              action: {
-                label: "Learn More",
-                onClick: () => window.open("https://platform.openai.com/docs/guides/error-codes/api-errors", "_blank")
-              }
             }
           );
         } else {
@@ -90,30 +133,113 @@ export default function Chat(props: {
       },
     });
 
-  // Auto-start conversation for corporate context
+  // Admins can pick the model even when the picker is off for everyone else
+  useEffect(() => {
+    if (showModelPicker) {
+      return;
+    }
+    fetch('/api/admin/auth')
+      .then((response) => response.json())
+      .then(({ authenticated }) => setShowModelPicker(!!authenticated))
+      .catch(() => setShowModelPicker(false));
+  }, [showModelPicker]);
+
+  // Resume a previous thread when the page is opened with ?thread=<id>
+  useEffect(() => {
+    if (!resumeThreadId) {
+      return;
+    }
+
+    setThreadId(resumeThreadId);
+    setHasStartedConversation(true);
+    setTree(EMPTY_TREE);
+    loadConversationTree(resumeThreadId).then((resumedTree) => {
+      if (resumedTree?.activeId) {
+        setTree(resumedTree);
+        setMessages(getBranch(resumedTree));
+      } else {
+        toast.error("Could not find that conversation", { position: "top-center", richColors: true });
+      }
+    });
+  }, [resumeThreadId, setMessages]);
+
+  // Fold each finished exchange into the branch tree
+  useEffect(() => {
+    if (status !== "ready" && status !== "error") {
+      return;
+    }
+    setTree((current) => mergeBranch(current, messages.filter((message) => message.role !== "system")));
+  }, [status, messages]);
+
+  // Anonymous users keep their history in this browser
+  useEffect(() => {
+    if (isServerHistoryEnabled() || status !== "ready" || !threadId || !tree.activeId) {
+      return;
+    }
+    saveLocalConversation(threadId, props.mode, tree);
+  }, [status, threadId, tree, props.mode]);
+
+  // Auto-start the conversation with the mode's published intro, falling back to the built-in one
   useEffect(() => {
     if (!hasStartedConversation && messages.length === 0) {
-      // Add a small delay to ensure the chat is ready
-      setTimeout(() => {
+      const showIntro = (text: string) => {
         setIntroMessage({
           id: 'intro-message',
           role: 'assistant',
-          content: props.introMessage,
+          content: text,
           parts: [
             {
               type: 'text',
-              text: props.introMessage
+              text
             }
           ]
         });
         setHasStartedConversation(true);
+      };
+
+      // Add a small delay to ensure the chat is ready
+      const timer = setTimeout(() => {
+        fetch(`/api/companion/${props.mode}/intro`)
+          .then((response) => (response.ok ? response.json() : null))
+          .then((data: { intro?: string } | null) => showIntro(data?.intro || props.introMessage))
+          .catch(() => showIntro(props.introMessage));
       }, 500);
+      return () => clearTimeout(timer);
     }
-  }, [hasStartedConversation, messages.length, props.introMessage]);
+  }, [hasStartedConversation, messages.length, props.introMessage, props.mode]);
 
   const isLoading = status === "streaming" || status === "submitted";
 
+  const handleSelectConversation = (selectedThreadId: string) => {
+    if (selectedThreadId === threadId) {
+      return;
+    }
+    stop();
+    router.replace(`${pathname}?thread=${selectedThreadId}`);
+  };
+
+  const handleNewChat = () => {
+    stop();
+    setMessages([]);
+    setTree(EMPTY_TREE);
+    setPendingTranscript(null);
+    setThreadId(null);
+    router.replace(pathname);
+  };
+
+  // A reply stopped while it was still waiting in line has nothing worth keeping
+  const handleStop = () => {
+    stop();
+    setMessages((current) => {
+      const last = current[current.length - 1];
+      return last?.role === "assistant" && !last.content && !last.toolInvocations?.length
+        ? current.slice(0, -1)
+        : current;
+    });
+  };
+
   const handleSendMessage = (message: string) => {
+    setPendingTranscript(null);
     setInput(message);
     const formEvent = {
       preventDefault: () => { },
@@ -121,10 +247,63 @@ export default function Chat(props: {
     handleSubmit(formEvent);
   };
 
+  // Answer the last user turn again; the earlier reply stays in the tree as a sibling of the new one
+  const handleRegenerate = useCallback(() => {
+    reload({ body: { regenerate: true } });
+  }, [reload]);
+
+  // Resend an edited user turn as a new branch from that point; the old continuation stays as its sibling
+  const handleEdit = useCallback((messageId: string, content: string) => {
+    const index = messages.findIndex((message) => message.id === messageId);
+    if (index === -1) {
+      return;
+    }
+    setMessages(messages.slice(0, index));
+    append({ role: "user", content });
+  }, [messages, setMessages, append]);
+
+  const handleSwitchBranch = useCallback((messageId: string, direction: -1 | 1) => {
+    const nextTree = switchBranch(tree, messageId, direction);
+    if (nextTree === tree) {
+      return;
+    }
+    setTree(nextTree);
+    setMessages(getBranch(nextTree));
+    if (threadId) {
+      saveActiveBranch(threadId, nextTree);
+    }
+  }, [tree, threadId, setMessages]);
+
+  const branchPositions = useMemo(() => getBranchPositions(tree), [tree]);
+
+  const feedbackContext = useMemo(
+    () => (analyticsIds ? { visitorId: analyticsIds.visitorId } : undefined),
+    [analyticsIds]
+  );
+
   const handleInputChange = (event: React.ChangeEvent<HTMLTextAreaElement> | { target: { value: string } }) => {
+    if (!event.target.value) {
+      setPendingTranscript(null);
+    }
     chatHandleInputChange(event as React.ChangeEvent<HTMLTextAreaElement>);
   };
 
+  // Dictated messages keep what /api/transcribe heard, even if the user edited the text since
+  const handleChatSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    if (!pendingTranscript) {
+      handleSubmit(event);
+      return;
+    }
+
+    event.preventDefault();
+    if (!input.trim()) {
+      return;
+    }
+    append({ role: "user", content: input, annotations: [pendingTranscript] });
+    setInput("");
+    setPendingTranscript(null);
+  };
+
   // Filter out system messages from display and include intro message
   const displayMessages = [
     ...(introMessage ? [introMessage] : []),
@@ -143,12 +322,27 @@ export default function Chat(props: {
         voice={voice}
         onVoiceChange={handleVoiceChange}
       />
+      <div className="flex items-center justify-between gap-2 w-full max-w-xl mx-auto px-2 sm:px-0 pb-2 flex-shrink-0">
+        <ConversationSidebar
+          mode={props.mode}
+          activeThreadId={threadId}
+          refreshKey={historyVersion}
+          onSelect={handleSelectConversation}
+          onNewChat={handleNewChat}
+        />
+        {showModelPicker && (
+          <ModelPicker selectedModel={selectedModel} setSelectedModel={setSelectedModel} />
+        )}
+      </div>
       <div className="flex-1 flex flex-col min-h-0 w-full max-w-full">
         {displayMessages.length === 0 ? (
           <div className="max-w-xl mx-auto w-full">
             <ProjectOverview />
             <div className="mt-8 px-4">
-              <SuggestedPrompts sendMessage={handleSendMessage} />
+              <SuggestedPrompts
+                sendMessage={handleSendMessage}
+                suggestedActions={props.suggestedActions}
+              />
             </div>
           </div>
         ) : (
@@ -156,11 +350,16 @@ export default function Chat(props: {
             messages={displayMessages}
             isLoading={isLoading}
             status={status}
+            feedbackContext={feedbackContext}
+            onRegenerate={handleRegenerate}
+            branchPositions={branchPositions}
+            onEdit={handleEdit}
+            onSwitchBranch={handleSwitchBranch}
           />
         )}
       </div>
       <form
-        onSubmit={handleSubmit}
+        onSubmit={handleChatSubmit}
         className="pb-4 pt-2 bg-white dark:bg-black w-full max-w-xl mx-auto px-2 sm:px-0 flex-shrink-0"
         style={{ paddingBottom: 'max(1rem, env(safe-area-inset-bottom))' }}
       >
@@ -168,12 +367,14 @@ export default function Chat(props: {
           handleInputChange={handleInputChange}
           input={input}
           isLoading={isLoading}
-          stop={stop}
-          handleSubmit={handleSubmit}
+          stop={handleStop}
+          handleSubmit={handleChatSubmit}
           isAudioEnabled={isAudioEnabled}
           onAudioToggle={setIsAudioEnabled}
           voice={voice}
           hideVoiceModeButton={props.hideVoiceModeButton}
+          mode={props.mode}
+          onTranscript={setPendingTranscript}
         />
       </form>
     </div>
@@ -0,0 +1,260 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Download, History, Pencil, Pin, PinOff, Plus, Search, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { cn } from "@/lib/utils";
+import { ExportConversationDialog } from "./export-conversation-dialog";
+import {
+  deleteConversation,
+  listConversations,
+  renameConversation,
+  setConversationPinned,
+  type ConversationSummary,
+} from "@/lib/conversation-history";
+
+export function ConversationSidebar(props: {
+  mode: string,
+  activeThreadId: string | null,
+  // Bumped by the chat whenever a turn finishes so new threads and titles show up
+  refreshKey: number,
+  onSelect: (threadId: string) => void,
+  onNewChat: () => void,
+}) {
+  const { mode, refreshKey } = props;
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+  const [exporting, setExporting] = useState<ConversationSummary | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    const results = await listConversations(mode, query);
+    setConversations(results);
+    setIsLoading(false);
+  }, [mode, query]);
+
+  // Debounce search so we don't query on every keystroke
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const timeout = setTimeout(refresh, 250);
+    return () => clearTimeout(timeout);
+  }, [isOpen, refresh, refreshKey]);
+
+  const handleSelect = (threadId: string) => {
+    props.onSelect(threadId);
+    setIsOpen(false);
+  };
+
+  const handleNewChat = () => {
+    props.onNewChat();
+    setIsOpen(false);
+  };
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title ?? "");
+  };
+
+  const submitRename = async () => {
+    if (!editingId) {
+      return;
+    }
+    const title = editingTitle.trim();
+    const id = editingId;
+    setEditingId(null);
+    if (!title) {
+      return;
+    }
+
+    if (await renameConversation(id, title)) {
+      await refresh();
+    } else {
+      toast.error("Could not rename conversation", { position: "top-center", richColors: true });
+    }
+  };
+
+  const togglePinned = async (conversation: ConversationSummary) => {
+    if (await setConversationPinned(conversation.id, !conversation.pinned)) {
+      await refresh();
+    } else {
+      toast.error("Could not update conversation", { position: "top-center", richColors: true });
+    }
+  };
+
+  const handleDelete = async (conversation: ConversationSummary) => {
+    if (!window.confirm(`Delete "${conversation.title ?? "Untitled conversation"}"? This cannot be undone.`)) {
+      return;
+    }
+
+    if (await deleteConversation(conversation.id)) {
+      if (conversation.id === props.activeThreadId) {
+        props.onNewChat();
+      }
+      await refresh();
+    } else {
+      toast.error("Could not delete conversation", { position: "top-center", richColors: true });
+    }
+  };
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => setIsOpen(true)}
+        className="self-start"
+        aria-label="Open conversation history"
+      >
+        <History className="h-4 w-4" />
+        <span className="hidden sm:inline">History</span>
+      </Button>
+
+      {isOpen && (
+        <div
+          className="fixed inset-0 top-16 z-40 bg-black/20"
+          onClick={() => setIsOpen(false)}
+          aria-hidden="true"
+        />
+      )}
+
+      <aside
+        className={cn(
+          "fixed left-0 top-16 bottom-0 z-50 flex w-80 max-w-[85vw] flex-col border-r border-gray-200 bg-white transition-transform duration-200 dark:bg-black",
+          isOpen ? "translate-x-0" : "-translate-x-full"
+        )}
+        aria-label="Conversation history"
+      >
+        <div className="flex items-center justify-between gap-2 border-b border-gray-200 p-3">
+          <Button type="button" size="sm" onClick={handleNewChat} className="flex-1">
+            <Plus className="h-4 w-4" />
+            New chat
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => setIsOpen(false)}
+            aria-label="Close conversation history"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="relative p-3">
+          <Search className="pointer-events-none absolute left-5 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+          <Input
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Search conversations"
+            className="pl-8"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-2 pb-4">
+          {conversations.length === 0 ? (
+            <p className="px-2 py-6 text-center text-sm text-gray-500">
+              {isLoading ? "Loading…" : query.trim() ? "No matching conversations" : "No conversations yet"}
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {conversations.map((conversation) => (
+                <li
+                  key={conversation.id}
+                  className={cn(
+                    "group flex items-center gap-1 rounded-md px-2 py-1.5 hover:bg-gray-100 dark:hover:bg-zinc-900",
+                    conversation.id === props.activeThreadId && "bg-indigo-50 dark:bg-zinc-800"
+                  )}
+                >
+                  {editingId === conversation.id ? (
+                    <Input
+                      autoFocus
+                      value={editingTitle}
+                      onChange={(event) => setEditingTitle(event.target.value)}
+                      onBlur={submitRename}
+                      onKeyDown={(event) => {
+                        if (event.key === "Enter") {
+                          event.preventDefault();
+                          submitRename();
+                        } else if (event.key === "Escape") {
+                          setEditingId(null);
+                        }
+                      }}
+                      className="h-8"
+                      maxLength={120}
+                    />
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => handleSelect(conversation.id)}
+                        className="flex min-w-0 flex-1 items-center gap-1.5 text-left text-sm"
+                      >
+                        {conversation.pinned && <Pin className="h-3 w-3 flex-shrink-0 text-indigo-500" />}
+                        <span className="truncate">{conversation.title ?? "Untitled conversation"}</span>
+                      </button>
+                      <div className="flex flex-shrink-0 items-center opacity-100 sm:opacity-0 sm:group-hover:opacity-100">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => togglePinned(conversation)}
+                          aria-label={conversation.pinned ? "Unpin conversation" : "Pin conversation"}
+                        >
+                          {conversation.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => startRename(conversation)}
+                          aria-label="Rename conversation"
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => setExporting(conversation)}
+                          aria-label="Export conversation"
+                        >
+                          <Download className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-red-600 hover:text-red-700"
+                          onClick={() => handleDelete(conversation)}
+                          aria-label="Delete conversation"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </aside>
+
+      {exporting && (
+        <ExportConversationDialog conversation={exporting} onClose={() => setExporting(null)} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,291 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { FlaskConical, Plus, Square } from 'lucide-react';
+import { MODEL_CATALOG, MODELS } from '@/ai/models';
+
+interface ExperimentVariant {
+  id: 'A' | 'B';
+  promptVersionId: string | null;
+  model: string | null;
+}
+
+interface Experiment {
+  id: string;
+  mode: string;
+  name: string;
+  status: 'running' | 'stopped';
+  variants: ExperimentVariant[];
+  split: number;
+  created_at: string;
+  stopped_at: string | null;
+}
+
+interface VariantStats {
+  variant: 'A' | 'B';
+  sessions: number;
+  visitors: number;
+  avgTurnsPerSession: number;
+  avgSessionMinutes: number;
+  returnRate: number;
+  thumbsUp: number;
+  thumbsDown: number;
+  thumbsUpRate: number | null;
+  totalCost: number;
+  costPerSession: number;
+}
+
+interface ExperimentResults {
+  experiment: Experiment;
+  variants: VariantStats[];
+}
+
+interface PromptVersion {
+  id: string;
+  key: string;
+  version: number;
+  status: 'draft' | 'published' | 'archived';
+}
+
+const EMPTY_VARIANT = { promptVersionId: '', model: '' };
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export function ExperimentsPanel() {
+  const [experiments, setExperiments] = useState<ExperimentResults[]>([]);
+  const [promptVersions, setPromptVersions] = useState<PromptVersion[]>([]);
+  const [modes, setModes] = useState<string[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [mode, setMode] = useState('corporate');
+  const [name, setName] = useState('');
+  const [split, setSplit] = useState(50);
+  const [variants, setVariants] = useState([EMPTY_VARIANT, EMPTY_VARIANT]);
+
+  const fetchExperiments = useCallback(async () => {
+    try {
+      const [experimentsResponse, promptsResponse] = await Promise.all([
+        fetch('/api/admin/experiments', { credentials: 'include' }),
+        fetch('/api/admin/prompts', { credentials: 'include' }),
+      ]);
+      if (!experimentsResponse.ok || !promptsResponse.ok) {
+        throw new Error('Failed to fetch experiments');
+      }
+
+      const prompts: { definitions: { mode: string }[]; versions: PromptVersion[] } = await promptsResponse.json();
+      setExperiments((await experimentsResponse.json()).experiments);
+      setPromptVersions(prompts.versions);
+      setModes(Array.from(new Set(prompts.definitions.map((d) => d.mode))));
+    } catch (error) {
+      console.error('Error fetching experiments:', error);
+      toast.error('Failed to fetch experiments');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchExperiments();
+  }, [fetchExperiments]);
+
+  const describeVariant = (variant: ExperimentVariant) => {
+    const version = promptVersions.find((v) => v.id === variant.promptVersionId);
+    const prompt = variant.promptVersionId ? `prompt v${version?.version ?? '?'}` : 'published prompt';
+    const model = variant.model ? MODEL_CATALOG[variant.model as keyof typeof MODEL_CATALOG]?.label ?? variant.model : 'default model';
+    return `${prompt} · ${model}`;
+  };
+
+  const updateVariant = (index: number, field: 'promptVersionId' | 'model', value: string) => {
+    setVariants((current) => current.map((variant, i) => (i === index ? { ...variant, [field]: value } : variant)));
+  };
+
+  const startExperiment = async () => {
+    try {
+      setSaving(true);
+      const response = await fetch('/api/admin/experiments', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode, name, split, variants }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to start experiment');
+      }
+
+      toast.success('Experiment started');
+      setShowForm(false);
+      setName('');
+      setVariants([EMPTY_VARIANT, EMPTY_VARIANT]);
+      await fetchExperiments();
+    } catch (error) {
+      console.error('Error starting experiment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to start experiment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const stopExperiment = async (id: string) => {
+    try {
+      const response = await fetch(`/api/admin/experiments/${id}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'stopped' }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to stop experiment');
+      }
+
+      await fetchExperiments();
+    } catch (error) {
+      console.error('Error stopping experiment:', error);
+      toast.error('Failed to stop experiment');
+    }
+  };
+
+  const modeVersions = promptVersions.filter((v) => v.key === `${mode}.system`);
+
+  return (
+    <div className="bg-white p-4 sm:p-6 rounded-lg border space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          Experiments
+        </h3>
+        <Button size="sm" variant="outline" onClick={() => setShowForm(!showForm)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New experiment
+        </Button>
+      </div>
+
+      {showForm && (
+        <div className="p-4 bg-gray-50 rounded-lg space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name, e.g. Shorter corporate prompt"
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <select
+              value={mode}
+              onChange={(e) => {
+                setMode(e.target.value);
+                setVariants([EMPTY_VARIANT, EMPTY_VARIANT]);
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {modes.map((m) => (
+                <option key={m} value={m}>{m}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm">
+              Share on A
+              <input
+                type="number"
+                min={1}
+                max={99}
+                value={split}
+                onChange={(e) => setSplit(parseInt(e.target.value) || 50)}
+                className="w-20 px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+              %
+            </label>
+          </div>
+          {variants.map((variant, index) => (
+            <div key={index} className="grid grid-cols-1 sm:grid-cols-[2rem_1fr_1fr] gap-3 items-center">
+              <span className="font-semibold">{index === 0 ? 'A' : 'B'}</span>
+              <select
+                value={variant.promptVersionId}
+                onChange={(e) => updateVariant(index, 'promptVersionId', e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">Published prompt</option>
+                {modeVersions.map((v) => (
+                  <option key={v.id} value={v.id}>v{v.version} ({v.status})</option>
+                ))}
+              </select>
+              <select
+                value={variant.model}
+                onChange={(e) => updateVariant(index, 'model', e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">Default model</option>
+                {MODELS.map((model) => (
+                  <option key={model} value={model}>{MODEL_CATALOG[model].label}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <Button size="sm" onClick={startExperiment} disabled={saving || !name.trim()}>
+            Start experiment
+          </Button>
+        </div>
+      )}
+
+      {experiments.length === 0 ? (
+        <p className="text-sm text-gray-500">No experiments yet.</p>
+      ) : (
+        experiments.map(({ experiment, variants: stats }) => (
+          <div key={experiment.id} className="border rounded-lg p-4 space-y-3 overflow-x-auto">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold">{experiment.name}</span>
+                <Badge variant="outline">{experiment.mode}</Badge>
+                <Badge variant={experiment.status === 'running' ? 'default' : 'secondary'}>{experiment.status}</Badge>
+                <span className="text-xs text-gray-500">
+                  {new Date(experiment.created_at).toLocaleDateString()}
+                  {experiment.stopped_at && ` – ${new Date(experiment.stopped_at).toLocaleDateString()}`}
+                  {` · ${experiment.split}/${100 - experiment.split} split`}
+                </span>
+              </div>
+              {experiment.status === 'running' && (
+                <Button size="sm" variant="outline" onClick={() => stopExperiment(experiment.id)}>
+                  <Square className="h-4 w-4 mr-2" />
+                  Stop
+                </Button>
+              )}
+            </div>
+            <table className="w-full text-sm min-w-[640px]">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4">Variant</th>
+                  <th className="py-2 pr-4">Sessions</th>
+                  <th className="py-2 pr-4">Turns / session</th>
+                  <th className="py-2 pr-4">Minutes / session</th>
+                  <th className="py-2 pr-4">Return rate</th>
+                  <th className="py-2 pr-4">Thumbs up</th>
+                  <th className="py-2">Cost / session</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.map((row) => {
+                  const variant = experiment.variants.find((v) => v.id === row.variant);
+                  return (
+                    <tr key={row.variant} className="border-b last:border-0">
+                      <td className="py-2 pr-4">
+                        <div className="font-semibold">{row.variant}</div>
+                        {variant && <div className="text-xs text-gray-500">{describeVariant(variant)}</div>}
+                      </td>
+                      <td className="py-2 pr-4">{row.sessions.toLocaleString()}</td>
+                      <td className="py-2 pr-4">{row.avgTurnsPerSession.toFixed(1)}</td>
+                      <td className="py-2 pr-4">{row.avgSessionMinutes.toFixed(1)}</td>
+                      <td className="py-2 pr-4">{percent(row.returnRate)}</td>
+                      <td className="py-2 pr-4">
+                        {row.thumbsUpRate === null ? '—' : `${percent(row.thumbsUpRate)} of ${row.thumbsUp + row.thumbsDown}`}
+                      </td>
+                      <td className="py-2">${row.costPerSession.toFixed(4)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Message } from "ai";
+import { Download, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { cn } from "@/lib/utils";
+import { loadConversationTree, type ConversationSummary } from "@/lib/conversation-history";
+import { getBranch } from "@/lib/conversation-branches";
+import { findAnnotation } from "@/lib/companion/annotations";
+import {
+  buildConversationExport,
+  downloadConversationExport,
+  EXPORT_FORMATS,
+  type ExportFormat,
+} from "@/lib/conversation-export";
+
+const preview = (message: Message, index: number) =>
+  `${index + 1}. ${message.role === "user" ? "You" : "Companion"}: ${message.content.slice(0, 60)}`;
+
+export function ExportConversationDialog({
+  conversation,
+  onClose,
+}: {
+  conversation: ConversationSummary;
+  onClose: () => void;
+}) {
+  const [messages, setMessages] = useState<Message[] | null>(null);
+  const [format, setFormat] = useState<ExportFormat>("markdown");
+  const [includeTranscripts, setIncludeTranscripts] = useState(true);
+  const [useRange, setUseRange] = useState(false);
+  const [from, setFrom] = useState(1);
+  const [to, setTo] = useState(1);
+
+  // Exports cover the branch that was last on screen
+  useEffect(() => {
+    loadConversationTree(conversation.id).then((tree) => {
+      const branch = tree ? getBranch(tree).filter((message) => message.role === "user" || message.role === "assistant") : [];
+      setMessages(branch);
+      setTo(Math.max(1, branch.length));
+    });
+  }, [conversation.id]);
+
+  const hasTranscripts = !!messages?.some((message) => findAnnotation(message.annotations, "transcript"));
+
+  const handleExport = () => {
+    if (!messages || messages.length === 0) {
+      return;
+    }
+
+    try {
+      downloadConversationExport(buildConversationExport(conversation, messages, {
+        format,
+        includeTranscripts: hasTranscripts && includeTranscripts,
+        range: useRange ? { from, to } : undefined,
+      }));
+      onClose();
+    } catch (error) {
+      console.error("Error exporting conversation:", error);
+      toast.error("Could not export conversation", { position: "top-center", richColors: true });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Export conversation"
+        className="w-full max-w-md space-y-4 rounded-lg border bg-white p-4 shadow-lg dark:bg-zinc-950"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="truncate font-semibold">Export &ldquo;{conversation.title ?? "Untitled conversation"}&rdquo;</h2>
+          <Button type="button" variant="ghost" size="icon" onClick={onClose} aria-label="Close">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {!messages ? (
+          <p className="text-sm text-gray-500">Loading conversation…</p>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-gray-500">This conversation has no messages to export.</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((key) => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => setFormat(key)}
+                    aria-pressed={format === key}
+                    className={cn(
+                      "rounded-md border px-2 py-1.5 text-sm transition-colors",
+                      format === key ? "border-foreground bg-secondary" : "hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                    )}
+                  >
+                    {EXPORT_FORMATS[key].label}
+                  </button>
+                ))}
+              </div>
+              {format === "html" && (
+                <p className="text-xs text-gray-500">Open the file in a browser and print it to save a PDF.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Messages</Label>
+              <div className="flex gap-4 text-sm">
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={!useRange} onChange={() => setUseRange(false)} />
+                  All {messages.length}
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={useRange} onChange={() => setUseRange(true)} />
+                  A range
+                </label>
+              </div>
+              {useRange && (
+                <div className="grid grid-cols-[auto_1fr] items-center gap-2 text-sm">
+                  <span>From</span>
+                  <Select
+                    value={String(from)}
+                    onValueChange={(value) => {
+                      setFrom(Number(value));
+                      setTo((current) => Math.max(current, Number(value)));
+                    }}
+                  >
+                    <SelectTrigger className="w-full min-w-0" aria-label="First message">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="z-[70]">
+                      {messages.map((message, i) => (
+                        <SelectItem key={message.id} value={String(i + 1)}>{preview(message, i)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span>To</span>
+                  <Select value={String(to)} onValueChange={(value) => setTo(Number(value))}>
+                    <SelectTrigger className="w-full min-w-0" aria-label="Last message">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="z-[70]">
+                      {messages.map((message, i) => i + 1 >= from && (
+                        <SelectItem key={message.id} value={String(i + 1)}>{preview(message, i)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <label className={cn("flex items-center gap-2 text-sm", !hasTranscripts && "text-gray-400")}>
+              <input
+                type="checkbox"
+                checked={hasTranscripts && includeTranscripts}
+                disabled={!hasTranscripts}
+                onChange={(event) => setIncludeTranscripts(event.target.checked)}
+              />
+              Include voice transcripts
+              {!hasTranscripts && <span className="text-xs">(none in this conversation)</span>}
+            </label>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="button" onClick={handleExport}>
+                <Download className="h-4 w-4" />
+                Export
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
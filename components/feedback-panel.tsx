@@ -0,0 +1,172 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { ThumbsDown, ThumbsUp } from 'lucide-react';
+import { isModelID, MODEL_CATALOG } from '@/ai/models';
+import { FEEDBACK_REASONS, isFeedbackReason } from '@/lib/companion/feedback';
+
+interface FeedbackCounts {
+  up: number;
+  down: number;
+  upRate: number | null;
+}
+
+interface FeedbackBreakdown extends FeedbackCounts {
+  key: string;
+  label: string;
+}
+
+interface NegativeFeedback {
+  id: string;
+  thread_id: string | null;
+  mode: string;
+  reason: string | null;
+  comment: string | null;
+  model_id: string | null;
+  excerpt: string;
+  created_at: string;
+  prompt_versions: { key: string; version: number } | null;
+}
+
+interface FeedbackSummary {
+  totals: FeedbackCounts;
+  byMode: FeedbackBreakdown[];
+  byModel: FeedbackBreakdown[];
+  byPromptVersion: FeedbackBreakdown[];
+  reasons: { reason: string; label: string; count: number }[];
+  recentNegative: NegativeFeedback[];
+}
+
+const percent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+const modelLabel = (id: string) => (isModelID(id) ? MODEL_CATALOG[id].label : id);
+
+function BreakdownTable({ title, rows }: { title: string; rows: FeedbackBreakdown[] }) {
+  return (
+    <div className="min-w-0">
+      <h4 className="text-sm font-semibold mb-2">{title}</h4>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No ratings.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-b last:border-0">
+                <td className="py-1.5 pr-2 truncate max-w-[12rem]" title={row.label}>{row.label}</td>
+                <td className="py-1.5 pr-2 text-green-700 whitespace-nowrap">{row.up} up</td>
+                <td className="py-1.5 pr-2 text-red-700 whitespace-nowrap">{row.down} down</td>
+                <td className="py-1.5 text-right font-medium">{percent(row.upRate)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export function FeedbackPanel({ days }: { days: number }) {
+  const [summary, setSummary] = useState<FeedbackSummary | null>(null);
+
+  const fetchFeedback = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/feedback?days=${days}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error('Failed to fetch feedback');
+      }
+
+      setSummary((await response.json()).summary);
+    } catch (error) {
+      console.error('Error fetching feedback:', error);
+      toast.error('Failed to fetch feedback');
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchFeedback();
+  }, [fetchFeedback]);
+
+  return (
+    <div className="bg-white p-4 sm:p-6 rounded-lg border space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <ThumbsUp className="h-5 w-5" />
+          Response Feedback
+        </h3>
+        {summary && (
+          <div className="flex items-center gap-4 text-sm">
+            <span className="flex items-center gap-1 text-green-700">
+              <ThumbsUp className="h-4 w-4" />
+              {summary.totals.up.toLocaleString()}
+            </span>
+            <span className="flex items-center gap-1 text-red-700">
+              <ThumbsDown className="h-4 w-4" />
+              {summary.totals.down.toLocaleString()}
+            </span>
+            <span className="font-semibold">{percent(summary.totals.upRate)} positive</span>
+          </div>
+        )}
+      </div>
+
+      {!summary ? (
+        <p className="text-sm text-gray-500">Loading feedback…</p>
+      ) : summary.totals.up + summary.totals.down === 0 ? (
+        <p className="text-sm text-gray-500">No feedback in the last {days} days.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <BreakdownTable title="By mode" rows={summary.byMode} />
+            <BreakdownTable
+              title="By model"
+              rows={summary.byModel.map((row) => ({ ...row, label: modelLabel(row.label) }))}
+            />
+            <BreakdownTable title="By prompt version" rows={summary.byPromptVersion} />
+          </div>
+
+          {summary.reasons.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Why replies were rated down</h4>
+              <div className="flex flex-wrap gap-2">
+                {summary.reasons.map(({ reason, label, count }) => (
+                  <Badge key={reason} variant="outline">{label}: {count}</Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {summary.recentNegative.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Recent thumbs down</h4>
+              <div className="divide-y">
+                {summary.recentNegative.map((item) => (
+                  <div key={item.id} className="py-3 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                      <Badge variant="outline">{item.mode}</Badge>
+                      {item.reason && (
+                        <Badge variant="secondary">
+                          {isFeedbackReason(item.reason) ? FEEDBACK_REASONS[item.reason] : item.reason}
+                        </Badge>
+                      )}
+                      {item.model_id && <span>{modelLabel(item.model_id)}</span>}
+                      <span>
+                        {item.prompt_versions
+                          ? `${item.prompt_versions.key} v${item.prompt_versions.version}`
+                          : 'default prompt'}
+                      </span>
+                      {item.thread_id && <span className="font-mono">thread {item.thread_id.slice(0, 8)}</span>}
+                      <span>{new Date(item.created_at).toLocaleString()}</span>
+                    </div>
+                    {item.comment && <p className="text-sm font-medium">&ldquo;{item.comment}&rdquo;</p>}
+                    <p className="text-sm text-gray-600 line-clamp-3 whitespace-pre-wrap">{item.excerpt}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
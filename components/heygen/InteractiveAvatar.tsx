@@ -42,7 +42,13 @@ const DEFAULT_CONFIG: StartAvatarRequest = {
   },
 };
 
-function InteractiveAvatar({ initialMessage }: { initialMessage?: string }) {
+interface AvatarSessionPrompts {
+  token: string;
+  intro: string;
+  knowledgeBase: string;
+}
+
+function InteractiveAvatar({ mode }: { mode: string }) {
   const { initAvatar, startAvatar, stopAvatar, sessionState, stream } =
     useStreamingAvatarSession();
   const { startVoiceChat } = useVoiceChat();
@@ -54,16 +60,21 @@ function InteractiveAvatar({ initialMessage }: { initialMessage?: string }) {
 
   const mediaStream = useRef<HTMLVideoElement>(null);
 
-  async function fetchAccessToken() {
+  async function fetchAccessToken(): Promise<AvatarSessionPrompts> {
     try {
       const response = await fetch("/api/heygen/access-token", {
         method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mode }),
       });
-      const token = await response.text();
+      if (!response.ok) {
+        throw new Error(`Failed to fetch access token: ${response.status}`);
+      }
+      const session: AvatarSessionPrompts = await response.json();
 
-      console.log("Access Token:", token); // Log the token to verify
+      console.log("Access Token:", session.token); // Log the token to verify
 
-      return token;
+      return session;
     } catch (error) {
       console.error("Error fetching access token:", error);
       throw error;
@@ -72,8 +83,8 @@ function InteractiveAvatar({ initialMessage }: { initialMessage?: string }) {
 
   const startSessionV2 = useMemoizedFn(async (isVoiceChat: boolean) => {
     try {
-      const newToken = await fetchAccessToken();
-      const avatar = initAvatar(newToken);
+      const { token, intro: initialMessage, knowledgeBase } = await fetchAccessToken();
+      const avatar = initAvatar(token);
 
       avatar.on(StreamingEvents.AVATAR_START_TALKING, (e) => {
         console.log("Avatar started talking", e);
@@ -142,7 +153,7 @@ function InteractiveAvatar({ initialMessage }: { initialMessage?: string }) {
         console.log(">>>>> Avatar end message:", event);
       });
 
-      await startAvatar(config);
+      await startAvatar({ ...config, knowledgeBase });
 
       if (!initialMessage && isVoiceChat) {
         await startVoiceChat();
@@ -199,10 +210,10 @@ function InteractiveAvatar({ initialMessage }: { initialMessage?: string }) {
   );
 }
 
-export default function InteractiveAvatarWrapper({ initialMessage }: { initialMessage?: string }) {
+export default function InteractiveAvatarWrapper({ mode }: { mode: string }) {
   return (
     <StreamingAvatarProvider basePath={process.env.NEXT_PUBLIC_BASE_API_URL}>
-      <InteractiveAvatar initialMessage={initialMessage} />
+      <InteractiveAvatar mode={mode} />
     </StreamingAvatarProvider>
   );
 }
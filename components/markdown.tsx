@@ -47,6 +47,36 @@ const components: Partial<Components> = {
       </Link>
     );
   },
+  table: ({ node, children, ...props }) => {
+    return (
+      <div className="my-2 w-full overflow-x-auto">
+        <table className="w-full border-collapse text-sm" {...props}>
+          {children}
+        </table>
+      </div>
+    );
+  },
+  thead: ({ node, children, ...props }) => {
+    return (
+      <thead className="bg-zinc-100 dark:bg-zinc-800" {...props}>
+        {children}
+      </thead>
+    );
+  },
+  th: ({ node, children, ...props }) => {
+    return (
+      <th className="border border-zinc-200 dark:border-zinc-700 px-3 py-2 text-left font-semibold" {...props}>
+        {children}
+      </th>
+    );
+  },
+  td: ({ node, children, ...props }) => {
+    return (
+      <td className="border border-zinc-200 dark:border-zinc-700 px-3 py-2 align-top" {...props}>
+        {children}
+      </td>
+    );
+  },
   h1: ({ node, children, ...props }) => {
     return (
       <h1 className="text-3xl font-semibold mt-6 mb-2" {...props}>
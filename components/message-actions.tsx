@@ -0,0 +1,316 @@
+"use client";
+
+import { useState } from "react";
+import { Check, ChevronLeft, ChevronRight, Copy, Pencil, RefreshCw, ThumbsDown, ThumbsUp } from "lucide-react";
+import { toast } from "sonner";
+import type { Message as TMessage } from "ai";
+import { cn } from "@/lib/utils";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import type { UsageAnnotation } from "@/lib/companion/annotations";
+import type { BranchPosition } from "@/lib/conversation-branches";
+import {
+  FEEDBACK_REASONS,
+  MAX_FEEDBACK_COMMENT_LENGTH,
+  submitFeedback,
+  withdrawFeedback,
+  type FeedbackRating,
+  type FeedbackReason,
+} from "@/lib/companion/feedback";
+
+export interface FeedbackContext {
+  visitorId: string;
+}
+
+const actionClassName = "p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors";
+
+export function MessageActions({
+  message,
+  usage,
+  feedbackContext,
+  onRegenerate,
+  branch,
+  onSwitchBranch,
+}: {
+  message: TMessage;
+  // Only model replies carry usage; fixed replies (intro, crisis resources) can be copied but not rated
+  usage: UsageAnnotation | undefined;
+  feedbackContext?: FeedbackContext;
+  // Set on the latest reply only
+  onRegenerate?: () => void;
+  // Set when the reply has been regenerated, or is a regeneration of an earlier one
+  branch?: BranchPosition;
+  onSwitchBranch?: (direction: -1 | 1) => void;
+}) {
+  const [rating, setRating] = useState<FeedbackRating | null>(null);
+  const [showReasons, setShowReasons] = useState(false);
+  const [reason, setReason] = useState<FeedbackReason | null>(null);
+  const [comment, setComment] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  const canRate = !!usage && !!feedbackContext;
+
+  const send = (nextRating: FeedbackRating, details: { reason?: FeedbackReason | null; comment?: string | null } = {}) => {
+    if (!usage || !feedbackContext) {
+      return Promise.resolve(false);
+    }
+    return submitFeedback({
+      messageId: message.id,
+      ...feedbackContext,
+      rating: nextRating,
+      ...details,
+    });
+  };
+
+  const handleRate = async (nextRating: FeedbackRating) => {
+    if (!feedbackContext) {
+      return;
+    }
+
+    const previous = rating;
+    // Clicking the active thumb again withdraws the rating
+    if (previous === nextRating) {
+      setRating(null);
+      setShowReasons(false);
+      if (!(await withdrawFeedback(message.id, feedbackContext.visitorId))) {
+        setRating(previous);
+        toast.error("Could not remove your feedback", { position: "top-center", richColors: true });
+      }
+      return;
+    }
+
+    setRating(nextRating);
+    setShowReasons(nextRating === "down");
+    setReason(null);
+    setComment("");
+    if (!(await send(nextRating))) {
+      setRating(previous);
+      setShowReasons(false);
+      toast.error("Could not save your feedback", { position: "top-center", richColors: true });
+    }
+  };
+
+  const handleSendReason = async () => {
+    setShowReasons(false);
+    if (await send("down", { reason, comment: comment.trim() || null })) {
+      toast.success("Thanks for the feedback", { position: "top-center" });
+    } else {
+      toast.error("Could not save your feedback", { position: "top-center", richColors: true });
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(message.content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Error copying message:", error);
+      toast.error("Could not copy the message", { position: "top-center", richColors: true });
+    }
+  };
+
+  return (
+    <div className="-mt-4 pb-2 space-y-2">
+      <div className="flex items-center gap-1">
+        <button type="button" className={actionClassName} onClick={handleCopy} aria-label="Copy message" title="Copy">
+          {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+        </button>
+        {canRate && (
+          <>
+            <button
+              type="button"
+              className={cn(actionClassName, rating === "up" && "text-foreground")}
+              onClick={() => handleRate("up")}
+              aria-label="Good response"
+              aria-pressed={rating === "up"}
+              title="Good response"
+            >
+              <ThumbsUp className={cn("h-4 w-4", rating === "up" && "fill-current")} />
+            </button>
+            <button
+              type="button"
+              className={cn(actionClassName, rating === "down" && "text-foreground")}
+              onClick={() => handleRate("down")}
+              aria-label="Bad response"
+              aria-pressed={rating === "down"}
+              title="Bad response"
+            >
+              <ThumbsDown className={cn("h-4 w-4", rating === "down" && "fill-current")} />
+            </button>
+          </>
+        )}
+        {onRegenerate && (
+          <button type="button" className={actionClassName} onClick={onRegenerate} aria-label="Regenerate response" title="Regenerate">
+            <RefreshCw className="h-4 w-4" />
+          </button>
+        )}
+        {branch && onSwitchBranch && <BranchSwitcher position={branch} onSwitch={onSwitchBranch} />}
+      </div>
+
+      {showReasons && (
+        <div className="rounded-lg border p-3 space-y-3 text-sm">
+          <p className="text-muted-foreground">What went wrong? (optional)</p>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(FEEDBACK_REASONS) as FeedbackReason[]).map((key) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setReason(reason === key ? null : key)}
+                className={cn(
+                  "px-2 py-1 rounded-full border text-xs transition-colors",
+                  reason === key ? "bg-secondary border-foreground" : "hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                )}
+              >
+                {FEEDBACK_REASONS[key]}
+              </button>
+            ))}
+          </div>
+          <Input
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={MAX_FEEDBACK_COMMENT_LENGTH}
+            placeholder="Add a comment"
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleSendReason();
+              }
+            }}
+          />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setShowReasons(false)}>
+              Skip
+            </Button>
+            <Button type="button" size="sm" onClick={handleSendReason} disabled={!reason && !comment.trim()}>
+              Send
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// "2/3" with arrows to flip between the versions of an edited turn or a regenerated reply
+export function BranchSwitcher({
+  position,
+  onSwitch,
+  disabled,
+}: {
+  position: BranchPosition;
+  onSwitch: (direction: -1 | 1) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex items-center text-xs text-muted-foreground">
+      <button
+        type="button"
+        className={cn(actionClassName, "disabled:opacity-40 disabled:pointer-events-none")}
+        onClick={() => onSwitch(-1)}
+        disabled={disabled || position.index === 0}
+        aria-label="Previous version"
+        title="Previous version"
+      >
+        <ChevronLeft className="h-4 w-4" />
+      </button>
+      <span className="tabular-nums">{position.index + 1}/{position.count}</span>
+      <button
+        type="button"
+        className={cn(actionClassName, "disabled:opacity-40 disabled:pointer-events-none")}
+        onClick={() => onSwitch(1)}
+        disabled={disabled || position.index === position.count - 1}
+        aria-label="Next version"
+        title="Next version"
+      >
+        <ChevronRight className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
+
+export function UserMessageActions({
+  branch,
+  onEdit,
+  onSwitchBranch,
+  disabled,
+}: {
+  branch?: BranchPosition;
+  onEdit?: () => void;
+  onSwitchBranch?: (direction: -1 | 1) => void;
+  // While a reply streams the thread cannot change
+  disabled: boolean;
+}) {
+  if (!onEdit && !(branch && onSwitchBranch)) {
+    return null;
+  }
+
+  return (
+    <div className="-mt-3 pb-2 flex items-center justify-end gap-1">
+      {onEdit && (
+        <button
+          type="button"
+          className={cn(actionClassName, "opacity-0 group-hover/message:opacity-100 focus-visible:opacity-100")}
+          onClick={onEdit}
+          aria-label="Edit message"
+          title="Edit"
+        >
+          <Pencil className="h-4 w-4" />
+        </button>
+      )}
+      {branch && onSwitchBranch && (
+        <BranchSwitcher position={branch} onSwitch={onSwitchBranch} disabled={disabled} />
+      )}
+    </div>
+  );
+}
+
+export function EditMessageForm({
+  initialContent,
+  onSubmit,
+  onCancel,
+}: {
+  initialContent: string;
+  onSubmit: (content: string) => void;
+  onCancel: () => void;
+}) {
+  const [content, setContent] = useState(initialContent);
+  const trimmed = content.trim();
+  const canSubmit = !!trimmed && trimmed !== initialContent.trim();
+
+  return (
+    <form
+      className="w-full space-y-2 pb-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (canSubmit) {
+          onSubmit(trimmed);
+        }
+      }}
+    >
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        autoFocus
+        aria-label="Edit message"
+        onKeyDown={(e) => {
+          if (e.key === "Escape") {
+            onCancel();
+          } else if (e.key === "Enter" && !e.shiftKey) {
+            e.preventDefault();
+            e.currentTarget.form?.requestSubmit();
+          }
+        }}
+      />
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={!canSubmit}>
+          Send
+        </Button>
+      </div>
+    </form>
+  );
+}
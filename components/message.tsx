@@ -5,8 +5,18 @@ import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { Markdown } from "./markdown";
 import { SparklesIcon } from "lucide-react";
-import { CheckCircle, ChevronDownIcon, ChevronUpIcon, Loader2, PocketKnife, StopCircle } from "lucide-react";
+import { ChevronDownIcon, ChevronUpIcon, Loader2 } from "lucide-react";
 import type { Message as TMessage } from "ai";
+import { ToolInvocationPart } from "./tool-invocation";
+import { isModelID, MODEL_CATALOG } from "@/ai/models";
+import { findAnnotation, findLastAnnotation } from "@/lib/companion/annotations";
+import {
+  EditMessageForm,
+  MessageActions,
+  UserMessageActions,
+  type FeedbackContext,
+} from "./message-actions";
+import type { BranchPosition } from "@/lib/conversation-branches";
 
 interface ReasoningPart {
   type: "reasoning";
@@ -109,12 +119,31 @@ const PurePreviewMessage = ({
   message,
   isLatestMessage,
   status,
+  feedbackContext,
+  onRegenerate,
+  branch,
+  onEdit,
+  onSwitchBranch,
 }: {
   message: TMessage;
   isLoading: boolean;
   status: "error" | "submitted" | "streaming" | "ready";
   isLatestMessage: boolean;
+  feedbackContext?: FeedbackContext;
+  onRegenerate?: () => void;
+  // Set when this turn has been edited or regenerated, or is a version of an earlier one
+  branch?: BranchPosition;
+  onEdit?: (messageId: string, content: string) => void;
+  onSwitchBranch?: (messageId: string, direction: -1 | 1) => void;
 }) => {
+  const usage = message.role === "assistant" ? findAnnotation(message.annotations, "usage") : undefined;
+  const isComplete = !isLatestMessage || status === "ready" || status === "error";
+  // Place in line while the reply waits for the chat queue
+  const queue = message.role === "assistant" && !isComplete ? findLastAnnotation(message.annotations, "queue") : undefined;
+  // Keyed by message ID so switching branches closes the editor
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const isEditing = editingId === message.id && !!onEdit;
+
   return (
     <AnimatePresence key={message.id}>
       <motion.div
@@ -128,6 +157,7 @@ const PurePreviewMessage = ({
           className={cn(
             "flex gap-4 w-full group-data-[role=user]/message:ml-auto group-data-[role=user]/message:max-w-2xl",
             "group-data-[role=user]/message:w-fit",
+            isEditing && "group-data-[role=user]/message:w-full",
           )}
         >
           {message.role === "assistant" && (
@@ -139,7 +169,16 @@ const PurePreviewMessage = ({
           )}
 
           <div className="flex flex-col w-full space-y-4">
-            {message.parts?.map((part, i) => {
+            {isEditing && onEdit ? (
+              <EditMessageForm
+                initialContent={message.content}
+                onCancel={() => setEditingId(null)}
+                onSubmit={(content) => {
+                  setEditingId(null);
+                  onEdit(message.id, content);
+                }}
+              />
+            ) : message.parts?.map((part, i) => {
               switch (part.type) {
                 case "text":
                   return (
@@ -160,40 +199,12 @@ const PurePreviewMessage = ({
                     </motion.div>
                   );
                 case "tool-invocation":
-                  const { toolName, state } = part.toolInvocation;
-
                   return (
-                    <motion.div
-                      initial={{ y: 5, opacity: 0 }}
-                      animate={{ y: 0, opacity: 1 }}
+                    <ToolInvocationPart
                       key={`message-${message.id}-part-${i}`}
-                      className="flex flex-col gap-2 p-2 mb-3 text-sm bg-zinc-50 dark:bg-zinc-900 rounded-md border border-zinc-200 dark:border-zinc-800"
-                    >
-                      <div className="flex-1 flex items-center justify-center">
-                        <div className="flex items-center justify-center w-8 h-8 bg-zinc-50 dark:bg-zinc-800 rounded-full">
-                          <PocketKnife className="h-4 w-4" />
-                        </div>
-                        <div className="flex-1">
-                          <div className="font-medium flex items-baseline gap-2">
-                            {state === "call" ? "Calling" : "Called"}{" "}
-                            <span className="font-mono bg-zinc-100 dark:bg-zinc-800 px-2 py-1 rounded-md">
-                              {toolName}
-                            </span>
-                          </div>
-                        </div>
-                        <div className="w-5 h-5 flex items-center justify-center">
-                          {state === "call" ? (
-                            isLatestMessage && status !== "ready" ? (
-                              <Loader2 className="animate-spin h-4 w-4 text-zinc-500" />
-                            ) : (
-                              <StopCircle className="h-4 w-4 text-red-500" />
-                            )
-                          ) : state === "result" ? (
-                            <CheckCircle size={14} className="text-green-600" />
-                          ) : null}
-                        </div>
-                      </div>
-                    </motion.div>
+                      toolInvocation={part.toolInvocation}
+                      isRunning={isLatestMessage && status !== "ready"}
+                    />
                   );
                 case "reasoning":
                   return (
@@ -213,6 +224,42 @@ const PurePreviewMessage = ({
                   return null;
               }
             })}
+            {queue && queue.position > 0 && (
+              <div className="flex flex-row gap-2 items-center text-sm text-muted-foreground pb-4">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                {queue.position === 1 ? "You're next in line" : `You're #${queue.position} in line`}
+              </div>
+            )}
+            {message.role === "user" && !isEditing && (
+              <UserMessageActions
+                branch={branch}
+                onEdit={onEdit && (() => setEditingId(message.id))}
+                onSwitchBranch={onSwitchBranch && ((direction) => onSwitchBranch(message.id, direction))}
+                disabled={status === "submitted" || status === "streaming"}
+              />
+            )}
+            {message.role === "assistant" && isComplete && message.content && (
+              <div className="-mt-4 pb-2 space-y-1">
+                <MessageActions
+                  key={message.id}
+                  message={message}
+                  usage={usage}
+                  feedbackContext={feedbackContext}
+                  onRegenerate={usage ? onRegenerate : undefined}
+                  branch={branch}
+                  // The thread cannot change while a reply streams
+                  onSwitchBranch={onSwitchBranch && status === "ready" ? (direction) => onSwitchBranch(message.id, direction) : undefined}
+                />
+                {usage && (
+                  <div className="text-xs text-muted-foreground opacity-0 group-hover/message:opacity-100 transition-opacity">
+                    {isModelID(usage.modelId) ? MODEL_CATALOG[usage.modelId].label : usage.modelId}
+                    {usage.failedOverFrom.length > 0 && " (fallback)"}
+                    {` · ${usage.promptTokens + usage.completionTokens} tokens`}
+                    {usage.finishReason === "length" && " · cut short at the length limit"}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </motion.div>
@@ -224,6 +271,12 @@ export const Message = memo(PurePreviewMessage, (prevProps, nextProps) => {
   // More efficient comparison
   if (prevProps.status !== nextProps.status) { return false };
   if (prevProps.isLatestMessage !== nextProps.isLatestMessage) { return false };
+  if (prevProps.onRegenerate !== nextProps.onRegenerate) { return false };
+  if (prevProps.onEdit !== nextProps.onEdit) { return false };
+  if (prevProps.onSwitchBranch !== nextProps.onSwitchBranch) { return false };
+  if (prevProps.branch?.index !== nextProps.branch?.index) { return false };
+  if (prevProps.branch?.count !== nextProps.branch?.count) { return false };
+  if (prevProps.feedbackContext?.visitorId !== nextProps.feedbackContext?.visitorId) { return false };
 
   // Deep comparison only when necessary
   if (prevProps.message.id !== nextProps.message.id) { return false };
@@ -234,6 +287,11 @@ export const Message = memo(PurePreviewMessage, (prevProps, nextProps) => {
 
   // Use shallow comparison for parts if possible
   if (prevProps.message.parts?.length !== nextProps.message.parts?.length) { return false };
+  if (prevProps.message.annotations?.length !== nextProps.message.annotations?.length) { return false };
+
+  // Tool results arrive without changing the text or the number of parts
+  const toolStates = (message: TMessage) => message.toolInvocations?.map((invocation) => invocation.state).join();
+  if (toolStates(prevProps.message) !== toolStates(nextProps.message)) { return false };
 
   return true;
 });
@@ -1,15 +1,29 @@
 import type { Message as TMessage } from "ai";
 import { Message } from "./message";
+import type { FeedbackContext } from "./message-actions";
 import { useScrollToBottom } from "@/lib/hooks/use-scroll-to-bottom";
+import type { BranchPosition } from "@/lib/conversation-branches";
 
 export const Messages = ({
   messages,
   isLoading,
   status,
+  feedbackContext,
+  onRegenerate,
+  branchPositions,
+  onEdit,
+  onSwitchBranch,
 }: {
   messages: TMessage[];
   isLoading: boolean;
   status: "error" | "submitted" | "streaming" | "ready";
+  feedbackContext?: FeedbackContext;
+  // Offered on the latest reply once it has finished
+  onRegenerate?: () => void;
+  // Messages with alternatives, from the thread's branch tree
+  branchPositions?: Record<string, BranchPosition>;
+  onEdit?: (messageId: string, content: string) => void;
+  onSwitchBranch?: (messageId: string, direction: -1 | 1) => void;
 }) => {
   const [containerRef, endRef] = useScrollToBottom();
 
@@ -26,6 +40,11 @@ export const Messages = ({
             isLoading={isLoading}
             message={m}
             status={status}
+            feedbackContext={feedbackContext}
+            onRegenerate={i === messages.length - 1 && status === "ready" ? onRegenerate : undefined}
+            branch={branchPositions?.[m.id]}
+            onEdit={status === "ready" ? onEdit : undefined}
+            onSwitchBranch={onSwitchBranch}
           />
         ))}
         <div className="h-1" ref={endRef} />
@@ -1,5 +1,5 @@
 "use client";
-import { modelID, MODELS } from "@/ai/providers";
+import { MODEL_CATALOG, modelID, MODELS } from "@/ai/models";
 import {
   Select,
   SelectContent,
@@ -10,7 +10,8 @@ import {
 } from "./ui/select";
 
 interface ModelPickerProps {
-  selectedModel: modelID;
+  // Undefined means the companion mode's default model
+  selectedModel?: modelID;
   setSelectedModel: (model: modelID) => void;
 }
 
@@ -19,21 +20,20 @@ export const ModelPicker = ({
   setSelectedModel,
 }: ModelPickerProps) => {
   return (
-    <div className="absolute bottom-2 left-2 flex flex-col gap-2">
-      <Select value={selectedModel} onValueChange={setSelectedModel}>
-        <SelectTrigger className="">
-          <SelectValue placeholder="Select a model" />
-        </SelectTrigger>
-        <SelectContent>
-          <SelectGroup>
-            {MODELS.map((modelId) => (
-              <SelectItem key={modelId} value={modelId}>
-                {modelId}
-              </SelectItem>
-            ))}
-          </SelectGroup>
-        </SelectContent>
-      </Select>
-    </div>
+    <Select value={selectedModel ?? ""} onValueChange={(value) => setSelectedModel(value as modelID)}>
+      <SelectTrigger className="w-48 h-8" aria-label="Model">
+        <SelectValue placeholder="Default model" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectGroup>
+          {MODELS.map((modelId) => (
+            <SelectItem key={modelId} value={modelId}>
+              {MODEL_CATALOG[modelId].label}
+              <span className="text-xs text-muted-foreground">{MODEL_CATALOG[modelId].provider}</span>
+            </SelectItem>
+          ))}
+        </SelectGroup>
+      </SelectContent>
+    </Select>
   );
 };
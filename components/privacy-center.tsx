@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/lib/hooks/use-auth';
+import { clearLocalConversations } from '@/lib/conversation-history';
+
+// Self-service data controls: download everything we hold about the user, or delete the account
+export function PrivacyCenter() {
+  const { user, signOut } = useAuth();
+  const [exporting, setExporting] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [confirmEmail, setConfirmEmail] = useState('');
+  const [deleting, setDeleting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const response = await fetch('/api/privacy/export', {
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? 'my-data.zip';
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast.error('Could not export your data');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    try {
+      const response = await fetch('/api/privacy/account', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ confirmEmail }),
+      });
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error || `HTTP error! status: ${response.status}`);
+      }
+
+      // Nothing about the account should stay behind in this browser either
+      clearLocalConversations();
+      localStorage.removeItem('visitor_id');
+      toast.success('Your account and data have been deleted');
+      await signOut();
+      window.location.assign('/');
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not delete your account');
+      setDeleting(false);
+    }
+  };
+
+  const emailMatches = !!user?.email && confirmEmail.trim().toLowerCase() === user.email.toLowerCase();
+
+  return (
+    <div className="space-y-3 py-2 text-sm">
+      <div className="space-y-1">
+        <p className="text-gray-600">
+          Download your conversations, memories, journal, mood check-ins, usage and sign-in history as a ZIP of JSON files.
+        </p>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting}>
+          {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          {exporting ? 'Preparing...' : 'Download my data'}
+        </Button>
+      </div>
+
+      <div className="space-y-2 border-t pt-3">
+        {!confirmingDelete ? (
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-red-600 hover:text-red-700"
+            onClick={() => setConfirmingDelete(true)}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete my account
+          </Button>
+        ) : (
+          <>
+            <p className="text-red-700">
+              This permanently deletes your account, conversations, memories, journal, usage records and analytics.
+              It cannot be undone. Type <span className="font-medium">{user?.email}</span> to confirm.
+            </p>
+            <Input
+              autoFocus
+              value={confirmEmail}
+              onChange={(event) => setConfirmEmail(event.target.value)}
+              placeholder="Your account email"
+              className="h-8"
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setConfirmingDelete(false);
+                  setConfirmEmail('');
+                }}
+                disabled={deleting}
+              >
+                Cancel
+              </Button>
+              <Button variant="destructive" size="sm" onClick={handleDelete} disabled={!emailMatches || deleting}>
+                {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Delete forever
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
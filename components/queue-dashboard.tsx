@@ -9,6 +9,7 @@ import {
   CheckCircle,
   Clock,
   RefreshCw,
+  Zap,
 } from 'lucide-react';
 
 // Bull Queue Job interface
@@ -38,6 +39,19 @@ interface QueueStats {
   failed: BullJob[];
 }
 
+interface ProviderHealth {
+  name: string;
+  label: string;
+  configured: boolean;
+  state: 'closed' | 'open' | 'half-open';
+  consecutiveFailures: number;
+  errorRate: number;
+  recentRequests: number;
+  openedAt: string | null;
+  lastError: string | null;
+  lastFailureAt: string | null;
+}
+
 interface QueueStatus {
   timestamp: string;
   redis: {
@@ -59,6 +73,7 @@ interface QueueStatus {
     totalCompleted: number;
     totalFailed: number;
   };
+  providers: ProviderHealth[];
   system: {
     uptime: number;
     memory: {
@@ -292,6 +307,50 @@ export function QueueDashboard() {
             ))}
           </div>
 
+          {/* Model Providers */}
+          <div className="p-4 bg-white border rounded-lg">
+            <div className="flex items-center gap-2 mb-3">
+              <Zap className="h-5 w-5 text-indigo-600" />
+              <h3 className="font-semibold text-lg">Model Providers</h3>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {status.providers.map((provider) => (
+                <div key={provider.name} className="p-3 border rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      {provider.state === 'closed' ? (
+                        <CheckCircle className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <AlertTriangle className={`h-4 w-4 ${provider.state === 'open' ? 'text-red-600' : 'text-yellow-600'}`} />
+                      )}
+                      <span className="font-medium">{provider.label}</span>
+                    </div>
+                    <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+                      provider.state === 'closed'
+                        ? 'bg-green-100 text-green-700'
+                        : provider.state === 'open'
+                          ? 'bg-red-100 text-red-700'
+                          : 'bg-yellow-100 text-yellow-700'
+                    }`}>
+                      {provider.state === 'closed' ? 'Healthy' : provider.state === 'open' ? 'Circuit open' : 'Trial request'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-2">
+                    Error rate: {(provider.errorRate * 100).toFixed(0)}% of last {provider.recentRequests} requests
+                  </p>
+                  {!provider.configured && (
+                    <p className="text-xs text-gray-500 mt-1">No API key configured: not used for failover</p>
+                  )}
+                  {provider.lastError && (
+                    <p className="text-xs text-red-600 mt-1 truncate" title={provider.lastError}>
+                      Last error{provider.lastFailureAt && ` (${new Date(provider.lastFailureAt).toLocaleTimeString()})`}: {provider.lastError}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
           {/* Last Updated */}
           <div className="text-center text-sm text-gray-500">
             Last updated: {new Date(status.timestamp).toLocaleString()}
@@ -4,29 +4,39 @@ import { motion } from "framer-motion";
 import { Button } from "./ui/button";
 import { memo } from "react";
 
+export interface SuggestedAction {
+  label: string;
+  action: string;
+}
+
 interface SuggestedPromptsProps {
   sendMessage: (input: string) => void;
+  suggestedActions?: SuggestedAction[];
 }
 
-function PureSuggestedPrompts({ sendMessage }: SuggestedPromptsProps) {
-  const suggestedActions = [
-    {
-      label: "I'm feeling completely drained after today.",
-      action: "I'm feeling completely drained after today.",
-    },
-    {
-      label: "Can I just vent for a minute? I am extremely nervous after today's meeting.",
-      action: "Can I just vent for a minute? I am extremely nervous after today's meeting.",
-    },
-    {
-      label: "I can't stop thinking about that meeting.",
-      action: "I can't stop thinking about that meeting.",
-    },
-    {
-      label: "I am not sure I'm cut out for this job. So many more deserving people...",
-      action: "I am not sure I'm cut out for this job. So many more deserving people...",
-    },
-  ];
+const defaultSuggestedActions: SuggestedAction[] = [
+  {
+    label: "I'm feeling completely drained after today.",
+    action: "I'm feeling completely drained after today.",
+  },
+  {
+    label: "Can I just vent for a minute? I am extremely nervous after today's meeting.",
+    action: "Can I just vent for a minute? I am extremely nervous after today's meeting.",
+  },
+  {
+    label: "I can't stop thinking about that meeting.",
+    action: "I can't stop thinking about that meeting.",
+  },
+  {
+    label: "I am not sure I'm cut out for this job. So many more deserving people...",
+    action: "I am not sure I'm cut out for this job. So many more deserving people...",
+  },
+];
+
+function PureSuggestedPrompts({
+  sendMessage,
+  suggestedActions = defaultSuggestedActions,
+}: SuggestedPromptsProps) {
 
   return (
     <div
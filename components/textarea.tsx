@@ -5,6 +5,7 @@ import { useState, useRef, useEffect, useCallback } from "react";
 import { toast } from "sonner";
 import { RealtimeWebRTC } from "../lib/realtime-webrtc";
 import { VoiceActivityIndicator, MiniVoiceIndicator } from "./voice-activity-indicator";
+import type { TranscriptAnnotation } from "@/lib/companion/annotations";
 
 interface InputProps {
   handleInputChange: (event: React.ChangeEvent<HTMLTextAreaElement> | { target: { value: string } }) => void;
@@ -16,6 +17,9 @@ interface InputProps {
   onAudioToggle: (enabled: boolean) => void;
   voice?: 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
   hideVoiceModeButton?: boolean;
+  mode: string;
+  // Called with each dictation so the chat can keep the transcript with the message
+  onTranscript?: (transcript: TranscriptAnnotation) => void;
 }
 
 export function Textarea({
@@ -28,6 +32,8 @@ export function Textarea({
   onAudioToggle,
   voice = 'alloy',
   hideVoiceModeButton = false,
+  mode,
+  onTranscript,
 }: InputProps) {
   const [isRecording, setIsRecording] = useState(false);
   const [isTranscribing, setIsTranscribing] = useState(false);
@@ -117,7 +123,7 @@ export function Textarea({
         await realtimeRef.current.createSession({
           model: 'gpt-4o-realtime-preview-2024-12-17',
           voice: voice,
-          instructions: "You are a helpful AI assistant. Respond naturally and conversationally to user input.",
+          mode,
           noiseReduction: true,
           vadConfig: {
             voiceThreshold: 8,
@@ -142,7 +148,7 @@ export function Textarea({
         setConnectionStatus('');
       }
     }
-  }, [isVoiceModeActive, voice]);
+  }, [isVoiceModeActive, voice, mode]);
 
   // Cleanup function to prevent memory leaks
   const cleanupAudioResources = useCallback(() => {
@@ -167,7 +173,7 @@ export function Textarea({
   }, []);
 
   // Function to transcribe audio using OpenAI API
-  const transcribeAudioWithOpenAI = useCallback(async (audioBlob: Blob): Promise<string> => {
+  const transcribeAudioWithOpenAI = useCallback(async (audioBlob: Blob): Promise<TranscriptAnnotation> => {
     try {
       const formData = new FormData();
       formData.append('audio', audioBlob, 'recording.webm');
@@ -185,7 +191,12 @@ export function Textarea({
       }
 
       const result = await response.json();
-      return result.transcription || '';
+      return {
+        type: 'transcript',
+        text: result.transcription || '',
+        language: result.language ?? null,
+        durationSeconds: result.duration ?? null,
+      };
     } catch (error) {
       console.error('Transcription error:', error);
       throw new Error(`Transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -225,8 +236,9 @@ export function Textarea({
           // Transcribe using OpenAI API
           const transcription = await transcribeAudioWithOpenAI(audioBlob);
 
-          if (transcription.trim()) {
-            handleInputChange({ target: { value: transcription.trim() } });
+          if (transcription.text.trim()) {
+            handleInputChange({ target: { value: transcription.text.trim() } });
+            onTranscript?.({ ...transcription, text: transcription.text.trim() });
             toast.success("Transcription completed!");
           } else {
             toast.warning("No speech detected in the recording");
@@ -295,7 +307,7 @@ export function Textarea({
       toast.error("Could not access microphone");
       setIsRecording(false);
     }
-  }, [isRecording, handleInputChange, silenceThreshold, transcribeAudioWithOpenAI]);
+  }, [isRecording, handleInputChange, silenceThreshold, transcribeAudioWithOpenAI, onTranscript]);
 
   const toggleAudio = useCallback(() => {
     onAudioToggle(!isAudioEnabled);
@@ -0,0 +1,203 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import type { ToolInvocation } from "ai";
+import { CheckCircle, Loader2, PocketKnife, StopCircle } from "lucide-react";
+import type {
+  BreathingExerciseResult,
+  CurrencyConversionResult,
+  JournalEntryResult,
+  MoodCheckInResult,
+  TimeZoneResult,
+} from "@/ai/tools";
+import { Button } from "./ui/button";
+
+const TOOL_LABELS: Record<string, string> = {
+  breathingExercise: "breathing exercise",
+  saveJournalEntry: "journal",
+  logMoodCheckIn: "mood check-in",
+  convertCurrency: "currency converter",
+  compareTimeZones: "time zones",
+};
+
+function BreathingTimer({ result }: { result: BreathingExerciseResult }) {
+  const [running, setRunning] = useState(false);
+  const [step, setStep] = useState(0);
+  const [remaining, setRemaining] = useState(result.phases[0].seconds);
+
+  const totalSteps = result.phases.length * result.cycles;
+  const phase = result.phases[step % result.phases.length];
+
+  useEffect(() => {
+    if (!running) {
+      return;
+    }
+
+    const timer = setInterval(() => {
+      setRemaining((seconds) => {
+        if (seconds > 1) {
+          return seconds - 1;
+        }
+        // Advance to the next phase, or stop after the last cycle
+        setStep((current) => {
+          const next = current + 1;
+          if (next >= totalSteps) {
+            setRunning(false);
+            return 0;
+          }
+          return next;
+        });
+        return 0;
+      });
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [running, totalSteps]);
+
+  useEffect(() => {
+    setRemaining(result.phases[step % result.phases.length].seconds);
+  }, [step, result.phases]);
+
+  const toggle = () => {
+    setStep(0);
+    setRemaining(result.phases[0].seconds);
+    setRunning(!running);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3 py-2">
+      <motion.div
+        className="flex items-center justify-center rounded-full bg-sky-100 dark:bg-sky-950 text-sky-900 dark:text-sky-100 w-28 h-28"
+        animate={{ scale: running && phase.label === "Breathe in" ? 1.2 : running && phase.label === "Breathe out" ? 0.85 : 1 }}
+        transition={{ duration: running ? phase.seconds : 0.3, ease: "easeInOut" }}
+      >
+        <div className="text-center">
+          <div className="text-sm font-medium">{running ? phase.label : `${result.pattern} breathing`}</div>
+          {running && <div className="text-2xl font-semibold">{remaining}</div>}
+        </div>
+      </motion.div>
+      <div className="text-xs text-muted-foreground">
+        {running
+          ? `Round ${Math.floor(step / result.phases.length) + 1} of ${result.cycles}`
+          : `${result.phases.map((p) => `${p.label} ${p.seconds}s`).join(" · ")} · ${result.cycles} rounds`}
+      </div>
+      <Button variant="outline" size="sm" onClick={toggle}>
+        {running ? "Stop" : "Start"}
+      </Button>
+    </div>
+  );
+}
+
+function ToolResult({ toolName, result }: { toolName: string; result: unknown }) {
+  switch (toolName) {
+    case "breathingExercise":
+      return <BreathingTimer result={result as BreathingExerciseResult} />;
+    case "saveJournalEntry": {
+      const entry = result as JournalEntryResult;
+      return (
+        <p className="text-zinc-600 dark:text-zinc-400">
+          {entry.saved ? `Saved to your journal${entry.title ? `: "${entry.title}"` : ""}` : entry.reason}
+        </p>
+      );
+    }
+    case "logMoodCheckIn": {
+      const checkIn = result as MoodCheckInResult;
+      return (
+        <div className="flex items-center gap-3 text-zinc-600 dark:text-zinc-400">
+          <div className="flex gap-1" aria-label={`Mood ${checkIn.rating} out of 5`}>
+            {[1, 2, 3, 4, 5].map((value) => (
+              <span
+                key={value}
+                className={`h-2.5 w-2.5 rounded-full ${value <= checkIn.rating ? "bg-emerald-500" : "bg-zinc-200 dark:bg-zinc-700"}`}
+              />
+            ))}
+          </div>
+          <span>{checkIn.logged ? `Logged: ${checkIn.feeling}` : checkIn.reason}</span>
+        </div>
+      );
+    }
+    case "convertCurrency": {
+      const conversion = result as CurrencyConversionResult;
+      return (
+        <div className="text-zinc-600 dark:text-zinc-400 space-y-1">
+          {conversion.conversions.map((c) => (
+            <div key={c.currency}>
+              {conversion.amount.toLocaleString()} {conversion.from} ={" "}
+              <span className="font-medium text-foreground">{c.amount.toLocaleString()} {c.currency}</span>
+            </div>
+          ))}
+          {conversion.error && <div className="text-xs text-red-600">{conversion.error}</div>}
+        </div>
+      );
+    }
+    case "compareTimeZones": {
+      const zones = result as TimeZoneResult;
+      return zones.error ? (
+        <p className="text-xs text-red-600">{zones.error}</p>
+      ) : (
+        <div className="text-zinc-600 dark:text-zinc-400 space-y-1">
+          <div>
+            {zones.reference.timeZone}: <span className="font-medium text-foreground">{zones.reference.localTime}</span>
+          </div>
+          {zones.times.map((zone) => (
+            <div key={zone.timeZone}>
+              {zone.timeZone} ({zone.utcOffset}): <span className="font-medium text-foreground">{zone.localTime}</span>
+            </div>
+          ))}
+        </div>
+      );
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * A tool call in an assistant message, followed by its result once the server has run it
+ */
+export function ToolInvocationPart({
+  toolInvocation,
+  isRunning,
+}: {
+  toolInvocation: ToolInvocation;
+  isRunning: boolean;
+}) {
+  const { toolName, state } = toolInvocation;
+
+  return (
+    <motion.div
+      initial={{ y: 5, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      className="flex flex-col gap-2 p-2 mb-3 text-sm bg-zinc-50 dark:bg-zinc-900 rounded-md border border-zinc-200 dark:border-zinc-800"
+    >
+      <div className="flex-1 flex items-center justify-center">
+        <div className="flex items-center justify-center w-8 h-8 bg-zinc-50 dark:bg-zinc-800 rounded-full">
+          <PocketKnife className="h-4 w-4" />
+        </div>
+        <div className="flex-1">
+          <div className="font-medium flex items-baseline gap-2">
+            {state === "result" ? "Used" : "Using"}{" "}
+            <span className="font-mono bg-zinc-100 dark:bg-zinc-800 px-2 py-1 rounded-md">
+              {TOOL_LABELS[toolName] ?? toolName}
+            </span>
+          </div>
+        </div>
+        <div className="w-5 h-5 flex items-center justify-center">
+          {state === "result" ? (
+            <CheckCircle size={14} className="text-green-600" />
+          ) : isRunning ? (
+            <Loader2 className="animate-spin h-4 w-4 text-zinc-500" />
+          ) : (
+            <StopCircle className="h-4 w-4 text-red-500" />
+          )}
+        </div>
+      </div>
+      {state === "result" && (
+        <div className="pl-8">
+          <ToolResult toolName={toolName} result={toolInvocation.result} />
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -4,18 +4,167 @@ import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { User, LogOut, Settings, ChevronDown, Loader2, Shield } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { User, LogOut, ChevronDown, Loader2, Shield, Brain, Pencil, Trash2, Check, X, Lock } from 'lucide-react';
 import { useAuth } from '@/lib/hooks/use-auth';
 import { toast } from 'sonner';
 import Link from 'next/link';
+import { PrivacyCenter } from '@/components/privacy-center';
 
 interface UserProfileProps {
   className?: string;
 }
 
+interface Memory {
+  id: string;
+  category: string;
+  fact: string;
+}
+
+// Facts the companions have learned about the user, with edit and forget controls
+function MemoryList() {
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingFact, setEditingFact] = useState('');
+
+  useEffect(() => {
+    fetch('/api/memories', { credentials: 'include' })
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        return response.json();
+      })
+      .then(({ memories }: { memories: Memory[] }) => setMemories(memories))
+      .catch((error) => {
+        console.error('Error loading memories:', error);
+        toast.error('Could not load what your companion remembers');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const saveEdit = async () => {
+    const fact = editingFact.trim();
+    const id = editingId;
+    setEditingId(null);
+    if (!id || !fact) {
+      return;
+    }
+
+    const response = await fetch(`/api/memories/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ fact }),
+    });
+    if (!response.ok) {
+      toast.error('Could not update memory');
+      return;
+    }
+
+    const { memory }: { memory: Memory } = await response.json();
+    setMemories((current) => current.map((m) => (m.id === id ? memory : m)));
+  };
+
+  const forget = async (id: string) => {
+    const response = await fetch(`/api/memories/${id}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    });
+    if (!response.ok) {
+      toast.error('Could not forget memory');
+      return;
+    }
+
+    setMemories((current) => current.filter((m) => m.id !== id));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 py-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading...
+      </div>
+    );
+  }
+
+  if (memories.length === 0) {
+    return (
+      <p className="py-2 text-sm text-gray-500">
+        Nothing yet. Your companions will remember things like your name, role and preferences as you chat.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="max-h-64 space-y-1 overflow-y-auto py-1">
+      {memories.map((memory) => (
+        <li key={memory.id} className="group flex items-center gap-1 text-sm">
+          {editingId === memory.id ? (
+            <>
+              <Input
+                autoFocus
+                value={editingFact}
+                onChange={(event) => setEditingFact(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') {
+                    event.preventDefault();
+                    saveEdit();
+                  } else if (event.key === 'Escape') {
+                    setEditingId(null);
+                  }
+                }}
+                className="h-8"
+                maxLength={200}
+              />
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={saveEdit} aria-label="Save memory">
+                <Check className="h-3.5 w-3.5" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingId(null)} aria-label="Cancel editing">
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </>
+          ) : (
+            <>
+              <span className="flex-1 min-w-0">
+                <span className="text-xs uppercase text-gray-400 mr-1">{memory.category}</span>
+                {memory.fact}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => {
+                  setEditingId(memory.id);
+                  setEditingFact(memory.fact);
+                }}
+                aria-label="Edit memory"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-red-600 hover:text-red-700"
+                onClick={() => forget(memory.id)}
+                aria-label="Forget memory"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 export function UserProfile({ className = '' }: UserProfileProps) {
   const { user, signOut, loading } = useAuth();
   const [showDropdown, setShowDropdown] = useState(false);
+  const [showMemories, setShowMemories] = useState(false);
+  const [showPrivacy, setShowPrivacy] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // Check if user authentication is enabled (only when USER_AUTH=true)
@@ -138,15 +287,22 @@ export function UserProfile({ className = '' }: UserProfileProps) {
               <Button
                 variant="ghost"
                 className="w-full justify-start"
-                onClick={() => {
-                  setShowDropdown(false);
-                  // Add profile settings functionality here
-                  toast.info('Profile settings coming soon!');
-                }}
+                onClick={() => setShowMemories(!showMemories)}
+              >
+                <Brain className="mr-2 h-4 w-4" />
+                What I remember about you
+              </Button>
+              {showMemories && <MemoryList />}
+
+              <Button
+                variant="ghost"
+                className="w-full justify-start"
+                onClick={() => setShowPrivacy(!showPrivacy)}
               >
-                <Settings className="mr-2 h-4 w-4" />
-                Profile Settings
+                <Lock className="mr-2 h-4 w-4" />
+                Privacy & data
               </Button>
+              {showPrivacy && <PrivacyCenter />}
 
               <Button
                 variant="ghost"
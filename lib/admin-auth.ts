@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+import type { NextRequest } from 'next/server';
+
+// Verify the admin-auth cookie issued by /api/admin/auth; every admin check goes through here
+export function verifyAdminToken(token: string): boolean {
+  try {
+    const { JWT_SECRET } = process.env;
+    if (!JWT_SECRET) {
+      console.error('JWT_SECRET is not configured');
+      return false;
+    }
+
+    const parts = token.split('.');
+    if (parts.length !== 3) { return false };
+
+    const [header, payload, signature] = parts;
+    const expectedSignature = crypto
+      .createHmac('sha256', JWT_SECRET)
+      .update(`${header}.${payload}`)
+      .digest('base64url');
+
+    if (signature !== expectedSignature) { return false };
+
+    const { exp } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    return typeof exp !== 'number' || exp * 1000 > Date.now();
+  } catch {
+    return false;
+  }
+}
+
+export function isAdminRequest(request: NextRequest): boolean {
+  const token = request.cookies.get('admin-auth')?.value;
+  return !!token && verifyAdminToken(token);
+}
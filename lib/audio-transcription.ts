@@ -1,5 +1,7 @@
 import { OpenAI } from 'openai';
-import { getAudioProcessingQueue, JOB_TYPES } from './queue/bull-queue';
+import { z } from 'zod';
+import { defineJob, submitJob } from './queue/jobs';
+import { JOB_TYPES, QUEUE_NAMES } from './queue/config';
 
 // Validate OpenAI API key
 if (!process.env.OPENAI_API_KEY) {
@@ -108,6 +110,29 @@ export async function transcribeAudio(
   }
 }
 
+/**
+ * Transcription as a job on the audio-processing queue
+ */
+export const audioTranscriptionJob = defineJob({
+  name: JOB_TYPES.AUDIO_TRANSCRIPTION,
+  queue: QUEUE_NAMES.AUDIO_PROCESSING,
+  payload: z.object({
+    audioBuffer: z.string(), // Base64, so the payload survives JSON in Redis
+    options: z.object({
+      language: z.string().optional(),
+      prompt: z.string().optional(),
+      responseFormat: z.enum(['json', 'text', 'srt', 'verbose_json', 'vtt']).optional(),
+      temperature: z.number().optional(),
+    }),
+    requestId: z.string(),
+  }),
+  run: async ({ audioBuffer: base64Audio, options }): Promise<TranscriptionResult> => {
+    const audioBuffer = base64ToBuffer(base64Audio);
+    validateAudioInput(audioBuffer);
+    return transcribeAudio(audioBuffer, options);
+  },
+});
+
 /**
  * Queue audio transcription for processing
  * @param audioBuffer - The audio data as a Buffer
@@ -119,17 +144,14 @@ export async function queueAudioTranscription(
   options: TranscriptionOptions = {}
 ): Promise<string> {
   try {
-    const audioProcessingQueue = await getAudioProcessingQueue();
-    
-    const job = await audioProcessingQueue.add(JOB_TYPES.AUDIO_TRANSCRIPTION, {
-      audioBuffer: audioBuffer.toString('base64'), // Convert to base64 for queue storage
+    const job = await submitJob(audioTranscriptionJob, {
+      audioBuffer: audioBuffer.toString('base64'),
       options,
       requestId: generateRequestId(),
-      timestamp: Date.now(),
     });
 
     console.log(`Audio transcription queued with job ID: ${job.id}`);
-    return job.id.toString();
+    return job.id;
 
   } catch (error) {
     console.error('Failed to queue audio transcription:', error);
@@ -1,9 +1,12 @@
-// OpenAI response type
-interface OpenAIResponse {
-  response: string;
-  threadId: string;
-  requestId?: string;
-}
+// Response cache shared by the Next.js server and the queue worker. Entries live in Redis on
+// the dedicated cacheClient so every process sees the same hits, with an in-process LRU taking
+// over while Redis is unreachable. CACHE_BACKEND=memory keeps everything in-process.
+
+import { createHash } from 'crypto';
+import { cacheClient } from './redis';
+import { CircuitBreaker, type CircuitSnapshot } from './circuit-breaker';
+import { resolveResponseCachePolicy, type CompanionMode } from './companion/modes';
+import type { CachedCompletion } from './companion/completion';
 
 // Chat message type
 interface ChatMessage {
@@ -12,73 +15,513 @@ interface ChatMessage {
   id?: string;
 }
 
-interface CacheEntry {
-  data: OpenAIResponse;
-  timestamp: number;
-  ttl: number;
+export type CacheBackendName = 'memory' | 'redis';
+
+export interface CacheSetOptions {
+  ttlMs?: number;
+  // Labels for invalidating related entries together, e.g. everything built on one prompt version
+  tags?: string[];
+}
+
+/**
+ * Storage behind a cache. Values arrive serialized so both backends behave the same.
+ */
+export interface CacheBackend {
+  readonly name: CacheBackendName;
+  get(key: string): Promise<string | null>;
+  // Resolves to the number of entries evicted to make room
+  set(key: string, value: string, ttlMs: number, tags: string[]): Promise<number>;
+  delete(key: string): Promise<boolean>;
+  // Resolves to the number of entries removed
+  invalidateTag(tag: string): Promise<number>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+}
+
+export interface CacheMetrics {
+  backend: CacheBackendName;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  sets: number;
+  evictions: number;
+  invalidations: number;
+  errors: number;
+  // Operations served by the in-process fallback because Redis was unavailable
+  fallbacks: number;
+  size: number;
+  redis: CircuitSnapshot | null;
+}
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = Number(process.env.CACHE_MAX_ENTRIES) || 1000;
+// How long a request waits for a cold Redis connection before using the fallback
+const CONNECT_TIMEOUT_MS = 1000;
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+  tags: string[];
 }
 
-class SimpleCache {
-  private cache: Map<string, CacheEntry> = new Map();
-  private maxSize: number;
+/**
+ * In-process LRU. Map iteration follows insertion order, so reinserting on every read keeps
+ * the least recently used entry first.
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory' as const;
+  private entries = new Map<string, MemoryEntry>();
+  private tagIndex = new Map<string, Set<string>>();
+
+  constructor(private maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
 
-  constructor(maxSize: number = 1000) {
-    this.maxSize = maxSize;
+    this.remove(key);
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    this.entries.set(key, entry);
+    this.indexTags(key, entry.tags);
+    return entry.value;
   }
 
-  set(key: string, data: OpenAIResponse, ttl: number = 300000): void { // 5 minutes default
-    // Clean up expired entries
-    this.cleanup();
-    
-    // Remove oldest entry if cache is full
-    if (this.cache.size >= this.maxSize) {
-      const firstKey = this.cache.keys().next().value;
-      if (firstKey) {
-        this.cache.delete(firstKey);
+  async set(key: string, value: string, ttlMs: number, tags: string[]): Promise<number> {
+    this.remove(key);
+    if (this.entries.size >= this.maxEntries) {
+      this.removeExpired();
+    }
+
+    let evicted = 0;
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
       }
+      this.remove(oldest);
+      evicted++;
     }
-    
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now(),
-      ttl,
+
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs, tags });
+    this.indexTags(key, tags);
+    return evicted;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.remove(key);
+  }
+
+  async invalidateTag(tag: string): Promise<number> {
+    const keys = Array.from(this.tagIndex.get(tag) ?? []);
+    keys.forEach((key) => this.remove(key));
+    this.tagIndex.delete(tag);
+    return keys.length;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.tagIndex.clear();
+  }
+
+  async size(): Promise<number> {
+    this.removeExpired();
+    return this.entries.size;
+  }
+
+  private indexTags(key: string, tags: string[]): void {
+    tags.forEach((tag) => {
+      const keys = this.tagIndex.get(tag) ?? new Set<string>();
+      keys.add(key);
+      this.tagIndex.set(tag, keys);
     });
   }
 
-  get(key: string): OpenAIResponse | null {
-    const entry = this.cache.get(key);
-    
+  private remove(key: string): boolean {
+    const entry = this.entries.get(key);
     if (!entry) {
+      return false;
+    }
+
+    this.entries.delete(key);
+    entry.tags.forEach((tag) => {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.tagIndex.delete(tag);
+      }
+    });
+    return true;
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.remove(key);
+      }
+    }
+  }
+}
+
+// KEYS: entry, LRU index, tag sets. ARGV: value, ttl ms, now, max entries, entry prefix, member.
+// Tag sets live as long as their longest entry; members evicted earlier are skipped on invalidation.
+const SET_SCRIPT = `
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+redis.call('ZADD', KEYS[2], ARGV[3], ARGV[6])
+for i = 3, #KEYS do
+  redis.call('SADD', KEYS[i], ARGV[6])
+  if redis.call('PTTL', KEYS[i]) < tonumber(ARGV[2]) then
+    redis.call('PEXPIRE', KEYS[i], ARGV[2])
+  end
+end
+local evicted = 0
+local excess = redis.call('ZCARD', KEYS[2]) - tonumber(ARGV[4])
+if excess > 0 then
+  for _, member in ipairs(redis.call('ZRANGE', KEYS[2], 0, excess - 1)) do
+    evicted = evicted + redis.call('DEL', ARGV[5] .. member)
+  end
+  redis.call('ZREMRANGEBYRANK', KEYS[2], 0, excess - 1)
+end
+return evicted
+`;
+
+// KEYS: tag set, LRU index. ARGV: entry prefix.
+const INVALIDATE_SCRIPT = `
+local removed = 0
+for _, member in ipairs(redis.call('SMEMBERS', KEYS[1])) do
+  removed = removed + redis.call('DEL', ARGV[1] .. member)
+  redis.call('ZREM', KEYS[2], member)
+end
+redis.call('DEL', KEYS[1])
+return removed
+`;
+
+/**
+ * Redis storage on cacheClient. Entries expire through Redis TTLs; a sorted set of last-read
+ * times bounds the number of entries and picks the least recently used one to evict.
+ */
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis' as const;
+  private connecting: Promise<void> | null = null;
+
+  constructor(
+    private namespace: string,
+    private maxEntries: number = DEFAULT_MAX_ENTRIES,
+    private client: typeof cacheClient = cacheClient
+  ) {}
+
+  private entryKey(key: string): string {
+    return `${this.entryPrefix()}${key}`;
+  }
+
+  private entryPrefix(): string {
+    return `cache:${this.namespace}:entry:`;
+  }
+
+  private lruKey(): string {
+    return `cache:${this.namespace}:lru`;
+  }
+
+  private tagKey(tag: string): string {
+    return `cache:${this.namespace}:tag:${tag}`;
+  }
+
+  /**
+   * Connect on first use without holding a request up for longer than CONNECT_TIMEOUT_MS
+   */
+  private async ensureReady(): Promise<void> {
+    if (this.client.isReady) {
+      return;
+    }
+
+    if (!this.client.isOpen && !this.connecting) {
+      this.connecting = this.client
+        .connect()
+        .then(() => undefined)
+        .catch((error) => console.error('Error connecting to Redis cache:', error))
+        .finally(() => {
+          this.connecting = null;
+        });
+    }
+
+    if (this.connecting) {
+      await Promise.race([this.connecting, new Promise((resolve) => setTimeout(resolve, CONNECT_TIMEOUT_MS))]);
+    }
+    if (!this.client.isReady) {
+      throw new Error('Redis cache is not connected');
+    }
+  }
+
+  async get(key: string): Promise<string | null> {
+    await this.ensureReady();
+    const value = await this.client.get(this.entryKey(key));
+    if (value === null) {
+      await this.client.zRem(this.lruKey(), key);
       return null;
     }
-    
-    // Check if entry has expired
-    if (Date.now() - entry.timestamp > entry.ttl) {
-      this.cache.delete(key);
+
+    await this.client.zAdd(this.lruKey(), { score: Date.now(), value: key }, { condition: 'XX' });
+    return value;
+  }
+
+  async set(key: string, value: string, ttlMs: number, tags: string[]): Promise<number> {
+    await this.ensureReady();
+    const evicted = await this.client.eval(SET_SCRIPT, {
+      keys: [this.entryKey(key), this.lruKey(), ...tags.map((tag) => this.tagKey(tag))],
+      arguments: [value, String(ttlMs), String(Date.now()), String(this.maxEntries), this.entryPrefix(), key],
+    });
+    return Number(evicted) || 0;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    await this.ensureReady();
+    const [deleted] = await Promise.all([
+      this.client.del(this.entryKey(key)),
+      this.client.zRem(this.lruKey(), key),
+    ]);
+    return deleted > 0;
+  }
+
+  async invalidateTag(tag: string): Promise<number> {
+    await this.ensureReady();
+    const removed = await this.client.eval(INVALIDATE_SCRIPT, {
+      keys: [this.tagKey(tag), this.lruKey()],
+      arguments: [this.entryPrefix()],
+    });
+    return Number(removed) || 0;
+  }
+
+  async clear(): Promise<void> {
+    await this.ensureReady();
+    for await (const keys of this.client.scanIterator({ MATCH: `cache:${this.namespace}:*`, COUNT: 100 })) {
+      if (keys.length > 0) {
+        await this.client.del(keys);
+      }
+    }
+  }
+
+  async size(): Promise<number> {
+    await this.ensureReady();
+    return this.client.zCard(this.lruKey());
+  }
+}
+
+/**
+ * A typed cache over a primary backend, falling back to an in-process LRU while the
+ * primary fails. The circuit breaker stops every request from waiting on a dead Redis.
+ */
+export class ResponseCache<T> {
+  private metrics = { hits: 0, misses: 0, sets: 0, evictions: 0, invalidations: 0, errors: 0, fallbacks: 0 };
+  private breaker: CircuitBreaker | null;
+
+  constructor(
+    private primary: CacheBackend,
+    private fallback: CacheBackend | null = null,
+    private defaultTtlMs: number = DEFAULT_TTL_MS
+  ) {
+    this.breaker = fallback ? new CircuitBreaker(`${primary.name}-cache`) : null;
+  }
+
+  private async run<R>(operation: (backend: CacheBackend) => Promise<R>): Promise<R> {
+    if (!this.fallback || !this.breaker) {
+      return operation(this.primary);
+    }
+
+    if (this.breaker.canRequest()) {
+      try {
+        const result = await operation(this.primary);
+        this.breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        this.metrics.errors++;
+        this.breaker.recordFailure(error);
+      }
+    }
+
+    this.metrics.fallbacks++;
+    return operation(this.fallback);
+  }
+
+  async get(key: string): Promise<T | null> {
+    try {
+      const value = await this.run((backend) => backend.get(key));
+      if (value === null) {
+        this.metrics.misses++;
+        return null;
+      }
+      this.metrics.hits++;
+      return JSON.parse(value) as T;
+    } catch (error) {
+      console.error('Error reading from cache:', error);
+      this.metrics.errors++;
+      this.metrics.misses++;
       return null;
     }
-    
-    return entry.data;
   }
 
-  private cleanup(): void {
-    const now = Date.now();
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > entry.ttl) {
-        this.cache.delete(key);
+  async set(key: string, value: T, options: CacheSetOptions = {}): Promise<void> {
+    try {
+      const evicted = await this.run((backend) =>
+        backend.set(key, JSON.stringify(value), options.ttlMs ?? this.defaultTtlMs, options.tags ?? [])
+      );
+      this.metrics.sets++;
+      this.metrics.evictions += evicted;
+    } catch (error) {
+      console.error('Error writing to cache:', error);
+      this.metrics.errors++;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.run((backend) => backend.delete(key));
+      await this.fallback?.delete(key);
+    } catch (error) {
+      console.error('Error deleting from cache:', error);
+      this.metrics.errors++;
+    }
+  }
+
+  /**
+   * Remove every entry carrying a tag. The fallback is cleared too, since it may hold
+   * entries written during a Redis outage.
+   */
+  async invalidateTag(tag: string): Promise<number> {
+    let removed = 0;
+    try {
+      removed = await this.run((backend) => backend.invalidateTag(tag));
+      if (this.fallback && this.breaker?.currentState === 'closed') {
+        removed += await this.fallback.invalidateTag(tag);
       }
+    } catch (error) {
+      console.error(`Error invalidating cache tag ${tag}:`, error);
+      this.metrics.errors++;
+    }
+    this.metrics.invalidations += removed;
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await this.run((backend) => backend.clear());
+      await this.fallback?.clear();
+    } catch (error) {
+      console.error('Error clearing cache:', error);
+      this.metrics.errors++;
+    }
+  }
+
+  async getMetrics(): Promise<CacheMetrics> {
+    const lookups = this.metrics.hits + this.metrics.misses;
+    let size = 0;
+    try {
+      size = await this.run((backend) => backend.size());
+    } catch (error) {
+      console.error('Error reading cache size:', error);
     }
+
+    return {
+      backend: this.primary.name,
+      ...this.metrics,
+      hitRate: lookups > 0 ? this.metrics.hits / lookups : 0,
+      size,
+      redis: this.breaker?.snapshot() ?? null,
+    };
+  }
+}
+
+/**
+ * CACHE_BACKEND picks the store; without it Redis is used whenever REDIS_URL is set
+ */
+export function getCacheBackendName(): CacheBackendName {
+  const configured = process.env.CACHE_BACKEND;
+  if (configured === 'memory' || configured === 'redis') {
+    return configured;
   }
+  return process.env.REDIS_URL ? 'redis' : 'memory';
+}
 
-  clear(): void {
-    this.cache.clear();
+export function createCache<T>(namespace: string, maxEntries: number = DEFAULT_MAX_ENTRIES): ResponseCache<T> {
+  if (getCacheBackendName() === 'memory') {
+    return new ResponseCache<T>(new MemoryCacheBackend(maxEntries));
   }
+  return new ResponseCache<T>(new RedisCacheBackend(namespace, maxEntries), new MemoryCacheBackend(maxEntries));
 }
 
-export const responseCache = new SimpleCache();
+// Without a listener a dropped connection would surface as an uncaught 'error' event
+cacheClient.on('error', (error) => {
+  console.error('Redis cache client error:', error instanceof Error ? error.message : error);
+});
+
+/**
+ * Tag for every cached response built on a prompt, whichever version was published
+ */
+export function promptCacheTag(key: string): string {
+  return `prompt:${key}`;
+}
 
-export function generateCacheKey(messages: ChatMessage[], assistantId: string): string {
-  const lastMessage = messages[messages.length - 1];
-  const content = lastMessage?.content || '';
-  return `${assistantId}:${content.substring(0, 100)}`; // Truncate for key length
-} 
\ No newline at end of file
+/**
+ * Tag for the cached responses built on one saved prompt version
+ */
+export function promptVersionCacheTag(versionId: string): string {
+  return `prompt-version:${versionId}`;
+}
+
+/**
+ * Tags for a response generated with a resolved prompt
+ */
+export function promptCacheTags(prompt: { key: string; versionId: string | null }): string[] {
+  return [promptCacheTag(prompt.key), ...(prompt.versionId ? [promptVersionCacheTag(prompt.versionId)] : [])];
+}
+
+export const responseCache = createCache<CachedCompletion>('responses');
+
+export interface ChatCacheKeyInput {
+  mode: CompanionMode;
+  // Who the conversation belongs to: a user ID, or a tenant ID for deployments shared by an organisation
+  scope: string | null | undefined;
+  messages: ChatMessage[];
+  // The system prompt as sent, after any per-session tailoring
+  prompt: { key: string; versionId: string | null; content: string };
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// Unicode form, line endings and runs of spaces don't change what was asked
+function normalizeContent(content: string): string {
+  return content.normalize('NFC').replace(/\r\n?/g, '\n').replace(/[ \t]+/g, ' ').trim();
+}
+
+/**
+ * Cache key for a chat response, or null when the reply must not be cached. The key hashes
+ * the whole normalised conversation with everything else that shapes the reply, and is scoped
+ * to its owner unless the mode shares replies across users. Owners are hashed so user IDs
+ * never appear in Redis key names.
+ */
+export function generateCacheKey(input: ChatCacheKeyInput): string | null {
+  const policy = resolveResponseCachePolicy(input.mode);
+  if (policy === 'off' || (policy === 'user' && !input.scope)) {
+    return null;
+  }
+
+  const scope = policy === 'shared' ? 'shared' : `owner-${sha256(`owner:${input.scope}`).slice(0, 32)}`;
+  const digest = sha256(JSON.stringify({
+    mode: input.mode.id,
+    prompt: { key: input.prompt.key, versionId: input.prompt.versionId, content: sha256(input.prompt.content) },
+    model: input.model,
+    temperature: input.temperature,
+    maxTokens: input.maxTokens,
+    messages: input.messages.map((message) => [message.role, normalizeContent(message.content)]),
+  }));
+
+  return `chat:v1:${input.mode.id}:${scope}:${digest}`;
+}
@@ -0,0 +1,126 @@
+// In-memory circuit breaker. State lives in the server process, so each
+// instance learns about an outage from its own requests.
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit rejects requests before allowing a trial, and how long a trial
+  // that never reports back holds up the next one
+  cooldownMs: number;
+  // Number of recent outcomes kept for the error rate
+  windowSize: number;
+}
+
+export interface CircuitSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  errorRate: number;
+  recentRequests: number;
+  openedAt: string | null;
+  lastError: string | null;
+  lastFailureAt: string | null;
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  cooldownMs: 30 * 1000,
+  windowSize: 20,
+};
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private outcomes: boolean[] = [];
+  private openedAt: number | null = null;
+  // When the half-open circuit's single trial request was let through
+  private trialStartedAt: number | null = null;
+  private lastError: string | null = null;
+  private lastFailureAt: number | null = null;
+  private options: CircuitBreakerOptions;
+
+  constructor(readonly name: string, options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * The circuit's state, moving an open circuit to half-open once the cooldown has passed.
+   * Unlike canRequest this does not claim the trial request.
+   */
+  get currentState(): CircuitState {
+    if (this.state === 'open' && this.openedAt !== null && Date.now() - this.openedAt >= this.options.cooldownMs) {
+      this.state = 'half-open';
+      this.trialStartedAt = null;
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a request may go through now. An open circuit lets one trial
+   * request through (half-open) once the cooldown has passed; everyone else is
+   * refused until it reports back. The caller must then record its outcome.
+   */
+  canRequest(): boolean {
+    const state = this.currentState;
+    if (state !== 'half-open') {
+      return state === 'closed';
+    }
+
+    const now = Date.now();
+    if (this.trialStartedAt !== null && now - this.trialStartedAt < this.options.cooldownMs) {
+      return false;
+    }
+    this.trialStartedAt = now;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.pushOutcome(true);
+    this.consecutiveFailures = 0;
+    this.state = 'closed';
+    this.openedAt = null;
+    this.trialStartedAt = null;
+  }
+
+  recordFailure(error: unknown): void {
+    this.trialStartedAt = null;
+    this.pushOutcome(false);
+    this.consecutiveFailures += 1;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.lastFailureAt = Date.now();
+
+    // A failed trial reopens immediately; otherwise wait for the threshold
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`Circuit ${this.name} opened after ${this.consecutiveFailures} consecutive failures`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    const state = this.currentState;
+    const failures = this.outcomes.filter((ok) => !ok).length;
+
+    return {
+      name: this.name,
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      errorRate: this.outcomes.length > 0 ? failures / this.outcomes.length : 0,
+      recentRequests: this.outcomes.length,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      lastError: this.lastError,
+      lastFailureAt: this.lastFailureAt ? new Date(this.lastFailureAt).toISOString() : null,
+    };
+  }
+
+  private pushOutcome(ok: boolean): void {
+    this.outcomes.push(ok);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import type { JSONValue } from 'ai';
+
+// Per-message metadata carried as AI SDK message annotations: the companion routes attach
+// usage, safety and queue position to replies, the chat attaches the voice transcript to
+// dictated turns.
+// Plain types rather than interfaces so they are assignable to JSONValue.
+
+export type UsageAnnotation = {
+  type: 'usage';
+  modelId: string;
+  // Models that failed before modelId answered
+  failedOverFrom: string[];
+  finishReason: string;
+  promptTokens: number;
+  completionTokens: number;
+  // Null when the built-in default prompt served the reply
+  promptVersionId: string | null;
+  experiment: { id: string; variant: string } | null;
+};
+
+export type SafetyAnnotation = {
+  type: 'safety';
+  escalation: 'crisis';
+};
+
+// What /api/transcribe heard; the user may have edited the text before sending it
+export type TranscriptAnnotation = {
+  type: 'transcript';
+  text: string;
+  language: string | null;
+  durationSeconds: number | null;
+};
+
+// Sent while a reply waits for a free slot on the chat queue; 0 once it has started
+export type QueueAnnotation = {
+  type: 'queue';
+  position: number;
+};
+
+export type CompanionAnnotation = UsageAnnotation | SafetyAnnotation | TranscriptAnnotation | QueueAnnotation;
+
+/**
+ * Find an annotation of the given type on a message
+ */
+export function findAnnotation<T extends CompanionAnnotation['type']>(
+  annotations: JSONValue[] | undefined,
+  type: T
+): Extract<CompanionAnnotation, { type: T }> | undefined {
+  return annotations?.find(
+    (annotation): annotation is Extract<CompanionAnnotation, { type: T }> =>
+      !!annotation && typeof annotation === 'object' && !Array.isArray(annotation) && annotation.type === type
+  );
+}
+
+/**
+ * The most recent annotation of the given type, for ones sent repeatedly as they change
+ */
+export function findLastAnnotation<T extends CompanionAnnotation['type']>(
+  annotations: JSONValue[] | undefined,
+  type: T
+): Extract<CompanionAnnotation, { type: T }> | undefined {
+  return findAnnotation(annotations?.slice().reverse(), type);
+}
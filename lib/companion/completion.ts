@@ -0,0 +1,200 @@
+import { z } from 'zod';
+import type { FinishReason, LanguageModelUsage } from 'ai';
+import { streamTextWithFailover } from '@/ai/failover';
+import { isModelID, type modelID } from '@/ai/models';
+import { buildToolSet } from '@/ai/tools';
+import { generateCacheKey, promptCacheTags, responseCache } from '@/lib/cache';
+import { defineJob, type JobContext } from '@/lib/queue/jobs';
+import { JOB_TYPES, QUEUE_NAMES } from '@/lib/queue/config';
+import { getCompanionMode } from './modes';
+
+// Model calls per request when a mode has tools: each tool round trip is one step
+const MAX_TOOL_STEPS = 5;
+
+// How long a cached reply is served again for the same conversation
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Submitters give up on a reply that has not finished by then
+const COMPLETION_TIMEOUT_MS = 2 * 60 * 1000;
+
+const chatCompletionPayload = z.object({
+  mode: z.string(),
+  // The chosen model first, then its fallbacks
+  modelChain: z.array(z.custom<modelID>(isModelID, 'Unknown model')).min(1),
+  // The system prompt as sent, after memories and per-session tailoring
+  systemPrompt: z.object({ key: z.string(), versionId: z.string().nullable(), content: z.string() }),
+  messages: z.array(z.object({ role: z.enum(['system', 'user', 'assistant']), content: z.string() })),
+  userId: z.string().nullable(),
+  threadId: z.string(),
+  // Off for regenerated replies, which must not repeat the one being replaced
+  useCache: z.boolean(),
+});
+
+export type ChatCompletionPayload = z.infer<typeof chatCompletionPayload>;
+
+type Usage = Pick<LanguageModelUsage, 'promptTokens' | 'completionTokens'>;
+
+// The model's output as the completion streams, mirroring the AI SDK's stream parts. `start`
+// always comes first and names the model that answered.
+export type ChatCompletionEvent =
+  | { type: 'start'; modelId: modelID; failedOver: modelID[]; cached: boolean }
+  | { type: 'text-delta'; textDelta: string }
+  | { type: 'reasoning'; textDelta: string }
+  | { type: 'reasoning-signature'; signature: string }
+  | { type: 'redacted-reasoning'; data: string }
+  | { type: 'step-start' }
+  | { type: 'tool-call'; toolCallId: string; toolName: string; args: unknown }
+  | { type: 'tool-result'; toolCallId: string; result: unknown }
+  | { type: 'step-finish'; finishReason: FinishReason; usage: Usage; isContinued: boolean }
+  | { type: 'finish'; finishReason: FinishReason; usage: Usage };
+
+export interface ChatCompletionResult {
+  modelId: modelID;
+  failedOver: modelID[];
+  cached: boolean;
+  finishReason: FinishReason;
+  usage: Usage;
+}
+
+// A reply kept in the response cache, replayed event by event on a hit
+export interface CachedCompletion {
+  modelId: modelID;
+  events: ChatCompletionEvent[];
+}
+
+const NO_USAGE: Usage = { promptTokens: 0, completionTokens: 0 };
+
+/**
+ * Events worth replaying from the cache: text deltas merged, and no token usage, since a
+ * cache hit costs nothing
+ */
+function toCachedEvents(events: ChatCompletionEvent[]): ChatCompletionEvent[] {
+  const cached: ChatCompletionEvent[] = [];
+  for (const event of events) {
+    const previous = cached[cached.length - 1];
+    if (event.type === 'text-delta' && previous?.type === 'text-delta') {
+      previous.textDelta += event.textDelta;
+    } else if (event.type === 'step-finish' || event.type === 'finish') {
+      cached.push({ ...event, usage: NO_USAGE });
+    } else {
+      cached.push({ ...event });
+    }
+  }
+  return cached;
+}
+
+async function runChatCompletion(
+  payload: ChatCompletionPayload,
+  { emit, signal }: JobContext<ChatCompletionEvent>
+): Promise<ChatCompletionResult> {
+  const mode = getCompanionMode(payload.mode);
+  if (!mode) {
+    throw new Error(`Unknown companion mode: ${payload.mode}`);
+  }
+
+  const cacheKey = payload.useCache
+    ? generateCacheKey({
+      mode,
+      scope: payload.userId,
+      messages: payload.messages,
+      prompt: payload.systemPrompt,
+      model: payload.modelChain[0],
+      temperature: mode.temperature,
+      maxTokens: mode.maxTokens,
+    })
+    : null;
+
+  const cached = cacheKey ? await responseCache.get(cacheKey) : null;
+  if (cached) {
+    emit({ type: 'start', modelId: cached.modelId, failedOver: [], cached: true });
+    cached.events.forEach(emit);
+    return { modelId: cached.modelId, failedOver: [], cached: true, finishReason: 'stop', usage: NO_USAGE };
+  }
+
+  // Provider errors before the first output fail over to the next model, or fail the job
+  const { modelId, failedOver, parts } = await streamTextWithFailover(payload.modelChain, {
+    messages: [{ role: 'system', content: payload.systemPrompt.content }, ...payload.messages],
+    temperature: mode.temperature,
+    maxTokens: mode.maxTokens,
+    // The chat's stop button cancels the job, which ends the model call
+    abortSignal: signal,
+    ...(mode.tools?.length && {
+      tools: buildToolSet(mode.tools, { userId: payload.userId ?? undefined, threadId: payload.threadId, mode: mode.id }),
+      maxSteps: MAX_TOOL_STEPS,
+    }),
+  });
+  emit({ type: 'start', modelId, failedOver, cached: false });
+
+  const events: ChatCompletionEvent[] = [];
+  const record = (event: ChatCompletionEvent) => {
+    events.push(event);
+    emit(event);
+  };
+
+  let finishReason: FinishReason = 'unknown';
+  let usage = NO_USAGE;
+  let usedTools = false;
+  for await (const part of parts) {
+    switch (part.type) {
+      case 'text-delta':
+      case 'reasoning':
+        record({ type: part.type, textDelta: part.textDelta });
+        break;
+      case 'reasoning-signature':
+        record({ type: part.type, signature: part.signature });
+        break;
+      case 'redacted-reasoning':
+        record({ type: part.type, data: part.data });
+        break;
+      case 'step-start':
+        record({ type: part.type });
+        break;
+      case 'tool-call':
+        usedTools = true;
+        record({ type: part.type, toolCallId: part.toolCallId, toolName: part.toolName, args: part.args });
+        break;
+      case 'tool-result':
+        record({ type: part.type, toolCallId: part.toolCallId, result: part.result });
+        break;
+      case 'step-finish':
+        record({
+          type: part.type,
+          finishReason: part.finishReason,
+          usage: { promptTokens: part.usage.promptTokens, completionTokens: part.usage.completionTokens },
+          isContinued: part.isContinued,
+        });
+        break;
+      case 'finish':
+        finishReason = part.finishReason;
+        usage = { promptTokens: part.usage.promptTokens || 0, completionTokens: part.usage.completionTokens || 0 };
+        record({ type: part.type, finishReason, usage });
+        break;
+      case 'error':
+        throw part.error;
+    }
+  }
+
+  // Tool calls can have side effects (a saved journal entry) that a replay would skip
+  if (cacheKey && !usedTools && finishReason === 'stop') {
+    await responseCache.set(
+      cacheKey,
+      { modelId, events: toCachedEvents(events) },
+      { ttlMs: CACHE_TTL_MS, tags: promptCacheTags(payload.systemPrompt) }
+    );
+  }
+
+  return { modelId, failedOver, cached: false, finishReason, usage };
+}
+
+/**
+ * A companion reply: the completion with failover, tools and the response cache. The engine
+ * submits it and relays its events; a retry would repeat streamed text, so it runs once.
+ */
+export const chatCompletionJob = defineJob({
+  name: JOB_TYPES.CHAT_REQUEST,
+  queue: QUEUE_NAMES.OPENAI_CHAT,
+  payload: chatCompletionPayload,
+  attempts: 1,
+  timeoutMs: COMPLETION_TIMEOUT_MS,
+  run: runChatCompletion,
+});
@@ -0,0 +1,198 @@
+import { createHash } from 'crypto';
+import OpenAI from 'openai';
+import { getEncoding, type Tiktoken, type TiktokenEncoding } from 'js-tiktoken';
+import { MODEL_CATALOG, type modelID } from '@/ai/models';
+import { conversationStore, type ConversationRecord } from '@/lib/conversation-store';
+import type { CompanionChatMessage } from './engine';
+
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+});
+
+const SUMMARY_MODEL = 'gpt-4o-mini';
+
+// Prompt size (system prompt plus history) that triggers summarisation; override with
+// CONTEXT_SUMMARY_THRESHOLD. Kept well under the context windows to bound per-turn cost.
+const DEFAULT_SUMMARY_THRESHOLD = 6000;
+
+// The most recent messages are always sent verbatim
+const KEEP_RECENT_MESSAGES = 8;
+
+// Anonymous threads have no conversation row, so their summaries live on this instance
+const MAX_ANONYMOUS_SUMMARIES = 500;
+
+const SUMMARY_PROMPT = `You keep a running summary of a conversation between a user and a companion, so the companion can continue it without the earlier messages.
+Merge the previous summary (if any) with the new messages into one summary of at most 250 words.
+Keep what matters for continuing the conversation: the user's situation and feelings, what they asked for, advice or plans already given, commitments, names and details they shared, and open questions.
+Write in the third person ("The user ...", "The companion ..."). Respond with the summary only.`;
+
+export interface ContextSummary {
+  text: string;
+  // How many leading messages of the thread the summary replaces
+  messageCount: number;
+  // Hash of those messages; a mismatch means the history was edited and the summary is stale
+  fingerprint: string;
+}
+
+export interface ContextWindow {
+  messages: CompanionChatMessage[];
+  summary: ContextSummary | null;
+  // True when this request produced a new summary that should be saved
+  updated: boolean;
+}
+
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+const anonymousSummaries = new Map<string, ContextSummary>();
+
+function getEncoder(modelId: modelID): Tiktoken {
+  const { encoding } = MODEL_CATALOG[modelId];
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = getEncoding(encoding);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Count the prompt tokens a list of messages costs on the given model
+ */
+export function countTokens(messages: CompanionChatMessage[], modelId: modelID): number {
+  const encoder = getEncoder(modelId);
+  // Each message carries a few tokens of role and formatting overhead; 3 more prime the reply
+  return messages.reduce((total, message) => total + 4 + encoder.encode(message.content).length, 3);
+}
+
+function fingerprint(messages: CompanionChatMessage[]): string {
+  return createHash('sha256')
+    .update(JSON.stringify(messages.map(({ role, content }) => [role, content])))
+    .digest('hex');
+}
+
+function summaryThreshold(modelId: modelID, maxTokens: number): number {
+  const configured = Number(process.env.CONTEXT_SUMMARY_THRESHOLD) || DEFAULT_SUMMARY_THRESHOLD;
+  return Math.min(configured, MODEL_CATALOG[modelId].contextWindow - maxTokens);
+}
+
+function summaryMessage(summary: ContextSummary): CompanionChatMessage {
+  return {
+    role: 'system',
+    content: `Summary of the conversation so far (the earlier messages are not shown):\n${summary.text}`,
+  };
+}
+
+async function summarise(previous: string | null, messages: CompanionChatMessage[]): Promise<string> {
+  const transcript = messages
+    .map((message) => `${message.role === 'user' ? 'User' : 'Companion'}: ${message.content}`)
+    .join('\n\n');
+
+  const completion = await openai.chat.completions.create({
+    model: SUMMARY_MODEL,
+    messages: [
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: `Previous summary: ${previous ?? '(none)'}\n\nNew messages:\n${transcript}`,
+      },
+    ],
+    temperature: 0,
+    max_tokens: 500,
+  });
+
+  const text = completion.choices[0]?.message?.content?.trim();
+  if (!text) {
+    throw new Error('Empty summary');
+  }
+  return text;
+}
+
+/**
+ * Fit a thread into the model's prompt budget. A still-valid saved summary replaces
+ * the messages it covers; when the prompt is over the threshold, older messages are
+ * folded into the summary and only the last KEEP_RECENT_MESSAGES are sent verbatim.
+ */
+export async function buildContextWindow({
+  modelId,
+  systemPrompt,
+  messages,
+  maxTokens,
+  summary,
+}: {
+  modelId: modelID;
+  systemPrompt: string;
+  messages: CompanionChatMessage[];
+  maxTokens: number;
+  summary: ContextSummary | null;
+}): Promise<ContextWindow> {
+  const current =
+    summary &&
+    summary.messageCount <= messages.length &&
+    summary.fingerprint === fingerprint(messages.slice(0, summary.messageCount))
+      ? summary
+      : null;
+
+  const windowFor = (active: ContextSummary | null) =>
+    active ? [summaryMessage(active), ...messages.slice(active.messageCount)] : messages;
+
+  const window = windowFor(current);
+  const promptTokens = countTokens([{ role: 'system', content: systemPrompt }, ...window], modelId);
+  const foldUpTo = messages.length - KEEP_RECENT_MESSAGES;
+  if (promptTokens <= summaryThreshold(modelId, maxTokens) || foldUpTo <= (current?.messageCount ?? 0)) {
+    return { messages: window, summary: current, updated: false };
+  }
+
+  try {
+    const text = await summarise(current?.text ?? null, messages.slice(current?.messageCount ?? 0, foldUpTo));
+    const next: ContextSummary = {
+      text,
+      messageCount: foldUpTo,
+      fingerprint: fingerprint(messages.slice(0, foldUpTo)),
+    };
+    return { messages: windowFor(next), summary: next, updated: true };
+  } catch (error) {
+    // Sending the longer history costs more but still works; try again next turn
+    console.warn('Could not summarise conversation context:', error);
+    return { messages: window, summary: current, updated: false };
+  }
+}
+
+/**
+ * The saved summary for a thread, from its conversation row or this instance's memory
+ */
+export function loadContextSummary(conversation: ConversationRecord | null, threadId: string): ContextSummary | null {
+  if (conversation) {
+    return conversation.context_summary && conversation.summary_fingerprint
+      ? {
+          text: conversation.context_summary,
+          messageCount: conversation.summary_message_count,
+          fingerprint: conversation.summary_fingerprint,
+        }
+      : null;
+  }
+  return anonymousSummaries.get(threadId) ?? null;
+}
+
+export async function saveContextSummary(
+  conversationId: string | null,
+  threadId: string,
+  summary: ContextSummary
+): Promise<void> {
+  if (conversationId) {
+    await conversationStore.saveSummary(conversationId, {
+      context_summary: summary.text,
+      summary_message_count: summary.messageCount,
+      summary_fingerprint: summary.fingerprint,
+    });
+    return;
+  }
+
+  // Re-insert so the map stays in least-recently-saved order
+  anonymousSummaries.delete(threadId);
+  anonymousSummaries.set(threadId, summary);
+  if (anonymousSummaries.size > MAX_ANONYMOUS_SUMMARIES) {
+    const oldest = anonymousSummaries.keys().next().value;
+    if (oldest !== undefined) {
+      anonymousSummaries.delete(oldest);
+    }
+  }
+}
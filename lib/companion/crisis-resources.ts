@@ -0,0 +1,93 @@
+// Crisis resources shown in place of a normal reply when a message signals risk.
+// Keep numbers in sync with https://findahelpline.com when editing.
+
+interface CrisisLine {
+  name: string;
+  contact: string;
+}
+
+const CRISIS_LINES: Record<string, CrisisLine[]> = {
+  US: [{ name: '988 Suicide & Crisis Lifeline', contact: 'call or text 988' }],
+  CA: [{ name: '9-8-8 Suicide Crisis Helpline', contact: 'call or text 988' }],
+  GB: [
+    { name: 'Samaritans', contact: 'call 116 123' },
+    { name: 'Shout', contact: 'text SHOUT to 85258' },
+  ],
+  IE: [{ name: 'Samaritans', contact: 'call 116 123' }],
+  AU: [{ name: 'Lifeline', contact: 'call 13 11 14' }],
+  NZ: [{ name: 'Need to talk?', contact: 'call or text 1737' }],
+  IN: [{ name: 'Tele-MANAS', contact: 'call 14416' }],
+  DE: [{ name: 'TelefonSeelsorge', contact: '0800 111 0 111' }],
+  AT: [{ name: 'TelefonSeelsorge', contact: '142' }],
+  FR: [{ name: 'Numéro national de prévention du suicide', contact: '3114' }],
+  ES: [{ name: 'Línea de atención a la conducta suicida', contact: '024' }],
+  MX: [{ name: 'Línea de la Vida', contact: '800 911 2000' }],
+};
+
+const INTERNATIONAL_DIRECTORY = 'https://findahelpline.com';
+
+type CrisisLanguage = 'en' | 'es' | 'fr' | 'de';
+
+const MESSAGES: Record<CrisisLanguage, { intro: string; lines: string; emergency: string; directory: string; closing: string }> = {
+  en: {
+    intro: "I'm really sorry you're feeling this way, and I'm glad you told me. I'm not able to give you the support you deserve right now, but people who are trained to help are available any time.",
+    lines: 'You can reach:',
+    emergency: 'If you are in immediate danger, please call your local emergency number now.',
+    directory: 'For helplines in other countries, visit',
+    closing: "If you'd like, you can keep talking to me too. You don't have to go through this alone.",
+  },
+  es: {
+    intro: 'Siento mucho que te sientas así y me alegra que me lo hayas contado. Ahora mismo no puedo darte el apoyo que mereces, pero hay personas preparadas para ayudarte en cualquier momento.',
+    lines: 'Puedes contactar con:',
+    emergency: 'Si estás en peligro inmediato, llama ahora al número de emergencias de tu país.',
+    directory: 'Para líneas de ayuda en otros países, visita',
+    closing: 'Si quieres, también puedes seguir hablando conmigo. No tienes que pasar por esto solo/a.',
+  },
+  fr: {
+    intro: "Je suis vraiment désolé que tu te sentes ainsi, et merci de me l'avoir dit. Je ne peux pas t'apporter le soutien que tu mérites en ce moment, mais des personnes formées pour aider sont disponibles à tout moment.",
+    lines: 'Tu peux contacter :',
+    emergency: "Si tu es en danger immédiat, appelle dès maintenant le numéro d'urgence local.",
+    directory: "Pour les lignes d'écoute dans d'autres pays, consulte",
+    closing: "Si tu veux, tu peux aussi continuer à me parler. Tu n'as pas à traverser ça seul(e).",
+  },
+  de: {
+    intro: 'Es tut mir sehr leid, dass es dir so geht, und danke, dass du es mir erzählt hast. Ich kann dir gerade nicht die Unterstützung geben, die du verdienst, aber geschulte Menschen sind jederzeit für dich da.',
+    lines: 'Du erreichst:',
+    emergency: 'Wenn du in unmittelbarer Gefahr bist, ruf bitte sofort den örtlichen Notruf an.',
+    directory: 'Hilfetelefone in anderen Ländern findest du unter',
+    closing: 'Wenn du möchtest, kannst du auch weiter mit mir reden. Du musst da nicht allein durch.',
+  },
+};
+
+/**
+ * Pick the language and country from an Accept-Language header, e.g. "en-GB,en;q=0.9"
+ */
+export function parseLocale(acceptLanguage: string | null | undefined): { language: CrisisLanguage; country: string | null } {
+  const preferred = (acceptLanguage || '').split(',')[0]?.split(';')[0]?.trim() || 'en';
+  const [rawLanguage, rawCountry] = preferred.split('-');
+  const language = rawLanguage.toLowerCase();
+
+  return {
+    language: Object.hasOwn(MESSAGES, language) ? (language as CrisisLanguage) : 'en',
+    country: rawCountry ? rawCountry.toUpperCase() : null,
+  };
+}
+
+/**
+ * Build the crisis resource reply for the requester's locale
+ */
+export function buildCrisisMessage(acceptLanguage: string | null | undefined): string {
+  const { language, country } = parseLocale(acceptLanguage);
+  const text = MESSAGES[language];
+  const lines = country ? CRISIS_LINES[country] : undefined;
+
+  const sections = [text.intro];
+  if (lines) {
+    sections.push(`${text.lines}\n${lines.map((line) => `- **${line.name}**: ${line.contact}`).join('\n')}`);
+  }
+  sections.push(text.emergency);
+  sections.push(`${text.directory} ${INTERNATIONAL_DIRECTORY}`);
+  sections.push(text.closing);
+
+  return sections.join('\n\n');
+}
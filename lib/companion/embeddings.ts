@@ -0,0 +1,130 @@
+import { embed } from 'ai';
+import { openai } from '@ai-sdk/openai';
+
+/**
+ * Turns text into a unit vector for similarity search
+ */
+export interface TextEmbedder {
+  // Stored with every vector; vectors from different embedders are never compared
+  id: string;
+  // Cosine similarity at or above which two questions count as the same
+  threshold: number;
+  embed(text: string): Promise<number[]>;
+}
+
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+export const openaiEmbedder: TextEmbedder = {
+  id: `openai:${OPENAI_EMBEDDING_MODEL}`,
+  threshold: 0.9,
+  async embed(text: string): Promise<number[]> {
+    const { embedding } = await embed({ model: openai.embedding(OPENAI_EMBEDDING_MODEL), value: text });
+    return embedding;
+  },
+};
+
+// Offline stand-in for tests and local development (SEMANTIC_CACHE_EMBEDDINGS=local): hashed
+// word, word-pair and character-trigram features. Deterministic and network-free; it catches
+// rewordings that share vocabulary, not true paraphrases.
+const LOCAL_DIMENSIONS = 256;
+
+// Filler that changes the wording of a question but not what is being asked: articles,
+// auxiliaries, question words and pronouns ("how do I" and "what's the best way to" ask the same)
+const LOCAL_STOPWORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'am', 'be', 'to', 'of', 'for', 'in', 'on', 'at', 'and', 'or',
+  'with', 'about', 'this', 'these', 'that', 'it', 'there',
+  'do', 'does', 'did', 'can', 'could', 'would', 'will', 'should', 'shall', 'may', 'might', 'must',
+  'what', 'how', 'when', 'which', 'who', 'why',
+  'i', 'you', 'your', 'me', 'us', 'we', 'one',
+  'able', 'please', 'hi', 'hello', 'hey', 'exactly', 'actually', 'just', 'really', 'so', 'some',
+  'any', 'tell', 'kind', 'sort', 'type', 'thing', 'things', 'best', 'way', 'good', 'ideal',
+  // Left over from contractions once apostrophes are stripped
+  's', 't', 'm', 're', 've', 'll', 'd',
+]);
+
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) {
+    return word.slice(0, -3);
+  }
+  if (word.length > 4 && word.endsWith('ed')) {
+    return word.slice(0, -2);
+  }
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+// FNV-1a: stable across runs and platforms
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function localEmbedding(text: string): number[] {
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !LOCAL_STOPWORDS.has(word))
+    .map(stem);
+
+  const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+  const add = (feature: string, weight: number) => {
+    const hash = hashFeature(feature);
+    vector[hash % LOCAL_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  words.forEach((word, i) => {
+    add(`w:${word}`, 1);
+    if (i > 0) {
+      add(`b:${words[i - 1]} ${word}`, 0.5);
+    }
+    const padded = `^${word}$`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`, 0.25);
+    }
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+export const localEmbedder: TextEmbedder = {
+  id: `local:hashed-${LOCAL_DIMENSIONS}`,
+  threshold: 0.78,
+  async embed(text: string): Promise<number[]> {
+    return localEmbedding(text);
+  },
+};
+
+export function getEmbedder(): TextEmbedder {
+  const embedder = process.env.SEMANTIC_CACHE_EMBEDDINGS === 'local' || !process.env.OPENAI_API_KEY
+    ? localEmbedder
+    : openaiEmbedder;
+
+  const threshold = Number(process.env.SEMANTIC_CACHE_THRESHOLD);
+  return threshold > 0 && threshold <= 1 ? { ...embedder, threshold } : embedder;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,610 @@
+import { after, type NextRequest } from 'next/server';
+import {
+  APICallError,
+  createDataStreamResponse,
+  formatDataStreamPart,
+  type FinishReason,
+  type JSONValue,
+} from 'ai';
+import { isModelPickerEnabled } from '@/ai/models';
+import { submitJob, type JobHandle } from '@/lib/queue/jobs';
+import { usageTracker } from '@/lib/usage-tracker';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { createClient } from '@/lib/supabase/server';
+import { conversationStore, isConversationId, type ConversationRecord } from '@/lib/conversation-store';
+import { memoryStore, type MemoryRecord } from '@/lib/memory-store';
+import { safetyEventStore } from '@/lib/safety-store';
+import { experimentStore } from '@/lib/experiment-store';
+import { feedbackStore } from '@/lib/feedback-store';
+import { generateConversationTitle } from './titles';
+import { rememberUserFacts, withUserMemories } from './memory';
+import { assessUserMessage, type SafetyAssessment } from './safety';
+import { buildCrisisMessage, parseLocale } from './crisis-resources';
+import { GuardrailStream } from './guardrails';
+import { buildContextWindow, loadContextSummary, saveContextSummary } from './context';
+import { getPrompt, getPromptVersion, promptKey, recordPromptUsage, type ResolvedPrompt } from './prompts';
+import { resolveExperiment } from './experiments';
+import { getSemanticCacheQuestion, lookupSemanticCache, rememberSemanticAnswer } from './semantic-cache';
+import { findAnnotation, type CompanionAnnotation, type QueueAnnotation, type UsageAnnotation } from './annotations';
+import { chatCompletionJob, type ChatCompletionEvent, type ChatCompletionResult } from './completion';
+import { resolveModelChain, resolveSystemPrompt, sanitizeCompanionContext, type CompanionMode } from './modes';
+
+if (!process.env.OPENAI_API_KEY) {
+  console.error('OPENAI_API_KEY environment variable is missing');
+}
+
+export interface CompanionChatMessage {
+  // UUIDs from the chat client double as the stored message IDs
+  id?: string;
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  // A dictated turn carries its voice transcript
+  annotations?: JSONValue[];
+}
+
+export interface CompanionRequestBody {
+  messages?: CompanionChatMessage[];
+  existingThreadId?: string;
+  threadId?: string | null;
+  context?: unknown;
+  // Per-session model choice; honoured when the picker is enabled or the caller is an admin
+  model?: unknown;
+  // Analytics IDs from lib/analytics.ts; the visitor ID also picks the experiment variant
+  visitorId?: unknown;
+  sessionId?: unknown;
+  // Replace the last assistant reply instead of answering a new user turn
+  regenerate?: unknown;
+}
+
+type DataStreamPartString = ReturnType<typeof formatDataStreamPart>;
+type CompletionPart = IteratorResult<ChatCompletionEvent>;
+
+// A reply still waiting for a free slot on the chat queue after this long opens the stream
+// early to show its place in line; replies that start sooner keep their model in the headers
+const QUEUE_STATUS_DELAY_MS = 500;
+const QUEUE_POSITION_POLL_MS = 1000;
+
+/**
+ * Stream a fixed reply (intro, crisis resources) as a one-part data stream message
+ */
+export function textStreamResponse(
+  text: string,
+  init: { headers?: Record<string, string>; annotations?: CompanionAnnotation[]; messageId?: string } = {}
+): Response {
+  return createDataStreamResponse({
+    headers: init.headers,
+    execute: (dataStream) => {
+      // The client adopts the step's message ID, matching the one the reply was stored under
+      if (init.messageId) {
+        dataStream.write(formatDataStreamPart('start_step', { messageId: init.messageId }));
+      }
+      dataStream.write(formatDataStreamPart('text', text));
+      init.annotations?.forEach((annotation) => dataStream.writeMessageAnnotation(annotation));
+      dataStream.write(formatDataStreamPart('finish_message', { finishReason: 'stop' }));
+    },
+  });
+}
+
+/**
+ * Reject a request before any stream starts; useChat raises the body as the error message
+ */
+export function errorResponse(message: string, status: number): Response {
+  return new Response(message, {
+    status,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+}
+
+/**
+ * Map provider errors to a message that is safe to show in the chat
+ */
+export function toUserFriendlyError(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return 'An unexpected error occurred';
+  }
+
+  const { message } = error;
+  const statusCode = APICallError.isInstance(error) ? error.statusCode : undefined;
+  if (statusCode === 429 || message.includes('rate_limit_exceeded') || message.includes('quota')) {
+    return 'Model API rate limit exceeded. You have exceeded your current quota. Please check your plan and billing details.';
+  }
+  if (statusCode === 401 || message.includes('authentication')) {
+    return 'Model API authentication failed. Please check your API key configuration.';
+  }
+  return `Model API error: ${message}`;
+}
+
+async function getUserId(): Promise<string | undefined> {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    return user?.id;
+  } catch (error) {
+    console.warn('Could not get user for usage tracking:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Answer with crisis resources instead of a completion, flag the thread and record the event
+ */
+async function escalateToCrisisResources(
+  request: Request,
+  mode: CompanionMode,
+  assessment: SafetyAssessment,
+  message: string,
+  threadId: string,
+  conversationId: string | null,
+  userId: string | undefined,
+  placement: { id: string; parentId: string | null }
+): Promise<Response> {
+  const acceptLanguage = request.headers.get('accept-language');
+  const crisisMessage = buildCrisisMessage(acceptLanguage);
+  const { language, country } = parseLocale(acceptLanguage);
+
+  if (conversationId && userId) {
+    await conversationStore.appendMessage(conversationId, userId, 'assistant', crisisMessage, placement);
+    await conversationStore.flagConversation(conversationId);
+  }
+
+  await safetyEventStore.recordEvent({
+    user_id: userId ?? null,
+    thread_id: threadId,
+    mode: mode.id,
+    source: assessment.source ?? 'keywords',
+    categories: assessment.categories,
+    excerpt: message,
+    locale: country ? `${language}-${country}` : language,
+  });
+
+  return textStreamResponse(crisisMessage, {
+    headers: {
+      'X-Thread-Id': threadId,
+      'X-Safety-Escalation': 'crisis',
+    },
+    annotations: [{ type: 'safety', escalation: 'crisis' }],
+    messageId: placement.id,
+  });
+}
+
+/**
+ * Answer an opening question with an approved semantic cache entry instead of a completion
+ */
+async function answerFromSemanticCache(
+  answer: string,
+  question: string,
+  prompt: ResolvedPrompt,
+  threadId: string,
+  conversationId: string | null,
+  userId: string | undefined,
+  needsTitle: boolean,
+  placement: { id: string; parentId: string | null }
+): Promise<Response> {
+  if (conversationId && userId) {
+    await conversationStore.appendMessage(conversationId, userId, 'assistant', answer, placement);
+    if (needsTitle) {
+      await conversationStore.updateConversation(conversationId, {
+        title: await generateConversationTitle(question, answer),
+      });
+    }
+  }
+
+  await recordPromptUsage([prompt], { channel: 'chat', user_id: userId ?? null, thread_id: threadId });
+
+  return textStreamResponse(answer, {
+    headers: {
+      'X-Thread-Id': threadId,
+      'X-Semantic-Cache': 'hit',
+    },
+    messageId: placement.id,
+  });
+}
+
+function delay(ms: number): Promise<null> {
+  return new Promise((resolve) => setTimeout(() => resolve(null), ms));
+}
+
+/**
+ * Wait for the completion's first event, reporting its place in line whenever it changes
+ * and 0 once it has started
+ */
+async function waitInLine(
+  completion: JobHandle<ChatCompletionResult, ChatCompletionEvent>,
+  first: Promise<CompletionPart>,
+  report: (position: number) => void
+): Promise<CompletionPart> {
+  let reported: number | null = null;
+  while (true) {
+    const position = await completion.position();
+    if (position !== null && position !== reported) {
+      report(position);
+      reported = position;
+    }
+
+    const next = await Promise.race([first, delay(QUEUE_POSITION_POLL_MS)]);
+    if (next) {
+      if (reported !== null) {
+        report(0);
+      }
+      return next;
+    }
+  }
+}
+
+function toStartEvent(part: CompletionPart): Extract<ChatCompletionEvent, { type: 'start' }> {
+  if (part.done || part.value.type !== 'start') {
+    throw new Error('The completion ended before any output');
+  }
+  return part.value;
+}
+
+/**
+ * Serve a chat request for a registered companion mode
+ */
+export async function handleCompanionRequest(request: NextRequest, mode: CompanionMode): Promise<Response> {
+  try {
+    const body: CompanionRequestBody = await request.json();
+    const { messages, context } = body;
+
+    if (!messages || !Array.isArray(messages)) {
+      return errorResponse('Invalid messages format', 400);
+    }
+
+    const requestedThreadId = body.existingThreadId || body.threadId || null;
+
+    // Intro path: only the client-side system message has been sent so far
+    const isFirstMessage = messages.length === 1 && messages[0].role === 'system';
+    if (isFirstMessage) {
+      const threadId = requestedThreadId || crypto.randomUUID();
+      const intro = await getPrompt(promptKey(mode.id, 'intro'));
+      await recordPromptUsage([intro], { channel: 'chat', user_id: (await getUserId()) ?? null, thread_id: threadId });
+      return textStreamResponse(intro.content, {
+        headers: { 'X-Thread-Id': threadId },
+      });
+    }
+
+    const userId = await getUserId();
+
+    // Signed-in users get their turns saved; anonymous clients keep history locally
+    let conversation: ConversationRecord | null = null;
+    let needsTitle = false;
+    let memories: MemoryRecord[] = [];
+    const lastMessage = messages[messages.length - 1];
+    // Where the new turns sit in the thread's message tree: the user turn follows whatever the
+    // client sent before it (an edited turn follows the edited one's parent), the reply follows it
+    const previousMessage = messages.length > 1 ? messages[messages.length - 2] : undefined;
+    const userMessageId = isConversationId(lastMessage?.id) ? lastMessage.id : crypto.randomUUID();
+    const replyPlacement = { id: crypto.randomUUID(), parentId: userMessageId };
+    if (userId) {
+      memories = await memoryStore.listMemories(userId);
+      conversation = await conversationStore.resolveConversation(userId, mode.id, requestedThreadId);
+      needsTitle = !!conversation && !conversation.title;
+
+      if (conversation && lastMessage?.role === 'user') {
+        // A regenerated reply answers the user turn already saved in the thread, and is saved
+        // next to the earlier replies as another branch
+        if (body.regenerate !== true || conversation.id !== requestedThreadId) {
+          await conversationStore.appendMessage(conversation.id, userId, 'user', lastMessage.content, {
+            id: userMessageId,
+            parentId: isConversationId(previousMessage?.id) && previousMessage.role !== 'system' ? previousMessage.id : null,
+            transcript: findAnnotation(lastMessage.annotations, 'transcript')?.text ?? null,
+          });
+        }
+      }
+    }
+    const conversationId = conversation?.id ?? null;
+    const threadId = conversationId || requestedThreadId || crypto.randomUUID();
+
+    // Safety stage: risky messages never reach the completion
+    if (lastMessage?.role === 'user') {
+      const assessment = await assessUserMessage(lastMessage.content);
+      if (assessment.flagged) {
+        return escalateToCrisisResources(
+          request, mode, assessment, lastMessage.content, threadId, conversationId, userId, replyPlacement
+        );
+      }
+    }
+
+    const visitorId = typeof body.visitorId === 'string' ? body.visitorId : undefined;
+    const sessionId = typeof body.sessionId === 'string' ? body.sessionId : undefined;
+    const allowModelChoice = isModelPickerEnabled() || isAdminRequest(request);
+    const requestedModel = allowModelChoice && body.model ? body.model : undefined;
+
+    // Sessions on a hand-picked model stay out of experiments so the arms compare like with like
+    const experiment = requestedModel ? null : await resolveExperiment(mode.id, visitorId);
+    const modelChain = resolveModelChain(mode, requestedModel ?? experiment?.variant.model ?? undefined);
+    const pinnedPrompt = experiment?.variant.promptVersionId
+      ? await getPromptVersion(experiment.variant.promptVersionId)
+      : null;
+
+    const basePrompt = pinnedPrompt ?? (await getPrompt(promptKey(mode.id, 'system')));
+
+    // Opening FAQ questions may be answered from the semantic cache. Picked models and
+    // experiment arms always reach a model, as does a regenerated reply.
+    const semanticQuestion = requestedModel || experiment || body.regenerate === true
+      ? null
+      : getSemanticCacheQuestion(mode, messages);
+    const semanticLookup = semanticQuestion
+      ? await lookupSemanticCache(mode.id, basePrompt.versionId, semanticQuestion).catch((error) => {
+        console.error('Semantic cache lookup failed:', error);
+        return null;
+      })
+      : null;
+    if (semanticLookup?.match?.entry.status === 'approved') {
+      return answerFromSemanticCache(
+        semanticLookup.match.entry.answer, semanticLookup.question, basePrompt,
+        threadId, conversationId, userId, needsTitle, replyPlacement
+      );
+    }
+
+    // Long threads send a rolling summary in place of their older turns
+    const systemPrompt = withUserMemories(
+      resolveSystemPrompt(mode, sanitizeCompanionContext(context), basePrompt.content),
+      memories
+    );
+    const contextWindow = await buildContextWindow({
+      modelId: modelChain[0],
+      systemPrompt,
+      // Assistant turns that were only tool calls have no text to replay
+      messages: messages.filter((m) => m.role !== 'assistant' || m.content),
+      maxTokens: mode.maxTokens,
+      summary: loadContextSummary(conversation, threadId),
+    });
+    if (contextWindow.updated && contextWindow.summary) {
+      await saveContextSummary(conversationId, threadId, contextWindow.summary);
+    }
+
+    // The completion runs as a job (in this process, or on the queue worker with JOB_RUNNER=bull)
+    // and its events are relayed as they arrive. A job that fails before its start event,
+    // such as every provider failing, becomes a 500 response, or an error part once the stream
+    // has opened to show the queue position. The chat's stop() aborts the request, which
+    // cancels the job.
+    const completion = await submitJob(chatCompletionJob, {
+      mode: mode.id,
+      modelChain,
+      systemPrompt: { key: basePrompt.key, versionId: basePrompt.versionId, content: systemPrompt },
+      messages: contextWindow.messages.map((m) => ({ role: m.role, content: m.content })),
+      userId: userId ?? null,
+      threadId,
+      useCache: body.regenerate !== true,
+    }, { signal: request.signal });
+    const parts = completion.events[Symbol.asyncIterator]();
+    const first = parts.next();
+    let early = await Promise.race([first, delay(QUEUE_STATUS_DELAY_MS)]);
+    // A job that is already running holds the response until its first output, as a direct
+    // model call would; only one waiting in line opens the stream early
+    while (!early && (await completion.position()) === null) {
+      early = await Promise.race([first, delay(QUEUE_POSITION_POLL_MS)]);
+    }
+    // Stopped from the chat before the reply started
+    if (request.signal.aborted) {
+      return errorResponse('Request cancelled', 499);
+    }
+    const startedPromptly = early && toStartEvent(early);
+
+    const requestId = `${mode.id}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let finishReason: FinishReason = 'unknown';
+    let usedTools = false;
+    // What the client actually received, after guardrails
+    let responseContent = '';
+    const guardrail = mode.guardrails ? new GuardrailStream(mode.guardrails) : null;
+
+    return createDataStreamResponse({
+      headers: {
+        'X-Thread-Id': threadId,
+        ...(startedPromptly && { 'X-Model-Id': startedPromptly.modelId }),
+        ...(startedPromptly?.cached && { 'X-Response-Cache': 'hit' }),
+      },
+      execute: async (dataStream) => {
+        let start = startedPromptly;
+        if (!start) {
+          const next = await waitInLine(completion, first, (position) => {
+            const annotation: QueueAnnotation = { type: 'queue', position };
+            dataStream.writeMessageAnnotation(annotation);
+          });
+          // Stopped from the chat while waiting; the job is gone and nobody is listening
+          if (request.signal.aborted) {
+            return;
+          }
+          start = toStartEvent(next);
+        }
+        const { modelId, failedOver } = start;
+
+        const emit = (text: string) => {
+          if (text) {
+            responseContent += text;
+            dataStream.write(formatDataStreamPart('text', text));
+          }
+        };
+        // Nothing but the closing message and finish parts follows a guardrail cutoff
+        const write = (part: DataStreamPartString) => {
+          if (!guardrail?.isCutOff) {
+            dataStream.write(part);
+          }
+        };
+
+        // After a cutoff keep draining the stream (discarding output) so the usage still arrives
+        for (let next = await parts.next(); !next.done; next = await parts.next()) {
+          const part = next.value;
+          switch (part.type) {
+            case 'text-delta':
+              emit(guardrail ? await guardrail.push(part.textDelta) : part.textDelta);
+              break;
+            // Guardrails vet answers sentence by sentence, not a model's chain of thought,
+            // so reasoning is only shown in modes without them
+            case 'reasoning':
+              if (!guardrail) {
+                write(formatDataStreamPart('reasoning', part.textDelta));
+              }
+              break;
+            case 'reasoning-signature':
+              if (!guardrail) {
+                write(formatDataStreamPart('reasoning_signature', { signature: part.signature }));
+              }
+              break;
+            case 'redacted-reasoning':
+              if (!guardrail) {
+                write(formatDataStreamPart('redacted_reasoning', { data: part.data }));
+              }
+              break;
+            case 'step-start':
+              // Step boundaries let the client tell a finished tool round trip from one it must run itself;
+              // every step carries the stored reply's ID so the client message matches it
+              write(formatDataStreamPart('start_step', { messageId: replyPlacement.id }));
+              break;
+            case 'tool-call':
+              usedTools = true;
+              // Release buffered text first so it renders before the tool call
+              if (guardrail) {
+                emit(await guardrail.flush());
+              }
+              write(formatDataStreamPart('tool_call', { toolCallId: part.toolCallId, toolName: part.toolName, args: part.args }));
+              break;
+            case 'tool-result':
+              write(formatDataStreamPart('tool_result', { toolCallId: part.toolCallId, result: part.result }));
+              break;
+            case 'step-finish':
+              if (guardrail) {
+                emit(await guardrail.flush());
+              }
+              write(formatDataStreamPart('finish_step', {
+                finishReason: part.finishReason,
+                usage: part.usage,
+                isContinued: part.isContinued,
+              }));
+              break;
+            case 'finish':
+              finishReason = part.finishReason;
+              inputTokens = part.usage.promptTokens;
+              outputTokens = part.usage.completionTokens;
+              break;
+          }
+        }
+        if (guardrail) {
+          emit(await guardrail.flush());
+        }
+
+        if (conversationId && userId && responseContent) {
+          await conversationStore.appendMessage(conversationId, userId, 'assistant', responseContent, replyPlacement);
+
+          // Title the thread from its first exchange before the client refreshes its sidebar
+          if (needsTitle && lastMessage?.role === 'user') {
+            const title = await generateConversationTitle(lastMessage.content, responseContent);
+            await conversationStore.updateConversation(conversationId, { title });
+          }
+        }
+
+        if (guardrail && guardrail.violations.length > 0) {
+          console.warn(`Guardrails changed ${mode.id} output:`, guardrail.violations.map((v) => v.ruleId));
+          await safetyEventStore.recordGuardrailViolations(guardrail.violations.map((violation) => ({
+            user_id: userId ?? null,
+            thread_id: threadId,
+            mode: mode.id,
+            rule_id: violation.ruleId,
+            action: violation.action,
+            source: violation.source,
+            excerpt: violation.excerpt,
+          })));
+        }
+
+        // A new opening question is kept for review, unless its answer drew on the user's
+        // memories or tools, or was cut short or rewritten
+        if (
+          semanticLookup && !semanticLookup.match && memories.length === 0 && !usedTools &&
+          !guardrail?.violations.length && finishReason === 'stop' && responseContent
+        ) {
+          await rememberSemanticAnswer(semanticLookup, {
+            mode: mode.id,
+            promptVersionId: basePrompt.versionId,
+            answer: responseContent,
+            modelId,
+          });
+        }
+
+        // Ratings of this reply are attributed from this record, not from what the client sends
+        if (responseContent) {
+          await feedbackStore.recordReply({
+            message_id: replyPlacement.id,
+            thread_id: threadId,
+            mode: mode.id,
+            user_id: userId ?? null,
+            visitor_id: visitorId ?? null,
+            model_id: modelId,
+            prompt_version_id: basePrompt.versionId,
+            experiment_id: experiment?.experimentId ?? null,
+            experiment_variant: experiment?.variant.id ?? null,
+            excerpt: responseContent,
+          });
+        }
+
+        if (inputTokens + outputTokens > 0) {
+          await usageTracker.trackUsage({
+            user_id: userId,
+            api_type: 'text',
+            model: modelId,
+            tokens_used: inputTokens + outputTokens,
+            input_tokens: inputTokens,
+            output_tokens: outputTokens,
+            request_id: requestId,
+            experiment_id: experiment?.experimentId,
+            experiment_variant: experiment?.variant.id,
+            metadata: {
+              mode: mode.id,
+              thread_id: threadId,
+              ...(failedOver.length > 0 && { failed_over_from: failedOver }),
+              prompt_version: basePrompt.version,
+              message_count: messages.length,
+              response_length: responseContent.length,
+            },
+          });
+        }
+
+        await recordPromptUsage([basePrompt], { channel: 'chat', user_id: userId ?? null, thread_id: threadId });
+
+        if (visitorId && sessionId) {
+          await experimentStore.recordEngagement({
+            visitor_id: visitorId,
+            user_id: userId ?? null,
+            session_id: sessionId,
+            service_used: `chat_${mode.id}`,
+            environment: process.env.NODE_ENV === 'production' ? 'prod' : 'dev',
+            timestamp: new Date().toISOString(),
+            user_agent: request.headers.get('user-agent'),
+            ip_address: request.headers.get('x-forwarded-for')?.split(',')[0] || request.headers.get('x-real-ip'),
+            experiment_id: experiment?.experimentId ?? null,
+            experiment_variant: experiment?.variant.id ?? null,
+          });
+        }
+
+        const usage = { promptTokens: inputTokens, completionTokens: outputTokens };
+        const usageAnnotation: UsageAnnotation = {
+          type: 'usage',
+          modelId,
+          failedOverFrom: failedOver,
+          finishReason,
+          ...usage,
+          promptVersionId: basePrompt.versionId,
+          experiment: experiment && { id: experiment.experimentId, variant: experiment.variant.id },
+        };
+        dataStream.writeMessageAnnotation(usageAnnotation);
+        dataStream.write(formatDataStreamPart('finish_message', { finishReason, usage }));
+
+        // Learn durable facts about the user once the reply is complete. The stream closes
+        // without waiting; after() keeps a serverless function alive until this finishes.
+        if (userId && responseContent && lastMessage?.role === 'user') {
+          const userText = lastMessage.content;
+          after(() => rememberUserFacts(userId, memories, userText, responseContent));
+        }
+      },
+      onError: (error) => {
+        console.error('Streaming error:', error);
+        return toUserFriendlyError(error);
+      },
+    });
+  } catch (error) {
+    console.error(`Error in ${mode.id} companion API:`, error);
+    return errorResponse(toUserFriendlyError(error), 500);
+  }
+}
@@ -0,0 +1,66 @@
+import { createHash } from 'crypto';
+import { experimentStore, type ExperimentRecord } from '@/lib/experiment-store';
+import type { ExperimentVariant } from '@/lib/supabase';
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  variant: ExperimentVariant;
+}
+
+// Running experiments are re-read at most this often per server instance
+const EXPERIMENT_CACHE_TTL_MS = 60 * 1000;
+
+const cache = new Map<string, { experiment: ExperimentRecord | null; expiresAt: number }>();
+
+async function getRunningExperiment(mode: string): Promise<ExperimentRecord | null> {
+  const cached = cache.get(mode);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.experiment;
+  }
+
+  let experiment: ExperimentRecord | null = null;
+  try {
+    experiment = await experimentStore.getRunning(mode);
+  } catch (error) {
+    console.error(`Error loading running experiment for ${mode}:`, error);
+    // Keep the last known assignment rules rather than dropping visitors out mid-outage
+    experiment = cached?.experiment ?? null;
+  }
+
+  cache.set(mode, { experiment, expiresAt: Date.now() + EXPERIMENT_CACHE_TTL_MS });
+  return experiment;
+}
+
+/**
+ * Pick a variant from a stable hash of the visitor, so a visitor stays in the same
+ * arm across sessions and server instances
+ */
+export function assignVariant(experiment: ExperimentRecord, visitorId: string): ExperimentVariant {
+  const hash = createHash('sha256').update(`${experiment.id}:${visitorId}`).digest();
+  const bucket = hash.readUInt32BE(0) % 100;
+  const [a, b] = experiment.variants;
+  return bucket < experiment.split ? a : b;
+}
+
+/**
+ * The experiment arm a visitor's chat in this mode runs on, if the mode has an experiment running
+ */
+export async function resolveExperiment(mode: string, visitorId: string | undefined): Promise<ExperimentAssignment | null> {
+  if (!visitorId) {
+    return null;
+  }
+
+  const experiment = await getRunningExperiment(mode);
+  if (!experiment) {
+    return null;
+  }
+
+  return { experimentId: experiment.id, variant: assignVariant(experiment, visitorId) };
+}
+
+/**
+ * Drop a mode's cached experiment so this instance sees a start or stop immediately
+ */
+export function invalidateExperiment(mode: string): void {
+  cache.delete(mode);
+}
@@ -0,0 +1,64 @@
+// Per-message ratings of assistant replies. The reasons and helpers here are shared by the
+// chat controls, the feedback API and the admin analytics breakdown
+
+export const FEEDBACK_REASONS = {
+  'not-helpful': 'Not helpful',
+  inaccurate: 'Inaccurate',
+  'tone-off': 'Tone felt off',
+  'too-long': 'Too long',
+  'ignored-request': 'Missed what I asked',
+  unsafe: 'Unsafe or inappropriate',
+} as const;
+
+export type FeedbackReason = keyof typeof FEEDBACK_REASONS;
+
+export type FeedbackRating = 'up' | 'down';
+
+export function isFeedbackReason(reason: unknown): reason is FeedbackReason {
+  return typeof reason === 'string' && Object.prototype.hasOwnProperty.call(FEEDBACK_REASONS, reason);
+}
+
+// Longest free-text comment stored with a rating
+export const MAX_FEEDBACK_COMMENT_LENGTH = 1000;
+
+// The server attributes the rating to the reply's mode, model, prompt version and experiment
+export interface MessageFeedback {
+  messageId: string;
+  visitorId: string;
+  rating: FeedbackRating;
+  reason?: FeedbackReason | null;
+  comment?: string | null;
+}
+
+/**
+ * Save (or replace) a rating from the browser
+ */
+export async function submitFeedback(feedback: MessageFeedback): Promise<boolean> {
+  try {
+    const response = await fetch('/api/feedback', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(feedback),
+    });
+    return response.ok;
+  } catch (error) {
+    console.error('Error submitting feedback:', error);
+    return false;
+  }
+}
+
+export async function withdrawFeedback(messageId: string, visitorId: string): Promise<boolean> {
+  try {
+    const response = await fetch('/api/feedback', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ messageId, visitorId }),
+    });
+    return response.ok;
+  } catch (error) {
+    console.error('Error withdrawing feedback:', error);
+    return false;
+  }
+}
@@ -0,0 +1,239 @@
+import OpenAI from 'openai';
+
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+});
+
+const JUDGE_MODEL = 'gpt-4o-mini';
+
+/**
+ * What to do with a sentence that breaks a rule:
+ * - rewrite: replace the matched words and keep the sentence
+ * - redact: drop the whole sentence (optionally leaving a replacement)
+ * - cutoff: stop the response here and close with the replacement
+ */
+export type GuardrailAction = 'rewrite' | 'redact' | 'cutoff';
+
+export interface GuardrailRule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+  action: GuardrailAction;
+  replacement?: string | ((match: string) => string);
+}
+
+export interface GuardrailPolicy {
+  rules: GuardrailRule[];
+  // Ask a model to check sentences the regex rules let through (also needs GUARDRAIL_LLM_JUDGE=true)
+  judge?: {
+    instructions: string;
+  };
+}
+
+export interface GuardrailViolation {
+  ruleId: string;
+  action: GuardrailAction;
+  source: 'regex' | 'judge';
+  excerpt: string;
+}
+
+// Matches the end of a sentence (with trailing quotes/brackets and whitespace) or a line break
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s+|\n+/g;
+
+// Run-on text without punctuation is checked in pieces of at most this many characters
+const MAX_BUFFER_LENGTH = 400;
+
+function keepCase(original: string, replacement: string): string {
+  return original[0] === original[0].toUpperCase()
+    ? replacement[0].toUpperCase() + replacement.slice(1)
+    : replacement;
+}
+
+const SOFTER_PHRASES: Record<string, string> = {
+  'you should': 'you could',
+  'you must': 'you might',
+  'you need to': 'it could help to',
+  'you have to': 'it might help to',
+};
+
+export const WELLBEING_RULES: GuardrailRule[] = [
+  {
+    id: 'treatment-advice',
+    description: 'Medication or treatment advice',
+    pattern: /\b(take|try|start|increase|reduce|stop taking|come off)\b[^.!?\n]{0,60}\b(\d+ ?mg|milligrams?|ssris?|snris?|antidepressants?|benzodiazepines?|sertraline|fluoxetine|citalopram|escitalopram|xanax|alprazolam|diazepam|lorazepam|melatonin|medication|meds)\b/i,
+    action: 'cutoff',
+    replacement: "I'm not able to advise on medication or treatment — a doctor or pharmacist is the right person to talk that through with.",
+  },
+  {
+    id: 'diagnosis',
+    description: 'Diagnosing the user with a condition',
+    pattern: /\b(you|you're|you are)\b[^.!?\n]{0,40}\b(have|suffering from|showing (signs|symptoms) of|diagnosed with|sounds like)\b[^.!?\n]{0,30}\b(clinical depression|depression|an? anxiety disorder|generalized anxiety|ptsd|adhd|bipolar|ocd|a personality disorder|a mental (illness|disorder)|burnout syndrome)\b/i,
+    action: 'redact',
+    replacement: "It sounds like you're carrying a lot right now. ",
+  },
+  {
+    id: 'commanding-language',
+    description: 'Commanding "you should/must" language',
+    pattern: /\byou (should|must|need to|have to)\b/gi,
+    action: 'rewrite',
+    replacement: (match) => keepCase(match, SOFTER_PHRASES[match.toLowerCase()] ?? match),
+  },
+];
+
+export const WELLBEING_GUARDRAILS: GuardrailPolicy = {
+  rules: WELLBEING_RULES,
+  judge: {
+    instructions: 'The assistant is a supportive companion, not a therapist. It must not diagnose, give medical or treatment advice, offer crisis counselling, use commanding "you should/must" language, or use toxic positivity.',
+  },
+};
+
+function isJudgeEnabled(policy: GuardrailPolicy): boolean {
+  return !!policy.judge && process.env.GUARDRAIL_LLM_JUDGE === 'true';
+}
+
+async function judgeSentence(
+  sentence: string,
+  instructions: string
+): Promise<{ verdict: 'allow' | 'rewrite' | 'block'; rewrite?: string }> {
+  try {
+    const completion = await openai.chat.completions.create({
+      model: JUDGE_MODEL,
+      messages: [
+        {
+          role: 'system',
+          content: `${instructions}\nCheck one sentence of the assistant's reply. Respond with JSON: {"verdict": "allow" | "rewrite" | "block", "rewrite": "compliant version of the sentence, only when verdict is rewrite"}.`,
+        },
+        { role: 'user', content: sentence },
+      ],
+      response_format: { type: 'json_object' },
+      temperature: 0,
+      max_tokens: 150,
+    });
+
+    const parsed = JSON.parse(completion.choices[0]?.message?.content || '{}');
+    if (parsed.verdict === 'rewrite' && typeof parsed.rewrite === 'string') {
+      return { verdict: 'rewrite', rewrite: parsed.rewrite };
+    }
+    return { verdict: parsed.verdict === 'block' ? 'block' : 'allow' };
+  } catch (error) {
+    // Fail open: the regex rules have already run
+    console.warn('Guardrail judge unavailable:', error);
+    return { verdict: 'allow' };
+  }
+}
+
+/**
+ * Buffers streamed text into sentences and applies a guardrail policy
+ * before anything is sent to the client
+ */
+export class GuardrailStream {
+  private buffer = '';
+  private stopped = false;
+  readonly violations: GuardrailViolation[] = [];
+
+  constructor(private policy: GuardrailPolicy) {}
+
+  /**
+   * True once a cutoff rule fired; later text must be discarded
+   */
+  get isCutOff(): boolean {
+    return this.stopped;
+  }
+
+  /**
+   * Add streamed text; returns the checked text that is safe to emit now
+   */
+  async push(text: string): Promise<string> {
+    if (this.stopped) {
+      return '';
+    }
+
+    this.buffer += text;
+    const sentences: string[] = [];
+    let consumed = 0;
+
+    SENTENCE_END.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = SENTENCE_END.exec(this.buffer)) !== null) {
+      const end = match.index + match[0].length;
+      sentences.push(this.buffer.slice(consumed, end));
+      consumed = end;
+    }
+    this.buffer = this.buffer.slice(consumed);
+
+    if (this.buffer.length > MAX_BUFFER_LENGTH) {
+      sentences.push(this.buffer);
+      this.buffer = '';
+    }
+
+    return this.checkSentences(sentences);
+  }
+
+  /**
+   * Check whatever is left once the model has finished
+   */
+  async flush(): Promise<string> {
+    if (this.stopped || !this.buffer) {
+      return '';
+    }
+    const rest = this.buffer;
+    this.buffer = '';
+    return this.checkSentences([rest]);
+  }
+
+  private async checkSentences(sentences: string[]): Promise<string> {
+    let output = '';
+    for (const sentence of sentences) {
+      output += await this.checkSentence(sentence);
+      if (this.stopped) {
+        break;
+      }
+    }
+    return output;
+  }
+
+  private async checkSentence(sentence: string): Promise<string> {
+    if (!sentence.trim()) {
+      return sentence;
+    }
+
+    let checked = sentence;
+    for (const rule of this.policy.rules) {
+      rule.pattern.lastIndex = 0;
+      if (!rule.pattern.test(checked)) {
+        continue;
+      }
+
+      this.violations.push({ ruleId: rule.id, action: rule.action, source: 'regex', excerpt: sentence.trim() });
+      const replacement = typeof rule.replacement === 'string' ? rule.replacement : '';
+
+      if (rule.action === 'cutoff') {
+        this.stopped = true;
+        return replacement;
+      }
+      if (rule.action === 'redact') {
+        return replacement;
+      }
+
+      rule.pattern.lastIndex = 0;
+      checked = typeof rule.replacement === 'function'
+        ? checked.replace(rule.pattern, rule.replacement)
+        : checked.replace(rule.pattern, replacement);
+    }
+
+    if (this.policy.judge && isJudgeEnabled(this.policy)) {
+      const { verdict, rewrite } = await judgeSentence(checked, this.policy.judge.instructions);
+      if (verdict === 'block') {
+        this.violations.push({ ruleId: 'llm-judge', action: 'redact', source: 'judge', excerpt: sentence.trim() });
+        return '';
+      }
+      if (verdict === 'rewrite' && rewrite) {
+        this.violations.push({ ruleId: 'llm-judge', action: 'rewrite', source: 'judge', excerpt: sentence.trim() });
+        // Keep the original spacing so the following sentence doesn't run on
+        return rewrite.trim() + (checked.match(/\s*$/)?.[0] ?? '');
+      }
+    }
+
+    return checked;
+  }
+}
@@ -0,0 +1,116 @@
+import OpenAI from 'openai';
+import { isMemoryCategory, memoryStore, type MemoryCategory, type MemoryRecord } from '@/lib/memory-store';
+
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+});
+
+const EXTRACTION_MODEL = 'gpt-4o-mini';
+
+// Keep the prompt block compact: oldest facts drop out first once a user has many
+const MAX_PROMPT_MEMORIES = 30;
+
+const CATEGORY_LABELS: Record<MemoryCategory, string> = {
+  name: 'Name',
+  role: 'Role',
+  company: 'Company',
+  stressor: 'Recurring stressor',
+  preference: 'Preference',
+  other: 'Other',
+};
+
+const EXTRACTION_PROMPT = `You maintain a companion's long-term memory about the user.
+From the latest exchange, extract durable facts about the user that will still be true in future sessions: their name, job role, company, recurring stressors, and preferences (e.g. how they like to be addressed or advised).
+Ignore one-off details, the companion's own statements, and anything about other people unless it is a recurring stressor for the user.
+Do not repeat facts already known. If a new fact corrects a known one, set "replaces" to the known fact's id.
+Respond with JSON: {"facts": [{"category": "name" | "role" | "company" | "stressor" | "preference" | "other", "fact": "short third-person sentence", "replaces": "id or null"}]}. Return {"facts": []} when there is nothing new.`;
+
+interface ExtractedFact {
+  category: MemoryCategory;
+  fact: string;
+  replaces: string | null;
+}
+
+/**
+ * Append a "what I know about you" block to a system prompt
+ */
+export function withUserMemories(systemPrompt: string, memories: MemoryRecord[]): string {
+  if (memories.length === 0) {
+    return systemPrompt;
+  }
+
+  const lines = memories
+    .slice(-MAX_PROMPT_MEMORIES)
+    .map((memory) => `- ${CATEGORY_LABELS[memory.category]}: ${memory.fact}`);
+
+  return `${systemPrompt}
+
+WHAT I KNOW ABOUT YOU (from earlier sessions; use naturally, never recite the list, and defer to anything the user says now):
+${lines.join('\n')}`;
+}
+
+function parseExtractedFacts(raw: string | null | undefined): ExtractedFact[] {
+  if (!raw) {
+    return [];
+  }
+
+  const parsed = JSON.parse(raw);
+  if (!Array.isArray(parsed?.facts)) {
+    return [];
+  }
+
+  return parsed.facts
+    .filter((item: unknown): item is { category: unknown; fact: string; replaces?: unknown } =>
+      typeof item === 'object' && item !== null && typeof (item as { fact?: unknown }).fact === 'string'
+    )
+    .map((item: { category: unknown; fact: string; replaces?: unknown }) => ({
+      category: isMemoryCategory(item.category) ? item.category : 'other',
+      fact: item.fact.trim(),
+      replaces: typeof item.replaces === 'string' ? item.replaces : null,
+    }))
+    .filter((item: ExtractedFact) => item.fact.length > 0);
+}
+
+/**
+ * Run an extraction pass over the latest exchange and store any new durable facts.
+ * Never throws: memory is best-effort and must not break the chat.
+ */
+export async function rememberUserFacts(
+  userId: string,
+  knownMemories: MemoryRecord[],
+  userText: string,
+  assistantText: string
+): Promise<void> {
+  try {
+    const known = knownMemories.map((memory) => ({ id: memory.id, category: memory.category, fact: memory.fact }));
+    const completion = await openai.chat.completions.create({
+      model: EXTRACTION_MODEL,
+      messages: [
+        { role: 'system', content: EXTRACTION_PROMPT },
+        {
+          role: 'user',
+          content: `Known facts: ${JSON.stringify(known)}\n\nUser: ${userText.slice(0, 2000)}\n\nCompanion: ${assistantText.slice(0, 1000)}`,
+        },
+      ],
+      response_format: { type: 'json_object' },
+      temperature: 0,
+      max_tokens: 300,
+    });
+
+    const facts = parseExtractedFacts(completion.choices[0]?.message?.content);
+    const knownIds = new Set(known.map((memory) => memory.id));
+
+    const additions: { category: MemoryCategory; fact: string }[] = [];
+    for (const { category, fact, replaces } of facts) {
+      if (replaces && knownIds.has(replaces)) {
+        await memoryStore.updateMemory(replaces, fact);
+      } else {
+        additions.push({ category, fact });
+      }
+    }
+
+    await memoryStore.addMemories(userId, additions);
+  } catch (error) {
+    console.warn('Could not extract user memories:', error);
+  }
+}
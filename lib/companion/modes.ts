@@ -0,0 +1,195 @@
+import {
+  corporate as corporatePrompt,
+  emotional as emotionalPrompt,
+  travel as travelPrompt,
+  culture as culturePrompt,
+  withDestinationCountry,
+} from '@/lib/system-prompt';
+import {
+  corporate as corporateIntro,
+  emotional as emotionalIntro,
+  travel as travelIntro,
+  culture as cultureIntro,
+} from '@/lib/intro-prompt';
+import { DEFAULT_FALLBACK_MODELS, isModelID, type modelID } from '@/ai/models';
+import type { ToolName } from '@/ai/tools';
+import { WELLBEING_GUARDRAILS, type GuardrailPolicy } from './guardrails';
+
+// Whether replies may be served from the response cache: never, only to the same user
+// (or tenant), or to anyone sending the same conversation
+export type ResponseCachePolicy = 'off' | 'user' | 'shared';
+
+const RESPONSE_CACHE_POLICIES: ResponseCachePolicy[] = ['off', 'user', 'shared'];
+
+// Per-session parameters a client may send alongside the messages
+export interface CompanionContext {
+  destinationCountry?: string;
+}
+
+export interface CompanionMode {
+  id: string;
+  // Built-in defaults; published versions from the admin Prompts page take precedence
+  systemPrompt: string;
+  intro: string;
+  // Provider registry ID; override per deployment with <MODE>_MODEL, e.g. EMOTIONAL_MODEL
+  model: modelID;
+  // Tried in order when the model's provider fails; defaults to DEFAULT_FALLBACK_MODELS
+  fallbackModels?: modelID[];
+  temperature: number;
+  maxTokens: number;
+  // Optional hook to tailor the (published or default) system prompt to the session context
+  buildSystemPrompt?: (prompt: string, context: CompanionContext) => string;
+  // Checks applied to streamed output before it reaches the client
+  guardrails?: GuardrailPolicy;
+  // Server-side tools from the registry in ai/tools.ts the model may call
+  tools?: ToolName[];
+  // Off unless set; override per deployment with <MODE>_RESPONSE_CACHE, e.g. TRAVEL_RESPONSE_CACHE=off
+  responseCache?: ResponseCachePolicy;
+  // Serve admin-approved answers to near-duplicate opening questions; see lib/companion/semantic-cache.ts
+  semanticCache?: boolean;
+}
+
+const companionModes = {
+  corporate: {
+    id: 'corporate',
+    systemPrompt: corporatePrompt,
+    intro: corporateIntro,
+    model: 'openai:gpt-4o-mini',
+    temperature: 0.7,
+    maxTokens: 1000,
+    guardrails: WELLBEING_GUARDRAILS,
+    tools: ['breathingExercise', 'logMoodCheckIn'],
+    responseCache: 'user',
+    semanticCache: true,
+  },
+  emotional: {
+    id: 'emotional',
+    systemPrompt: emotionalPrompt,
+    intro: emotionalIntro,
+    model: 'openai:gpt-4o-mini',
+    temperature: 0.7,
+    maxTokens: 1000,
+    guardrails: WELLBEING_GUARDRAILS,
+    tools: ['breathingExercise', 'saveJournalEntry', 'logMoodCheckIn'],
+    // What someone shares here must never be replayed to anyone else; see resolveResponseCachePolicy
+    responseCache: 'user',
+  },
+  travel: {
+    id: 'travel',
+    systemPrompt: travelPrompt,
+    intro: travelIntro,
+    model: 'openai:gpt-4o-mini',
+    temperature: 0.7,
+    maxTokens: 2000, // Day-by-day itinerary tables run long
+    tools: ['convertCurrency', 'compareTimeZones'],
+    responseCache: 'shared',
+    semanticCache: true,
+  },
+  culture: {
+    id: 'culture',
+    systemPrompt: culturePrompt,
+    intro: cultureIntro,
+    model: 'openai:gpt-4o-mini',
+    temperature: 0.7,
+    maxTokens: 1000,
+    tools: ['convertCurrency', 'compareTimeZones'],
+    responseCache: 'shared',
+    buildSystemPrompt: (prompt: string, { destinationCountry }: CompanionContext) =>
+      destinationCountry
+        ? withDestinationCountry(prompt, destinationCountry)
+        : prompt,
+  },
+} satisfies Record<string, CompanionMode>;
+
+export type CompanionModeId = keyof typeof companionModes;
+
+export const COMPANION_MODES = Object.keys(companionModes) as CompanionModeId[];
+
+export function isCompanionModeId(id: string): id is CompanionModeId {
+  return Object.prototype.hasOwnProperty.call(companionModes, id);
+}
+
+export function getCompanionMode(id: CompanionModeId): CompanionMode;
+export function getCompanionMode(id: string): CompanionMode | null;
+export function getCompanionMode(id: string): CompanionMode | null {
+  return isCompanionModeId(id) ? companionModes[id] : null;
+}
+
+/**
+ * Pick the model for a request: an allowed per-session choice, then the
+ * deployment override for the mode, then the mode's default
+ */
+export function resolveModelId(mode: CompanionMode, requested?: unknown): modelID {
+  if (isModelID(requested)) {
+    return requested;
+  }
+
+  const override = process.env[`${mode.id.toUpperCase()}_MODEL`];
+  if (override) {
+    if (isModelID(override)) {
+      return override;
+    }
+    console.warn(`Ignoring unknown model in ${mode.id.toUpperCase()}_MODEL:`, override);
+  }
+
+  return mode.model;
+}
+
+/**
+ * The model to use followed by the fallbacks for provider failover
+ */
+export function resolveModelChain(mode: CompanionMode, requested?: unknown): modelID[] {
+  const fromEnv = process.env.FALLBACK_MODELS?.split(',').map((id) => id.trim()).filter(isModelID);
+  const fallbacks = fromEnv?.length ? fromEnv : mode.fallbackModels ?? DEFAULT_FALLBACK_MODELS;
+  return [resolveModelId(mode, requested), ...fallbacks];
+}
+
+/**
+ * The mode's response cache policy after the deployment override. Emotional conversations
+ * are never shared across users, whatever the configuration says.
+ */
+export function resolveResponseCachePolicy(mode: CompanionMode): ResponseCachePolicy {
+  let policy = mode.responseCache ?? 'off';
+
+  const override = process.env[`${mode.id.toUpperCase()}_RESPONSE_CACHE`];
+  if (override) {
+    if ((RESPONSE_CACHE_POLICIES as string[]).includes(override)) {
+      policy = override as ResponseCachePolicy;
+    } else {
+      console.warn(`Ignoring unknown policy in ${mode.id.toUpperCase()}_RESPONSE_CACHE:`, override);
+    }
+  }
+
+  if (mode.id === 'emotional' && policy === 'shared') {
+    return 'user';
+  }
+  return policy;
+}
+
+export function resolveSystemPrompt(
+  mode: CompanionMode,
+  context: CompanionContext = {},
+  prompt: string = mode.systemPrompt
+): string {
+  return mode.buildSystemPrompt ? mode.buildSystemPrompt(prompt, context) : prompt;
+}
+
+/**
+ * Keep only known, well-formed context values so client input cannot
+ * smuggle extra instructions into the system prompt
+ */
+export function sanitizeCompanionContext(raw: unknown): CompanionContext {
+  if (!raw || typeof raw !== 'object') {
+    return {};
+  }
+
+  const context: CompanionContext = {};
+  const { destinationCountry } = raw as Record<string, unknown>;
+  if (typeof destinationCountry === 'string') {
+    const cleaned = destinationCountry.replace(/[^\p{L}\p{M} .,'()-]/gu, '').trim().slice(0, 60);
+    if (cleaned) {
+      context.destinationCountry = cleaned;
+    }
+  }
+  return context;
+}
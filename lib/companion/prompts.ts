@@ -0,0 +1,113 @@
+import { promptStore, type PromptUsageInsert } from '@/lib/prompt-store';
+import { COMPANION_MODES, getCompanionMode, type CompanionModeId } from './modes';
+
+export type PromptKind = 'system' | 'intro';
+
+export interface PromptDefinition {
+  key: string;
+  mode: CompanionModeId;
+  kind: PromptKind;
+  // Served until a version is published, and whenever the database is unreachable
+  defaultContent: string;
+}
+
+export interface ResolvedPrompt {
+  key: string;
+  content: string;
+  // Null when the built-in default was used
+  versionId: string | null;
+  version: number | null;
+}
+
+// Published prompts are re-read at most this often per server instance
+const PROMPT_CACHE_TTL_MS = 60 * 1000;
+
+export function promptKey(mode: string, kind: PromptKind): string {
+  return `${mode}.${kind}`;
+}
+
+export const PROMPT_DEFINITIONS: PromptDefinition[] = COMPANION_MODES.flatMap((modeId) => {
+  const mode = getCompanionMode(modeId);
+  return [
+    { key: promptKey(modeId, 'system'), mode: modeId, kind: 'system' as const, defaultContent: mode.systemPrompt },
+    { key: promptKey(modeId, 'intro'), mode: modeId, kind: 'intro' as const, defaultContent: mode.intro },
+  ];
+});
+
+export function getPromptDefinition(key: string): PromptDefinition | undefined {
+  return PROMPT_DEFINITIONS.find((definition) => definition.key === key);
+}
+
+const cache = new Map<string, { prompt: ResolvedPrompt; expiresAt: number }>();
+
+/**
+ * The published version of a prompt, or its built-in default when none is published
+ */
+export async function getPrompt(key: string): Promise<ResolvedPrompt> {
+  const definition = getPromptDefinition(key);
+  if (!definition) {
+    throw new Error(`Unknown prompt: ${key}`);
+  }
+
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.prompt;
+  }
+
+  let prompt: ResolvedPrompt = { key, content: definition.defaultContent, versionId: null, version: null };
+  try {
+    const published = await promptStore.getPublished(key);
+    if (published) {
+      prompt = { key, content: published.content, versionId: published.id, version: published.version };
+    }
+  } catch (error) {
+    console.error(`Error loading published prompt ${key}:`, error);
+    // Keep serving the last version we saw rather than reverting to the default mid-outage
+    if (cached) {
+      prompt = cached.prompt;
+    }
+  }
+
+  cache.set(key, { prompt, expiresAt: Date.now() + PROMPT_CACHE_TTL_MS });
+  return prompt;
+}
+
+/**
+ * A specific saved version of a prompt, such as the one an experiment variant is pinned to
+ */
+export async function getPromptVersion(id: string): Promise<ResolvedPrompt | null> {
+  const cached = cache.get(id);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.prompt;
+  }
+
+  const version = await promptStore.getVersion(id);
+  if (!version) {
+    return null;
+  }
+
+  const prompt: ResolvedPrompt = { key: version.key, content: version.content, versionId: version.id, version: version.version };
+  cache.set(id, { prompt, expiresAt: Date.now() + PROMPT_CACHE_TTL_MS });
+  return prompt;
+}
+
+/**
+ * Drop a cached prompt so the next request on this instance reads the newly published version
+ */
+export function invalidatePrompt(key: string): void {
+  cache.delete(key);
+}
+
+/**
+ * Record which prompt versions served a chat response or voice/avatar session
+ */
+export async function recordPromptUsage(
+  prompts: ResolvedPrompt[],
+  details: Omit<PromptUsageInsert, 'prompt_key' | 'prompt_version_id'>
+): Promise<void> {
+  await promptStore.recordUsage(prompts.map((prompt) => ({
+    ...details,
+    prompt_key: prompt.key,
+    prompt_version_id: prompt.versionId,
+  })));
+}
@@ -0,0 +1,89 @@
+import '../evals/offline-env';
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  assessUserMessage,
+  getModerationClassifier,
+  localModerationClassifier,
+  openaiModerationClassifier,
+  type ModerationClassifier,
+} from './safety';
+
+describe('localModerationClassifier', () => {
+  it('flags softer ideation phrases in any case', async () => {
+    for (const text of [
+      'Sometimes I just want to disappear forever',
+      "I DON'T WANT TO BE HERE anymore",
+      'honestly i cant go on like this',
+      'I wish I was dead',
+      'I hope I do not wake up tomorrow',
+    ]) {
+      assert.deepEqual(await localModerationClassifier.classify(text), ['self-harm'], text);
+    }
+  });
+
+  it('leaves ordinary messages alone', async () => {
+    for (const text of [
+      'How do I ask for a raise?',
+      'I can go on a trip in May',
+      'My phone died and I want to be here on time',
+    ]) {
+      assert.deepEqual(await localModerationClassifier.classify(text), [], text);
+    }
+  });
+});
+
+describe('getModerationClassifier', () => {
+  const previous = process.env.SAFETY_CLASSIFIER;
+
+  afterEach(() => {
+    process.env.SAFETY_CLASSIFIER = previous;
+  });
+
+  it('uses the local classifier only with SAFETY_CLASSIFIER=local', () => {
+    process.env.SAFETY_CLASSIFIER = 'local';
+    assert.equal(getModerationClassifier(), localModerationClassifier);
+
+    delete process.env.SAFETY_CLASSIFIER;
+    assert.equal(getModerationClassifier(), openaiModerationClassifier);
+  });
+});
+
+describe('assessUserMessage', () => {
+  const failing: ModerationClassifier = {
+    async classify() {
+      throw new Error('moderation unavailable');
+    },
+  };
+
+  it('flags explicit statements by keyword without calling the classifier', async () => {
+    const assessment = await assessUserMessage('I want to end my life', failing);
+    assert.equal(assessment.flagged, true);
+    assert.equal(assessment.source, 'keywords');
+    assert.deepEqual(assessment.categories, ['self-harm/intent']);
+  });
+
+  it('flags what only the classifier catches as moderation', async () => {
+    const assessment = await assessUserMessage("I can't go on anymore", localModerationClassifier);
+    assert.deepEqual(assessment, { flagged: true, categories: ['self-harm'], source: 'moderation' });
+  });
+
+  it('does not flag ordinary messages', async () => {
+    const assessment = await assessUserMessage('What should I pack for a ski trip?', localModerationClassifier);
+    assert.deepEqual(assessment, { flagged: false, categories: [], source: null });
+  });
+
+  it('falls back to keywords alone when the classifier fails', async () => {
+    const error = console.error;
+    console.error = () => {};
+    try {
+      assert.deepEqual(
+        await assessUserMessage("I can't go on anymore", failing),
+        { flagged: false, categories: [], source: null }
+      );
+      assert.equal((await assessUserMessage('I am suicidal', failing)).source, 'keywords');
+    } finally {
+      console.error = error;
+    }
+  });
+});
@@ -0,0 +1,128 @@
+import OpenAI from 'openai';
+
+// Built on first use, so SAFETY_CLASSIFIER=local works without an API key
+let openai: OpenAI | null = null;
+
+const MODERATION_MODEL = 'omni-moderation-latest';
+
+export type SafetyCategory = 'self-harm' | 'self-harm/intent' | 'self-harm/instructions';
+export type SafetySource = 'keywords' | 'moderation';
+
+export interface SafetyAssessment {
+  flagged: boolean;
+  categories: SafetyCategory[];
+  source: SafetySource | null;
+}
+
+/**
+ * Second-stage classifier; the OpenAI moderation endpoint in production
+ */
+export interface ModerationClassifier {
+  classify(text: string): Promise<SafetyCategory[]>;
+}
+
+// Explicit statements of intent or method are matched before any network call
+const KEYWORD_PATTERNS: { pattern: RegExp; category: SafetyCategory }[] = [
+  { pattern: /\b(kill|hang|shoot|drown)(ing)? my ?self\b/i, category: 'self-harm/intent' },
+  { pattern: /\b(end|take) my (own )?life\b/i, category: 'self-harm/intent' },
+  { pattern: /\b(commit(ting)?|attempt(ing)?|planning) suicide\b/i, category: 'self-harm/intent' },
+  { pattern: /\bsuicidal\b/i, category: 'self-harm' },
+  { pattern: /\b(want|wanna|going) to die\b/i, category: 'self-harm/intent' },
+  { pattern: /\bbetter off (dead|without me)\b/i, category: 'self-harm' },
+  { pattern: /\bno (reason|point) (to|in) (live|living|go on|going on)\b/i, category: 'self-harm' },
+  { pattern: /\b(cut(ting)?|hurt(ing)?|harm(ing)?) my ?self\b/i, category: 'self-harm' },
+  { pattern: /\bself[- ]harm(ing)?\b/i, category: 'self-harm' },
+  { pattern: /\b(overdose|od) on\b/i, category: 'self-harm/instructions' },
+  { pattern: /\bhow (many|much) .{0,30}\b(to die|lethal|fatal)\b/i, category: 'self-harm/instructions' },
+  // Spanish, French, German
+  { pattern: /\b(quiero morir|suicidarme|quitarme la vida)\b/i, category: 'self-harm/intent' },
+  { pattern: /\b(je veux mourir|me suicider|en finir avec la vie)\b/i, category: 'self-harm/intent' },
+  { pattern: /\b(ich will sterben|mich umbringen|mir das leben nehmen)\b/i, category: 'self-harm/intent' },
+];
+
+/**
+ * Fast pattern layer for explicit risk statements
+ */
+export function matchCrisisKeywords(text: string): SafetyCategory[] {
+  const categories = KEYWORD_PATTERNS
+    .filter(({ pattern }) => pattern.test(text))
+    .map(({ category }) => category);
+  return Array.from(new Set(categories));
+}
+
+export const openaiModerationClassifier: ModerationClassifier = {
+  async classify(text: string): Promise<SafetyCategory[]> {
+    openai ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const moderation = await openai.moderations.create({
+      model: MODERATION_MODEL,
+      input: text,
+    });
+
+    const result = moderation.results[0];
+    if (!result?.flagged) {
+      return [];
+    }
+
+    const categories: SafetyCategory[] = [];
+    if (result.categories['self-harm']) { categories.push('self-harm'); }
+    if (result.categories['self-harm/intent']) { categories.push('self-harm/intent'); }
+    if (result.categories['self-harm/instructions']) { categories.push('self-harm/instructions'); }
+    return categories;
+  },
+};
+
+// Offline stand-in for tests and local development (SAFETY_CLASSIFIER=local): flags softer
+// ideation phrases the keyword layer deliberately leaves to the model
+const LOCAL_IDEATION_TERMS = [
+  'disappear forever',
+  "don't want to be here",
+  'dont want to be here',
+  "can't go on",
+  'cant go on',
+  'wish i was dead',
+  'wish i were dead',
+  'not wake up',
+];
+
+export const localModerationClassifier: ModerationClassifier = {
+  async classify(text: string): Promise<SafetyCategory[]> {
+    const normalized = text.toLowerCase();
+    return LOCAL_IDEATION_TERMS.some((term) => normalized.includes(term)) ? ['self-harm'] : [];
+  },
+};
+
+// Without a key every moderation call fails and only the keyword layer catches risk; the
+// local classifier is never swapped in silently
+if (process.env.SAFETY_CLASSIFIER !== 'local' && !process.env.OPENAI_API_KEY) {
+  console.error('CRITICAL: OPENAI_API_KEY is not configured; crisis detection falls back to keywords only');
+  console.error('Set OPENAI_API_KEY, or SAFETY_CLASSIFIER=local for tests and local development');
+}
+
+export function getModerationClassifier(): ModerationClassifier {
+  return process.env.SAFETY_CLASSIFIER === 'local' ? localModerationClassifier : openaiModerationClassifier;
+}
+
+/**
+ * Classify a user message before it reaches the completion.
+ * The keyword layer runs first; if the moderation call fails we rely on it alone.
+ */
+export async function assessUserMessage(
+  text: string,
+  classifier: ModerationClassifier = getModerationClassifier()
+): Promise<SafetyAssessment> {
+  const keywordCategories = matchCrisisKeywords(text);
+  if (keywordCategories.length > 0) {
+    return { flagged: true, categories: keywordCategories, source: 'keywords' };
+  }
+
+  try {
+    const categories = await classifier.classify(text);
+    if (categories.length > 0) {
+      return { flagged: true, categories, source: 'moderation' };
+    }
+  } catch (error) {
+    console.error('Error running moderation check:', error);
+  }
+
+  return { flagged: false, categories: [], source: null };
+}
@@ -0,0 +1,114 @@
+import '../evals/offline-env';
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getEmbedder, localEmbedder, localEmbedding } from './embeddings';
+import { getSemanticCacheQuestion, isPersonalQuestion, SemanticIndex, type SemanticIndexEntry } from './semantic-cache';
+import { getCompanionMode } from './modes';
+
+function entry(id: string, question: string, status: SemanticIndexEntry['status'] = 'approved'): SemanticIndexEntry {
+  return { id, status, question, answer: `Answer to: ${question}`, embedding: localEmbedding(question) };
+}
+
+describe('isPersonalQuestion', () => {
+  it('treats generic questions as shareable', () => {
+    for (const question of [
+      'What can you help with?',
+      'How do I ask for a raise?',
+      'Tell me how to handle a difficult coworker',
+      'Do I need a visa to visit Japan?',
+      'Can I bring a power bank on a plane?',
+    ]) {
+      assert.equal(isPersonalQuestion(question), false, question);
+    }
+  });
+
+  it('flags statements about the asker and contact details', () => {
+    for (const question of [
+      'My manager keeps ignoring my emails, what should I do?',
+      "I'm exhausted and can't sleep before presentations",
+      'I have a job offer from another company, should I take it?',
+      'We are flying to Lisbon next week, any tips?',
+      'Can you email me at sam@example.com?',
+      'Is booking 48213 refundable?',
+      'Can you summarise https://example.com/policy?',
+    ]) {
+      assert.equal(isPersonalQuestion(question), true, question);
+    }
+  });
+});
+
+describe('getSemanticCacheQuestion', () => {
+  const corporate = getCompanionMode('corporate');
+  const previous = process.env.SEMANTIC_CACHE;
+
+  afterEach(() => {
+    process.env.SEMANTIC_CACHE = previous;
+  });
+
+  it('returns the opening question in an opted-in mode', () => {
+    process.env.SEMANTIC_CACHE = 'on';
+    const question = getSemanticCacheQuestion(corporate, [{ role: 'user', content: '  What can you help with? ' }]);
+    assert.equal(question, 'What can you help with?');
+  });
+
+  it('skips personal questions, later turns, opted-out modes and SEMANTIC_CACHE=off', () => {
+    process.env.SEMANTIC_CACHE = 'on';
+    assert.equal(getSemanticCacheQuestion(corporate, [{ role: 'user', content: 'My manager ignores me' }]), null);
+    assert.equal(getSemanticCacheQuestion(corporate, [
+      { role: 'user', content: 'What can you help with?' },
+      { role: 'assistant', content: 'Plenty.' },
+      { role: 'user', content: 'How do I ask for a raise?' },
+    ]), null);
+    assert.equal(getSemanticCacheQuestion({ ...corporate, semanticCache: false }, [
+      { role: 'user', content: 'What can you help with?' },
+    ]), null);
+
+    process.env.SEMANTIC_CACHE = 'off';
+    assert.equal(getSemanticCacheQuestion(corporate, [{ role: 'user', content: 'What can you help with?' }]), null);
+  });
+});
+
+describe('semantic similarity threshold', () => {
+  const previous = process.env.SEMANTIC_CACHE_THRESHOLD;
+
+  afterEach(() => {
+    if (previous === undefined) {
+      delete process.env.SEMANTIC_CACHE_THRESHOLD;
+    } else {
+      process.env.SEMANTIC_CACHE_THRESHOLD = previous;
+    }
+  });
+
+  it('matches a rewording at the local embedder threshold', () => {
+    const index = new SemanticIndex([
+      entry('visa', 'Do I need a visa to visit Japan?'),
+      entry('pack', 'What should I pack for a ski trip?'),
+    ]);
+    const match = index.nearest(localEmbedding('Do I need a visa for visiting Japan?'), localEmbedder.threshold);
+    assert.equal(match?.entry.id, 'visa');
+  });
+
+  it('does not match a distinct question', () => {
+    const index = new SemanticIndex([entry('visa', 'Do I need a visa to visit Japan?')]);
+    const embedding = localEmbedding('What is the best time of year to visit Japan?');
+    assert.equal(index.nearest(embedding, localEmbedder.threshold), null);
+    assert.ok(index.nearest(embedding, 0), 'a zero threshold accepts any entry');
+  });
+
+  it('prefers the approved entry when two are equally similar', () => {
+    const index = new SemanticIndex([
+      entry('pending', 'What can you help with?', 'pending'),
+      entry('approved', 'What can you help with?'),
+    ]);
+    assert.equal(index.nearest(localEmbedding('What can you help with?'), localEmbedder.threshold)?.entry.id, 'approved');
+  });
+
+  it('takes SEMANTIC_CACHE_THRESHOLD when it is between 0 and 1', () => {
+    process.env.SEMANTIC_CACHE_EMBEDDINGS = 'local';
+    process.env.SEMANTIC_CACHE_THRESHOLD = '0.95';
+    assert.equal(getEmbedder().threshold, 0.95);
+
+    process.env.SEMANTIC_CACHE_THRESHOLD = '1.5';
+    assert.equal(getEmbedder().threshold, localEmbedder.threshold);
+  });
+});
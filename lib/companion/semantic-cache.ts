@@ -0,0 +1,187 @@
+// Semantic cache for the FAQ-style questions people open a conversation with ("what can you
+// do?", "how does this work?"). The question is embedded and matched against earlier ones in a
+// per-instance vector index; an approved answer to a near-duplicate is served without calling
+// the model. New answers are stored as pending and only served once an admin approves them.
+
+import { semanticCacheStore, type SemanticCacheEntry } from '@/lib/semantic-cache-store';
+import { cosineSimilarity, getEmbedder, type TextEmbedder } from './embeddings';
+import type { CompanionMode } from './modes';
+
+export type SemanticIndexEntry = Pick<SemanticCacheEntry, 'id' | 'status' | 'question' | 'answer' | 'embedding'>;
+
+export interface SemanticMatch {
+  entry: SemanticIndexEntry;
+  similarity: number;
+}
+
+export interface SemanticLookup {
+  embedder: TextEmbedder;
+  question: string;
+  embedding: number[];
+  // Nearest earlier question at or above the embedder's threshold
+  match: SemanticMatch | null;
+}
+
+// Longer openers are rarely FAQ questions and more likely to carry personal detail
+const MAX_QUESTION_LENGTH = 300;
+
+// Each instance re-reads the stored entries at most this often
+const INDEX_TTL_MS = 60 * 1000;
+
+// Statements about the asker's own situation
+const PERSONAL_PATTERNS = [
+  /\b(my|mine|myself|our|ours|ourselves)\b/i,
+  /\bi(?:'| a)m\b/i,
+  /\bi(?:'ve| have| had| was| feel| felt| need| want| think| work| live| got)\b/i,
+  /\bwe(?:'re| are| have| were| need| want)?\b/i,
+  /\bme\b/i,
+  // Contact details, account numbers and the like
+  /[^\s@]+@[^\s@]+\.[^\s@]+/,
+  /\d{4,}/,
+  /https?:\/\//i,
+];
+
+// Phrases with "me" or "I" that still ask a generic question ("tell me", "do I need a visa")
+const GENERIC_PHRASES = /\b(tell|show|help|teach|give) me\b|\b(do|can|could|should|would|will|may|must|shall) i\b/gi;
+
+export function isPersonalQuestion(text: string): boolean {
+  const stripped = text.replace(GENERIC_PHRASES, '');
+  return PERSONAL_PATTERNS.some((pattern) => pattern.test(stripped));
+}
+
+/**
+ * The question to look up when a request may use the semantic cache: the first user turn
+ * (after at most the intro) in an opted-in mode, with nothing personal in it. Null otherwise,
+ * and always null with SEMANTIC_CACHE=off.
+ */
+export function getSemanticCacheQuestion(
+  mode: CompanionMode,
+  messages: { role: string; content: string }[]
+): string | null {
+  if (!mode.semanticCache || process.env.SEMANTIC_CACHE === 'off') {
+    return null;
+  }
+
+  const userMessages = messages.filter((message) => message.role === 'user');
+  const lastMessage = messages[messages.length - 1];
+  if (userMessages.length !== 1 || lastMessage?.role !== 'user') {
+    return null;
+  }
+
+  const question = lastMessage.content.trim();
+  if (!question || question.length > MAX_QUESTION_LENGTH || isPersonalQuestion(question)) {
+    return null;
+  }
+  return question;
+}
+
+/**
+ * In-memory vector index over one mode's entries. Brute force: a mode holds at most a few
+ * thousand FAQ entries, so a scan is cheaper than maintaining an ANN structure.
+ */
+export class SemanticIndex {
+  private entries: SemanticIndexEntry[];
+
+  constructor(entries: SemanticIndexEntry[] = []) {
+    this.entries = [...entries];
+  }
+
+  add(entry: SemanticIndexEntry): void {
+    this.entries.push(entry);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * The most similar entry at or above the threshold, preferring approved entries on a tie
+   */
+  nearest(embedding: number[], threshold: number): SemanticMatch | null {
+    let best: SemanticMatch | null = null;
+    for (const entry of this.entries) {
+      const similarity = cosineSimilarity(embedding, entry.embedding);
+      if (similarity < threshold) {
+        continue;
+      }
+      if (
+        !best ||
+        similarity > best.similarity ||
+        (similarity === best.similarity && entry.status === 'approved' && best.entry.status !== 'approved')
+      ) {
+        best = { entry, similarity };
+      }
+    }
+    return best;
+  }
+}
+
+const indexes = new Map<string, { index: SemanticIndex; expiresAt: number }>();
+
+function indexKey(mode: string, promptVersionId: string | null, embedder: TextEmbedder): string {
+  return `${mode}:${promptVersionId ?? 'default'}:${embedder.id}`;
+}
+
+async function loadIndex(mode: string, promptVersionId: string | null, embedder: TextEmbedder): Promise<SemanticIndex> {
+  const key = indexKey(mode, promptVersionId, embedder);
+  const cached = indexes.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.index;
+  }
+
+  const index = new SemanticIndex(await semanticCacheStore.listIndexEntries(mode, promptVersionId, embedder.id));
+  indexes.set(key, { index, expiresAt: Date.now() + INDEX_TTL_MS });
+  return index;
+}
+
+/**
+ * Drop this instance's indexes so approvals and purges apply to the next request.
+ * Other instances pick them up when their index expires.
+ */
+export function invalidateSemanticIndexes(): void {
+  indexes.clear();
+}
+
+/**
+ * Embed the question and find its nearest earlier match. Near-duplicates are counted against
+ * the matched entry whether or not it is approved, so admins can see which questions recur.
+ */
+export async function lookupSemanticCache(
+  mode: string,
+  promptVersionId: string | null,
+  question: string
+): Promise<SemanticLookup> {
+  const embedder = getEmbedder();
+  const embedding = await embedder.embed(question);
+  const index = await loadIndex(mode, promptVersionId, embedder);
+  const match = index.nearest(embedding, embedder.threshold);
+
+  if (match) {
+    await semanticCacheStore.recordUse(match.entry.id, match.entry.status === 'approved');
+  }
+  return { embedder, question, embedding, match };
+}
+
+/**
+ * Store a freshly generated answer as a pending entry for admin review
+ */
+export async function rememberSemanticAnswer(
+  lookup: SemanticLookup,
+  details: { mode: string; promptVersionId: string | null; answer: string; modelId: string }
+): Promise<void> {
+  const entry = await semanticCacheStore.createEntry({
+    mode: details.mode,
+    prompt_version_id: details.promptVersionId,
+    embedding_model: lookup.embedder.id,
+    embedding: lookup.embedding,
+    question: lookup.question,
+    answer: details.answer,
+    model_id: details.modelId,
+  });
+
+  // Later repeats on this instance count against the new entry instead of adding their own
+  if (entry) {
+    const index = indexes.get(indexKey(details.mode, details.promptVersionId, lookup.embedder));
+    index?.index.add(entry);
+  }
+}
@@ -0,0 +1,37 @@
+import OpenAI from 'openai';
+import { MAX_TITLE_LENGTH, fallbackConversationTitle } from '@/lib/conversation-title';
+
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+});
+
+const TITLE_MODEL = 'gpt-4o-mini';
+
+/**
+ * Summarise the first exchange of a conversation into a short sidebar title
+ */
+export async function generateConversationTitle(userText: string, assistantText: string): Promise<string> {
+  try {
+    const completion = await openai.chat.completions.create({
+      model: TITLE_MODEL,
+      messages: [
+        {
+          role: 'system',
+          content: 'Write a short title (at most 6 words) for this conversation. Describe the topic neutrally, without quotes, names, or trailing punctuation.',
+        },
+        {
+          role: 'user',
+          content: `User: ${userText.slice(0, 1000)}\n\nCompanion: ${assistantText.slice(0, 1000)}`,
+        },
+      ],
+      temperature: 0.3,
+      max_tokens: 20,
+    });
+
+    const title = completion.choices[0]?.message?.content?.replace(/["“”]/g, '').trim();
+    return title ? title.slice(0, MAX_TITLE_LENGTH) : fallbackConversationTitle(userText);
+  } catch (error) {
+    console.warn('Could not generate conversation title:', error);
+    return fallbackConversationTitle(userText);
+  }
+}
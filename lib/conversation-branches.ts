@@ -0,0 +1,119 @@
+// Branching threads: editing a user turn or regenerating a reply starts a new branch from that
+// point and keeps the earlier continuation as a sibling. The chat shows one branch at a time;
+// this tree holds them all.
+
+import type { Message } from 'ai';
+
+export interface MessageTree {
+  // Every message of every branch, in the order they were added
+  messages: Record<string, Message>;
+  // The turn each message follows; null for the first turn of a branch from the start
+  parentIds: Record<string, string | null>;
+  // Last message of the branch on screen
+  activeId: string | null;
+}
+
+// Where a message sits among the alternatives for the same point in the thread (0-based)
+export interface BranchPosition {
+  index: number;
+  count: number;
+}
+
+export const EMPTY_TREE: MessageTree = { messages: {}, parentIds: {}, activeId: null };
+
+export function getChildIds(tree: MessageTree, parentId: string | null): string[] {
+  return Object.keys(tree.parentIds).filter((id) => tree.parentIds[id] === parentId);
+}
+
+// Follow the most recent child down to the end of a branch
+export function findLatestLeaf(tree: MessageTree, id: string): string {
+  let leafId = id;
+  for (let children = getChildIds(tree, leafId); children.length > 0; children = getChildIds(tree, leafId)) {
+    leafId = children[children.length - 1];
+  }
+  return leafId;
+}
+
+/**
+ * The messages from the first turn down to a leaf (the active one by default)
+ */
+export function getBranch(tree: MessageTree, leafId: string | null = tree.activeId): Message[] {
+  const branch: Message[] = [];
+  for (let id = leafId; id && tree.messages[id]; id = tree.parentIds[id]) {
+    branch.unshift(tree.messages[id]);
+  }
+  return branch;
+}
+
+/**
+ * Build a tree from stored messages in creation order. Without an active message the thread
+ * predates branching, so its messages are chained in order.
+ */
+export function buildTree(
+  stored: { message: Message; parentId: string | null }[],
+  activeId: string | null
+): MessageTree {
+  const tree: MessageTree = { messages: {}, parentIds: {}, activeId: null };
+  stored.forEach(({ message, parentId }, i) => {
+    tree.messages[message.id] = message;
+    tree.parentIds[message.id] = activeId ? parentId : i > 0 ? stored[i - 1].message.id : null;
+  });
+
+  const roots = getChildIds(tree, null);
+  if (activeId && tree.messages[activeId]) {
+    tree.activeId = activeId;
+  } else if (roots.length > 0) {
+    tree.activeId = findLatestLeaf(tree, roots[roots.length - 1]);
+  }
+  return tree;
+}
+
+/**
+ * Add the branch the chat is showing to the tree, linking each message to the one before it
+ */
+export function mergeBranch(tree: MessageTree, branch: Message[]): MessageTree {
+  if (branch.length === 0) {
+    return tree;
+  }
+
+  const messages = { ...tree.messages };
+  const parentIds = { ...tree.parentIds };
+  branch.forEach((message, i) => {
+    messages[message.id] = message;
+    parentIds[message.id] = i > 0 ? branch[i - 1].id : null;
+  });
+  return { messages, parentIds, activeId: branch[branch.length - 1].id };
+}
+
+/**
+ * Positions of the messages that have alternatives, for the branch switchers
+ */
+export function getBranchPositions(tree: MessageTree): Record<string, BranchPosition> {
+  const siblingsByParent = new Map<string | null, string[]>();
+  Object.keys(tree.parentIds).forEach((id) => {
+    const parentId = tree.parentIds[id];
+    siblingsByParent.set(parentId, [...(siblingsByParent.get(parentId) ?? []), id]);
+  });
+
+  const positions: Record<string, BranchPosition> = {};
+  siblingsByParent.forEach((siblings) => {
+    if (siblings.length > 1) {
+      siblings.forEach((id, index) => {
+        positions[id] = { index, count: siblings.length };
+      });
+    }
+  });
+  return positions;
+}
+
+/**
+ * Show the previous (-1) or next (1) alternative to a message, continuing to the end of its branch
+ */
+export function switchBranch(tree: MessageTree, id: string, direction: -1 | 1): MessageTree {
+  const siblings = getChildIds(tree, tree.parentIds[id] ?? null);
+  const target = siblings[siblings.indexOf(id) + direction];
+  if (!target) {
+    return tree;
+  }
+  return { ...tree, activeId: findLatestLeaf(tree, target) };
+}
@@ -0,0 +1,229 @@
+// Export a conversation (the branch on screen) as Markdown, printable HTML or a JSON archive.
+// Runs in the browser on messages loaded through lib/conversation-history.ts.
+
+import type { Message } from 'ai';
+import { findAnnotation } from './companion/annotations';
+
+export const EXPORT_FORMATS = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  html: { label: 'Printable HTML', extension: 'html', mimeType: 'text/html;charset=utf-8' },
+  json: { label: 'JSON archive', extension: 'json', mimeType: 'application/json;charset=utf-8' },
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  includeTranscripts: boolean;
+  // 1-based and inclusive; all messages when omitted
+  range?: { from: number; to: number };
+}
+
+export interface ExportedConversation {
+  id: string;
+  title: string | null;
+  mode: string;
+}
+
+export interface ConversationExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+interface ExportEntry {
+  index: number;
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: Date | null;
+  transcript: string | null;
+}
+
+const ROLE_LABELS = { user: 'You', assistant: 'Companion' } as const;
+
+function modeLabel(mode: string): string {
+  return `${mode.charAt(0).toUpperCase()}${mode.slice(1)} companion`;
+}
+
+function formatTimestamp(date: Date | null): string {
+  return date ? date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : '';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+}
+
+/**
+ * Clamp a requested range to the messages that exist
+ */
+export function resolveRange(total: number, range?: ExportOptions['range']): { from: number; to: number } {
+  if (!range) {
+    return { from: 1, to: total };
+  }
+  const from = Math.min(Math.max(1, Math.floor(range.from)), total);
+  const to = Math.min(Math.max(from, Math.floor(range.to)), total);
+  return { from, to };
+}
+
+function toEntries(messages: Message[], options: ExportOptions): ExportEntry[] {
+  const chatMessages = messages.filter((message) => message.role === 'user' || message.role === 'assistant');
+  const { from, to } = resolveRange(chatMessages.length, options.range);
+
+  return chatMessages.slice(from - 1, to).map((message, i) => ({
+    index: from + i,
+    id: message.id,
+    role: message.role as ExportEntry['role'],
+    content: message.content,
+    createdAt: message.createdAt ? new Date(message.createdAt) : null,
+    transcript: options.includeTranscripts
+      ? findAnnotation(message.annotations, 'transcript')?.text ?? null
+      : null,
+  }));
+}
+
+function rangeSummary(entries: ExportEntry[], total: number): string {
+  if (entries.length === 0) {
+    return 'No messages';
+  }
+  if (entries.length === total) {
+    return `All ${total} messages`;
+  }
+  return `Messages ${entries[0].index}–${entries[entries.length - 1].index} of ${total}`;
+}
+
+function toMarkdown(conversation: ExportedConversation, entries: ExportEntry[], total: number, exportedAt: Date): string {
+  const lines = [
+    `# ${conversation.title ?? 'Untitled conversation'}`,
+    '',
+    `- Mode: ${modeLabel(conversation.mode)}`,
+    `- Exported: ${formatTimestamp(exportedAt)}`,
+    `- ${rangeSummary(entries, total)}`,
+    '',
+    '---',
+  ];
+
+  entries.forEach((entry) => {
+    const timestamp = formatTimestamp(entry.createdAt);
+    lines.push('', `### ${ROLE_LABELS[entry.role]}${timestamp ? ` · ${timestamp}` : ''}`, '', entry.content);
+    if (entry.transcript) {
+      lines.push('', `> Voice transcript: ${entry.transcript.replace(/\n/g, '\n> ')}`);
+    }
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+// Print styles keep each message on one page so "Save as PDF" gives a clean document
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #18181b; max-width: 720px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.5rem; }
+  .meta { color: #52525b; font-size: 0.875rem; margin: 0 0 1.5rem; padding: 0; list-style: none; }
+  .message { border-top: 1px solid #e4e4e7; padding: 0.75rem 0; break-inside: avoid; page-break-inside: avoid; }
+  .message header { font-size: 0.8125rem; color: #52525b; margin-bottom: 0.25rem; }
+  .message header strong { color: #18181b; }
+  .message.user .content { background: #f4f4f5; border-radius: 0.5rem; padding: 0.5rem 0.75rem; }
+  .content { white-space: pre-wrap; }
+  .transcript { font-size: 0.8125rem; color: #52525b; border-left: 3px solid #d4d4d8; margin: 0.5rem 0 0; padding-left: 0.75rem; white-space: pre-wrap; }
+  @page { margin: 2cm; }
+  @media print { body { margin: 0; max-width: none; } }
+`;
+
+function toHtml(conversation: ExportedConversation, entries: ExportEntry[], total: number, exportedAt: Date): string {
+  const title = escapeHtml(conversation.title ?? 'Untitled conversation');
+  const messages = entries.map((entry) => {
+    const timestamp = formatTimestamp(entry.createdAt);
+    return [
+      `<article class="message ${entry.role}">`,
+      `<header><strong>${ROLE_LABELS[entry.role]}</strong>${timestamp ? ` · <time datetime="${entry.createdAt?.toISOString()}">${escapeHtml(timestamp)}</time>` : ''}</header>`,
+      `<div class="content">${escapeHtml(entry.content)}</div>`,
+      entry.transcript ? `<blockquote class="transcript">Voice transcript: ${escapeHtml(entry.transcript)}</blockquote>` : '',
+      '</article>',
+    ].join('');
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${title}</title>`,
+    `<style>${HTML_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${title}</h1>`,
+    '<ul class="meta">',
+    `<li>Mode: ${escapeHtml(modeLabel(conversation.mode))}</li>`,
+    `<li>Exported: ${escapeHtml(formatTimestamp(exportedAt))}</li>`,
+    `<li>${rangeSummary(entries, total)}</li>`,
+    '</ul>',
+    ...messages,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+function toJson(conversation: ExportedConversation, entries: ExportEntry[], total: number, exportedAt: Date): string {
+  return `${JSON.stringify({
+    version: 1,
+    exportedAt: exportedAt.toISOString(),
+    conversation: { id: conversation.id, title: conversation.title, mode: conversation.mode },
+    range: entries.length > 0
+      ? { from: entries[0].index, to: entries[entries.length - 1].index, total }
+      : { from: 0, to: 0, total },
+    messages: entries.map((entry) => ({
+      index: entry.index,
+      id: entry.id,
+      role: entry.role,
+      content: entry.content,
+      createdAt: entry.createdAt?.toISOString() ?? null,
+      ...(entry.transcript && { transcript: entry.transcript }),
+    })),
+  }, null, 2)}\n`;
+}
+
+/**
+ * Build the export file for a conversation's messages
+ */
+export function buildConversationExport(
+  conversation: ExportedConversation,
+  messages: Message[],
+  options: ExportOptions,
+  exportedAt = new Date()
+): ConversationExportFile {
+  const total = messages.filter((message) => message.role === 'user' || message.role === 'assistant').length;
+  const entries = toEntries(messages, options);
+  const format = EXPORT_FORMATS[options.format];
+  const render = { markdown: toMarkdown, html: toHtml, json: toJson }[options.format];
+  const name = slugify(conversation.title ?? '') || `${conversation.mode}-conversation`;
+
+  return {
+    filename: `${name}-${exportedAt.toISOString().slice(0, 10)}.${format.extension}`,
+    mimeType: format.mimeType,
+    content: render(conversation, entries, total, exportedAt),
+  };
+}
+
+/**
+ * Save an export file through the browser's download flow
+ */
+export function downloadConversationExport(file: ConversationExportFile): void {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,309 @@
+// Client-side access to conversation history: Supabase for signed-in users,
+// local storage keyed by visitor ID when user authentication is disabled
+
+import type { Message } from 'ai';
+import { generateVisitorId } from './analytics';
+import { fallbackConversationTitle } from './conversation-title';
+import { buildTree, getBranch, type MessageTree } from './conversation-branches';
+import type { TranscriptAnnotation } from './companion/annotations';
+
+export interface LocalConversation {
+  id: string;
+  mode: string;
+  title: string | null;
+  pinned?: boolean;
+  // The branch on screen; every branch is in the tree (missing for threads saved before branching)
+  messages: Message[];
+  tree?: MessageTree;
+  created_at: string;
+  updated_at: string;
+}
+
+// What the sidebar needs to list a thread, from either storage
+export interface ConversationSummary {
+  id: string;
+  mode: string;
+  title: string | null;
+  pinned: boolean;
+  updated_at: string;
+}
+
+interface StoredMessage {
+  id: string;
+  parent_id: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  transcript: string | null;
+  created_at: string;
+}
+
+const MAX_LOCAL_CONVERSATIONS = 50;
+
+export function isServerHistoryEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_USER_AUTH === 'true';
+}
+
+function getLocalStorageKey(): string {
+  return `conversations_${generateVisitorId()}`;
+}
+
+export function toChatMessage(message: StoredMessage): Message {
+  const transcript: TranscriptAnnotation | null = message.transcript
+    ? { type: 'transcript', text: message.transcript, language: null, durationSeconds: null }
+    : null;
+
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    createdAt: new Date(message.created_at),
+    parts: [{ type: 'text', text: message.content }],
+    ...(transcript && { annotations: [transcript] }),
+  };
+}
+
+// Get every conversation saved in this browser, most recent first
+export function getLocalConversations(): LocalConversation[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  try {
+    const raw = localStorage.getItem(getLocalStorageKey());
+    const conversations: LocalConversation[] = raw ? JSON.parse(raw) : [];
+    return conversations.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  } catch (error) {
+    console.warn('Could not read local conversations:', error);
+    return [];
+  }
+}
+
+export function getLocalConversation(id: string): LocalConversation | null {
+  return getLocalConversations().find((conversation) => conversation.id === id) ?? null;
+}
+
+function writeLocalConversations(conversations: LocalConversation[]): void {
+  try {
+    localStorage.setItem(
+      getLocalStorageKey(),
+      JSON.stringify(conversations.slice(0, MAX_LOCAL_CONVERSATIONS))
+    );
+  } catch (error) {
+    console.warn('Could not save local conversations:', error);
+  }
+}
+
+// Forget every conversation saved in this browser, e.g. after the account is deleted
+export function clearLocalConversations(): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  localStorage.removeItem(getLocalStorageKey());
+}
+
+// Save (or replace) the messages of a conversation in this browser
+export function saveLocalConversation(id: string, mode: string, tree: MessageTree): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  const now = new Date().toISOString();
+  const conversations = getLocalConversations();
+  const existing = conversations.find((conversation) => conversation.id === id);
+  const chatMessages = getBranch(tree).filter((message) => message.role === 'user' || message.role === 'assistant');
+
+  const firstUserMessage = chatMessages.find((message) => message.role === 'user');
+
+  if (existing) {
+    existing.messages = chatMessages;
+    existing.tree = tree;
+    existing.updated_at = now;
+    if (!existing.title && firstUserMessage) {
+      existing.title = fallbackConversationTitle(firstUserMessage.content);
+    }
+  } else {
+    conversations.unshift({
+      id,
+      mode,
+      title: firstUserMessage ? fallbackConversationTitle(firstUserMessage.content) : null,
+      pinned: false,
+      messages: chatMessages,
+      tree,
+      created_at: now,
+      updated_at: now,
+    });
+  }
+
+  writeLocalConversations(conversations.sort((a, b) => b.updated_at.localeCompare(a.updated_at)));
+}
+
+// Load every branch of a thread so the chat can resume it
+export async function loadConversationTree(threadId: string): Promise<MessageTree | null> {
+  if (!isServerHistoryEnabled()) {
+    const conversation = getLocalConversation(threadId);
+    if (!conversation) {
+      return null;
+    }
+    return conversation.tree ?? buildTree(conversation.messages.map((message) => ({ message, parentId: null })), null);
+  }
+
+  try {
+    const response = await fetch(`/api/conversations/${threadId}`, {
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const { conversation, messages }: {
+      conversation: { active_message_id: string | null };
+      messages: StoredMessage[];
+    } = await response.json();
+    return buildTree(
+      messages.map((message) => ({ message: toChatMessage(message), parentId: message.parent_id })),
+      conversation.active_message_id
+    );
+  } catch (error) {
+    console.error('Error loading conversation:', error);
+    return null;
+  }
+}
+
+function toSummary(conversation: LocalConversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    mode: conversation.mode,
+    title: conversation.title,
+    pinned: conversation.pinned ?? false,
+    updated_at: conversation.updated_at,
+  };
+}
+
+function matchesQuery(conversation: LocalConversation, query: string): boolean {
+  const needle = query.toLowerCase();
+  const messages = conversation.tree ? Object.values(conversation.tree.messages) : conversation.messages;
+  return (conversation.title ?? '').toLowerCase().includes(needle) ||
+    messages.some((message) => message.content.toLowerCase().includes(needle));
+}
+
+// List the threads of a companion mode, pinned first then most recent
+export async function listConversations(mode: string, query = ''): Promise<ConversationSummary[]> {
+  const trimmedQuery = query.trim();
+
+  if (!isServerHistoryEnabled()) {
+    return getLocalConversations()
+      .filter((conversation) => conversation.mode === mode)
+      .filter((conversation) => !trimmedQuery || matchesQuery(conversation, trimmedQuery))
+      .map(toSummary)
+      .sort((a, b) => Number(b.pinned) - Number(a.pinned));
+  }
+
+  try {
+    const params = new URLSearchParams({ mode });
+    if (trimmedQuery) {
+      params.set('q', trimmedQuery);
+    }
+
+    const response = await fetch(`/api/conversations?${params}`, {
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const { conversations }: { conversations: ConversationSummary[] } = await response.json();
+    return conversations;
+  } catch (error) {
+    console.error('Error listing conversations:', error);
+    return [];
+  }
+}
+
+function updateLocalConversation(id: string, update: Partial<Pick<LocalConversation, 'title' | 'pinned'>>): boolean {
+  const conversations = getLocalConversations();
+  const conversation = conversations.find((c) => c.id === id);
+  if (!conversation) {
+    return false;
+  }
+
+  Object.assign(conversation, update);
+  writeLocalConversations(conversations);
+  return true;
+}
+
+async function patchConversation(id: string, update: { title?: string; pinned?: boolean }): Promise<boolean> {
+  if (!isServerHistoryEnabled()) {
+    return updateLocalConversation(id, update);
+  }
+
+  try {
+    const response = await fetch(`/api/conversations/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(update),
+    });
+    return response.ok;
+  } catch (error) {
+    console.error('Error updating conversation:', error);
+    return false;
+  }
+}
+
+export function renameConversation(id: string, title: string): Promise<boolean> {
+  return patchConversation(id, { title });
+}
+
+export function setConversationPinned(id: string, pinned: boolean): Promise<boolean> {
+  return patchConversation(id, { pinned });
+}
+
+// Remember which branch of a thread is on screen
+export async function saveActiveBranch(id: string, tree: MessageTree): Promise<boolean> {
+  if (!isServerHistoryEnabled()) {
+    const conversations = getLocalConversations();
+    const conversation = conversations.find((c) => c.id === id);
+    if (!conversation) {
+      return false;
+    }
+
+    conversation.messages = getBranch(tree);
+    conversation.tree = tree;
+    writeLocalConversations(conversations);
+    return true;
+  }
+
+  try {
+    const response = await fetch(`/api/conversations/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ activeMessageId: tree.activeId }),
+    });
+    return response.ok;
+  } catch (error) {
+    console.error('Error saving active branch:', error);
+    return false;
+  }
+}
+
+export async function deleteConversation(id: string): Promise<boolean> {
+  if (!isServerHistoryEnabled()) {
+    const conversations = getLocalConversations();
+    writeLocalConversations(conversations.filter((conversation) => conversation.id !== id));
+    return true;
+  }
+
+  try {
+    const response = await fetch(`/api/conversations/${id}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    });
+    return response.ok;
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    return false;
+  }
+}
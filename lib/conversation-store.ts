@@ -0,0 +1,329 @@
+import { createClient } from '@/lib/supabase/server';
+import type { Database } from '@/lib/supabase';
+
+export type ConversationRecord = Database['public']['Tables']['conversations']['Row'];
+export type MessageRecord = Database['public']['Tables']['messages']['Row'];
+
+export type ConversationUpdate = Pick<
+  Database['public']['Tables']['conversations']['Update'],
+  'title' | 'pinned' | 'active_message_id'
+>;
+
+export type ConversationSummaryUpdate = Pick<
+  Database['public']['Tables']['conversations']['Update'],
+  'context_summary' | 'summary_message_count' | 'summary_fingerprint'
+>;
+
+const MESSAGE_COLUMNS = 'id, conversation_id, parent_id, user_id, role, content, transcript, created_at';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isConversationId(id: string | null | undefined): id is string {
+  return !!id && UUID_PATTERN.test(id);
+}
+
+export class ConversationStore {
+  /**
+   * Get a conversation the current user owns (RLS scopes the query)
+   */
+  async getConversation(id: string): Promise<ConversationRecord | null> {
+    if (!isConversationId(id)) {
+      return null;
+    }
+
+    try {
+      const supabase = await createClient();
+      const { data, error } = await supabase
+        .from('conversations')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching conversation:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error fetching conversation:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Start a new conversation for a user in a companion mode
+   */
+  async createConversation(userId: string, mode: string): Promise<ConversationRecord | null> {
+    try {
+      const supabase = await createClient();
+      const { data, error } = await supabase
+        .from('conversations')
+        .insert({ user_id: userId, mode })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating conversation:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error creating conversation:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Reuse the requested thread when it belongs to the user and mode, otherwise start a new one
+   */
+  async resolveConversation(userId: string, mode: string, threadId?: string | null): Promise<ConversationRecord | null> {
+    if (threadId) {
+      const existing = await this.getConversation(threadId);
+      if (existing && existing.mode === mode) {
+        return existing;
+      }
+    }
+    return this.createConversation(userId, mode);
+  }
+
+  /**
+   * Save a single turn to a conversation. The ID lets the client and the database agree on
+   * the message; the parent is the turn it follows on its branch (none for the first turn).
+   */
+  async appendMessage(
+    conversationId: string,
+    userId: string,
+    role: MessageRecord['role'],
+    content: string,
+    details: { id?: string; parentId?: string | null; transcript?: string | null } = {}
+  ): Promise<void> {
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase
+        .from('messages')
+        .insert({
+          ...(details.id && { id: details.id }),
+          conversation_id: conversationId,
+          parent_id: details.parentId ?? null,
+          user_id: userId,
+          role,
+          content,
+          transcript: details.transcript ?? null,
+        });
+
+      if (error) {
+        console.error('Error saving message:', error);
+      }
+    } catch (error) {
+      console.error('Error saving message:', error);
+    }
+  }
+
+  /**
+   * Check that a message belongs to a conversation before pointing the conversation at it
+   */
+  async hasMessage(conversationId: string, messageId: string): Promise<boolean> {
+    if (!isConversationId(messageId)) {
+      return false;
+    }
+
+    try {
+      const supabase = await createClient();
+      const { data, error } = await supabase
+        .from('messages')
+        .select('id')
+        .eq('conversation_id', conversationId)
+        .eq('id', messageId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching message:', error);
+        return false;
+      }
+
+      return !!data;
+    } catch (error) {
+      console.error('Error fetching message:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get all turns of a conversation in order, across every branch
+   */
+  async getMessages(conversationId: string): Promise<MessageRecord[]> {
+    try {
+      const supabase = await createClient();
+      const { data, error } = await supabase
+        .from('messages')
+        .select(MESSAGE_COLUMNS)
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching messages:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching messages:', error);
+      return [];
+    }
+  }
+
+  /**
+   * List the current user's conversations in a mode, pinned first then most recent.
+   * With a query, only conversations whose title or message content match are returned.
+   */
+  async listConversations(mode: string, query?: string): Promise<ConversationRecord[]> {
+    try {
+      const supabase = await createClient();
+      let request = supabase
+        .from('conversations')
+        .select('*')
+        .eq('mode', mode)
+        .order('pinned', { ascending: false })
+        .order('updated_at', { ascending: false })
+        .limit(100);
+
+      const trimmedQuery = query?.trim();
+      if (trimmedQuery) {
+        const { data: matches, error: searchError } = await supabase
+          .from('messages')
+          .select('conversation_id')
+          .textSearch('content_tsv', trimmedQuery, { type: 'websearch', config: 'english' })
+          .limit(500);
+
+        if (searchError) {
+          console.error('Error searching messages:', searchError);
+        }
+
+        const matchedIds = Array.from(new Set((matches || []).map((m: { conversation_id: string }) => m.conversation_id)));
+        const titlePattern = `%${trimmedQuery.replace(/[%_,()"\\]/g, ' ')}%`;
+        request = matchedIds.length > 0
+          ? request.or(`title.ilike.${titlePattern},id.in.(${matchedIds.join(',')})`)
+          : request.ilike('title', titlePattern);
+      }
+
+      const { data, error } = await request;
+      if (error) {
+        console.error('Error listing conversations:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error listing conversations:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Rename or pin a conversation, or switch the branch on screen
+   */
+  async updateConversation(id: string, update: ConversationUpdate): Promise<ConversationRecord | null> {
+    if (!isConversationId(id)) {
+      return null;
+    }
+
+    try {
+      const supabase = await createClient();
+      const { data, error } = await supabase
+        .from('conversations')
+        .update(update)
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error updating conversation:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error updating conversation:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Mark a conversation after a safety escalation so it can be found later
+   */
+  async flagConversation(id: string): Promise<void> {
+    if (!isConversationId(id)) {
+      return;
+    }
+
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase
+        .from('conversations')
+        .update({ flagged: true })
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error flagging conversation:', error);
+      }
+    } catch (error) {
+      console.error('Error flagging conversation:', error);
+    }
+  }
+
+  /**
+   * Save the rolling context summary so resumed sessions start from it
+   */
+  async saveSummary(id: string, summary: ConversationSummaryUpdate): Promise<void> {
+    if (!isConversationId(id)) {
+      return;
+    }
+
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase
+        .from('conversations')
+        .update(summary)
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error saving conversation summary:', error);
+      }
+    } catch (error) {
+      console.error('Error saving conversation summary:', error);
+    }
+  }
+
+  /**
+   * Delete a conversation and (by cascade) its messages. False when nothing was deleted:
+   * under RLS another user's conversation matches no rows, just like a missing one.
+   */
+  async deleteConversation(id: string): Promise<boolean> {
+    if (!isConversationId(id)) {
+      return false;
+    }
+
+    try {
+      const supabase = await createClient();
+      const { count, error } = await supabase
+        .from('conversations')
+        .delete({ count: 'exact' })
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting conversation:', error);
+        return false;
+      }
+
+      return (count ?? 0) > 0;
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+      return false;
+    }
+  }
+}
+
+// Export singleton instance
+export const conversationStore = new ConversationStore();
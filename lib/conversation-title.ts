@@ -0,0 +1,14 @@
+// Title helpers shared by the server (title generation) and the browser (local history)
+
+export const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Shorten the first user message into a title, used when no model is available
+ */
+export function fallbackConversationTitle(userText: string): string {
+  const singleLine = userText.replace(/\s+/g, ' ').trim();
+  if (singleLine.length <= MAX_TITLE_LENGTH) {
+    return singleLine || 'New conversation';
+  }
+  return `${singleLine.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`;
+}
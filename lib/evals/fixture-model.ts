@@ -0,0 +1,134 @@
+import { createHash } from 'crypto';
+import {
+  simulateReadableStream,
+  wrapLanguageModel,
+  type LanguageModelV1,
+  type LanguageModelV1Prompt,
+  type LanguageModelV1StreamPart,
+} from 'ai';
+
+export interface ModelFixture {
+  // Model the response was recorded from
+  modelId: string;
+  // Hash of the system prompt it was recorded against; a mismatch means the prompt changed since
+  promptHash: string;
+  response: string;
+  usage: { promptTokens: number; completionTokens: number };
+}
+
+export interface FixtureFile {
+  dataset: string;
+  version: number;
+  recordedAt: string;
+  fixtures: Record<string, ModelFixture>;
+}
+
+export function hashSystemPrompt(prompt: LanguageModelV1Prompt): string {
+  const system = prompt
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content)
+    .join('\n');
+  return createHash('sha256').update(system).digest('hex').slice(0, 16);
+}
+
+/**
+ * Recorded model responses keyed by scenario ID. In replay mode every model ID resolves
+ * to a stand-in that streams the recorded text, so evals run offline; in record mode the
+ * real models answer and their output is captured for the next replay.
+ */
+export class FixtureModels {
+  private scenarioId: string | null = null;
+  readonly recorded: Record<string, ModelFixture> = {};
+  // Scenarios whose fixture was recorded against a different system prompt
+  readonly stale = new Set<string>();
+
+  constructor(private fixtures: Record<string, ModelFixture> = {}) {}
+
+  /**
+   * Scenarios run one at a time; responses are looked up or recorded under this ID
+   */
+  startScenario(id: string): void {
+    this.scenarioId = id;
+  }
+
+  private currentFixture(prompt: LanguageModelV1Prompt): ModelFixture {
+    const id = this.scenarioId ?? '(none)';
+    const fixture = this.fixtures[id];
+    if (!fixture) {
+      throw new Error(`No recorded response for scenario ${id}; run the evals with --record`);
+    }
+    if (fixture.promptHash !== hashSystemPrompt(prompt)) {
+      this.stale.add(id);
+    }
+    return fixture;
+  }
+
+  replay(modelId: string): LanguageModelV1 {
+    return {
+      specificationVersion: 'v1',
+      provider: 'fixture',
+      modelId,
+      defaultObjectGenerationMode: undefined,
+      doGenerate: async (options) => {
+        const fixture = this.currentFixture(options.prompt);
+        return {
+          text: fixture.response,
+          finishReason: 'stop',
+          usage: fixture.usage,
+          rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+        };
+      },
+      doStream: async (options) => {
+        const fixture = this.currentFixture(options.prompt);
+        const words = fixture.response.match(/\S+\s*|\s+/g) ?? [];
+        return {
+          stream: simulateReadableStream<LanguageModelV1StreamPart>({
+            chunks: [
+              ...words.map((word): LanguageModelV1StreamPart => ({ type: 'text-delta', textDelta: word })),
+              { type: 'finish', finishReason: 'stop', usage: fixture.usage },
+            ],
+            initialDelayInMs: null,
+            chunkDelayInMs: null,
+          }),
+          rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+        };
+      },
+    };
+  }
+
+  record(model: LanguageModelV1, modelId: string): LanguageModelV1 {
+    return wrapLanguageModel({
+      model,
+      middleware: {
+        wrapStream: async ({ doStream, params }) => {
+          const id = this.scenarioId ?? '(none)';
+          const { stream, ...rest } = await doStream();
+
+          // A tool round trip streams several steps; they add up to one recorded reply
+          const fixture: ModelFixture = this.recorded[id] ?? {
+            modelId,
+            promptHash: hashSystemPrompt(params.prompt),
+            response: '',
+            usage: { promptTokens: 0, completionTokens: 0 },
+          };
+          fixture.modelId = modelId;
+          this.recorded[id] = fixture;
+
+          const capture = new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+            transform(part, controller) {
+              if (part.type === 'text-delta') {
+                fixture.response += part.textDelta;
+              } else if (part.type === 'finish') {
+                fixture.usage.promptTokens += part.usage.promptTokens;
+                fixture.usage.completionTokens += part.usage.completionTokens;
+              }
+              controller.enqueue(part);
+            },
+          });
+
+          return { stream: stream.pipeThrough(capture), ...rest };
+        },
+      },
+    });
+  }
+}
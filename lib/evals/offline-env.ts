@@ -0,0 +1,10 @@
+// Imported first by the eval runner and the unit tests, before any module that creates an API client at
+// load time: keyword-only safety checks, no semantic cache (scenarios score the model, not
+// stored answers), and a placeholder key so those clients can be built. Replayed fixtures never call out; --record and --judge need a real key.
+export const OFFLINE_API_KEY = 'offline-eval';
+
+process.env.SAFETY_CLASSIFIER ??= 'local';
+process.env.SEMANTIC_CACHE ??= 'off';
+if (!process.env.OPENAI_API_KEY) {
+  process.env.OPENAI_API_KEY = OFFLINE_API_KEY;
+}
@@ -0,0 +1,98 @@
+import '../offline-env';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { getCompanionMode } from '@/lib/companion/modes';
+import { getEmbedder, localEmbedder } from '@/lib/companion/embeddings';
+import { getSemanticCacheQuestion, SemanticIndex, type SemanticIndexEntry } from '@/lib/companion/semantic-cache';
+
+// Deterministic check of semantic cache matching and eligibility, run with the local
+// embedding stand-in so it needs no network or database:
+//
+//   pnpm eval:semantic-cache
+//
+// Each group's first question is stored; its rewordings must match it, and the distinct
+// questions (same topic, different ask) must match nothing. Exits 1 on any failed case.
+
+interface SemanticCases {
+  groups: { mode: string; questions: string[] }[];
+  distinct: { mode: string; question: string }[];
+  eligibility: { mode: string; question: string; eligible: boolean }[];
+}
+
+// offline-env turns the cache off so scenario evals score the model; this check is about the cache
+process.env.SEMANTIC_CACHE = 'on';
+process.env.SEMANTIC_CACHE_EMBEDDINGS = 'local';
+
+const cases: SemanticCases = JSON.parse(readFileSync(path.join(__dirname, 'cases.json'), 'utf8'));
+
+async function main() {
+  const embedder = getEmbedder();
+  if (embedder.id !== localEmbedder.id) {
+    throw new Error(`Expected the local embedder, got ${embedder.id}`);
+  }
+
+  const failures: string[] = [];
+  const indexes = new Map<string, SemanticIndex>();
+  for (const [i, group] of cases.groups.entries()) {
+    const entry: SemanticIndexEntry = {
+      id: `group-${i}`,
+      status: 'approved',
+      question: group.questions[0],
+      answer: '',
+      embedding: await embedder.embed(group.questions[0]),
+    };
+    if (!indexes.has(group.mode)) {
+      indexes.set(group.mode, new SemanticIndex());
+    }
+    indexes.get(group.mode)!.add(entry);
+  }
+
+  let lowestMatch = 1;
+  for (const [i, group] of cases.groups.entries()) {
+    for (const question of group.questions.slice(1)) {
+      const match = indexes.get(group.mode)!.nearest(await embedder.embed(question), 0);
+      const similarity = match?.similarity ?? 0;
+      lowestMatch = Math.min(lowestMatch, similarity);
+      if (match?.entry.id !== `group-${i}` || similarity < embedder.threshold) {
+        failures.push(`"${question}" should match "${group.questions[0]}" (nearest: "${match?.entry.question}", ${similarity.toFixed(3)})`);
+      }
+    }
+  }
+
+  let highestMiss = 0;
+  for (const { mode, question } of cases.distinct) {
+    const match = indexes.get(mode)?.nearest(await embedder.embed(question), 0);
+    const similarity = match?.similarity ?? 0;
+    highestMiss = Math.max(highestMiss, similarity);
+    if (similarity >= embedder.threshold) {
+      failures.push(`"${question}" should not match "${match?.entry.question}" (${similarity.toFixed(3)})`);
+    }
+  }
+
+  for (const { mode, question, eligible } of cases.eligibility) {
+    const companionMode = getCompanionMode(mode);
+    if (!companionMode) {
+      throw new Error(`Unknown mode in cases.json: ${mode}`);
+    }
+    const result = getSemanticCacheQuestion(companionMode, [{ role: 'user', content: question }]) !== null;
+    if (result !== eligible) {
+      failures.push(`"${question}" in ${mode} should ${eligible ? '' : 'not '}be eligible`);
+    }
+  }
+
+  const total = cases.groups.reduce((sum, group) => sum + group.questions.length - 1, 0)
+    + cases.distinct.length + cases.eligibility.length;
+  console.log(`${embedder.id} at threshold ${embedder.threshold}`);
+  console.log(`  lowest rewording similarity ${lowestMatch.toFixed(3)}, highest distinct similarity ${highestMiss.toFixed(3)}`);
+  failures.forEach((failure) => console.log(`  FAIL ${failure}`));
+  console.log(`${total - failures.length}/${total} cases passed`);
+
+  if (failures.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
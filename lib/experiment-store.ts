@@ -0,0 +1,211 @@
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import type { Database, ExperimentVariant } from '@/lib/supabase';
+
+export type ExperimentRecord = Database['public']['Tables']['experiments']['Row'];
+export type EngagementInsert = Database['public']['Tables']['engagement_metrics']['Insert'];
+
+export interface VariantStats {
+  variant: ExperimentVariant['id'];
+  sessions: number;
+  visitors: number;
+  // Chat turns per session, and minutes from a session's first turn to its last
+  avgTurnsPerSession: number;
+  avgSessionMinutes: number;
+  // Share of visitors who came back for a second session
+  returnRate: number;
+  thumbsUp: number;
+  thumbsDown: number;
+  // Null until the variant has any ratings
+  thumbsUpRate: number | null;
+  totalCost: number;
+  costPerSession: number;
+}
+
+export interface ExperimentResults {
+  experiment: ExperimentRecord;
+  variants: VariantStats[];
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+export class ExperimentStore {
+  async listExperiments(): Promise<ExperimentRecord[]> {
+    try {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase
+        .from('experiments')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching experiments:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching experiments:', error);
+      return [];
+    }
+  }
+
+  /**
+   * The experiment currently running in a mode. Throws on database errors so
+   * callers can tell "no experiment" (null) from "could not check".
+   */
+  async getRunning(mode: string): Promise<ExperimentRecord | null> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('experiments')
+      .select('*')
+      .eq('mode', mode)
+      .eq('status', 'running')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Start an experiment; fails if the mode already has one running
+   */
+  async createExperiment(
+    experiment: Database['public']['Tables']['experiments']['Insert']
+  ): Promise<ExperimentRecord | null> {
+    try {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase
+        .from('experiments')
+        .insert(experiment)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating experiment:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error creating experiment:', error);
+      return null;
+    }
+  }
+
+  async stopExperiment(id: string): Promise<ExperimentRecord | null> {
+    try {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase
+        .from('experiments')
+        .update({ status: 'stopped', stopped_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('status', 'running')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error stopping experiment:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error stopping experiment:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record a chat turn, with its experiment assignment, as an engagement event
+   */
+  async recordEngagement(event: EngagementInsert): Promise<void> {
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase.from('engagement_metrics').insert(event);
+
+      if (error) {
+        console.error('Error recording engagement:', error);
+      }
+    } catch (error) {
+      console.error('Error recording engagement:', error);
+    }
+  }
+
+  /**
+   * Compare an experiment's variants on session length, return rate, ratings and cost
+   */
+  async getResults(experiment: ExperimentRecord): Promise<ExperimentResults> {
+    const supabase = createServiceClient();
+    const [engagement, usage, feedback] = await Promise.all([
+      supabase
+        .from('engagement_metrics')
+        .select('visitor_id, session_id, experiment_variant, timestamp')
+        .eq('experiment_id', experiment.id),
+      supabase
+        .from('api_usage')
+        .select('usage_dollars, experiment_variant')
+        .eq('experiment_id', experiment.id),
+      supabase
+        .from('message_feedback')
+        .select('rating, experiment_variant')
+        .eq('experiment_id', experiment.id),
+    ]);
+
+    if (engagement.error) {
+      console.error('Error fetching experiment engagement:', engagement.error);
+    }
+    if (usage.error) {
+      console.error('Error fetching experiment usage:', usage.error);
+    }
+    if (feedback.error) {
+      console.error('Error fetching experiment feedback:', feedback.error);
+    }
+
+    const variants = experiment.variants.map(({ id }): VariantStats => {
+      const events = (engagement.data || []).filter((row) => row.experiment_variant === id);
+
+      const sessions = new Map<string, number[]>();
+      const visitorSessions = new Map<string, Set<string>>();
+      for (const event of events) {
+        const times = sessions.get(event.session_id) ?? [];
+        times.push(new Date(event.timestamp).getTime());
+        sessions.set(event.session_id, times);
+
+        const visitor = visitorSessions.get(event.visitor_id) ?? new Set<string>();
+        visitor.add(event.session_id);
+        visitorSessions.set(event.visitor_id, visitor);
+      }
+
+      const sessionTimes = Array.from(sessions.values());
+      const returning = Array.from(visitorSessions.values()).filter((ids) => ids.size > 1).length;
+      const totalCost = (usage.data || [])
+        .filter((row) => row.experiment_variant === id)
+        .reduce((sum, row) => sum + Number(row.usage_dollars), 0);
+      const ratings = (feedback.data || []).filter((row) => row.experiment_variant === id);
+      const thumbsUp = ratings.filter((row) => row.rating === 'up').length;
+
+      return {
+        variant: id,
+        sessions: sessions.size,
+        visitors: visitorSessions.size,
+        avgTurnsPerSession: average(sessionTimes.map((times) => times.length)),
+        avgSessionMinutes: average(sessionTimes.map((times) => (Math.max(...times) - Math.min(...times)) / 60000)),
+        returnRate: visitorSessions.size > 0 ? returning / visitorSessions.size : 0,
+        thumbsUp,
+        thumbsDown: ratings.length - thumbsUp,
+        thumbsUpRate: ratings.length > 0 ? thumbsUp / ratings.length : null,
+        totalCost,
+        costPerSession: sessions.size > 0 ? totalCost / sessions.size : 0,
+      };
+    });
+
+    return { experiment, variants };
+  }
+}
+
+// Export singleton instance
+export const experimentStore = new ExperimentStore();
@@ -0,0 +1,206 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import type { Database } from '@/lib/supabase';
+import { FEEDBACK_REASONS, isFeedbackReason } from '@/lib/companion/feedback';
+
+export type FeedbackRecord = Database['public']['Tables']['message_feedback']['Row'];
+export type FeedbackInsert = Database['public']['Tables']['message_feedback']['Insert'];
+export type ReplyAttributionRecord = Database['public']['Tables']['reply_attributions']['Row'];
+export type ReplyAttributionInsert = Database['public']['Tables']['reply_attributions']['Insert'];
+
+export interface FeedbackCounts {
+  up: number;
+  down: number;
+  // Null until there are any ratings
+  upRate: number | null;
+}
+
+export interface FeedbackBreakdown extends FeedbackCounts {
+  key: string;
+  label: string;
+}
+
+export interface FeedbackSummary {
+  totals: FeedbackCounts;
+  byMode: FeedbackBreakdown[];
+  byModel: FeedbackBreakdown[];
+  byPromptVersion: FeedbackBreakdown[];
+  // Thumbs-down reasons, most common first
+  reasons: { reason: string; label: string; count: number }[];
+  recentNegative: FeedbackRecord[];
+}
+
+// Enough of the reply to judge it without keeping whole conversations
+const MAX_EXCERPT_LENGTH = 500;
+
+// Ratings read per summary; older ones in the range are left out
+const MAX_SUMMARY_ROWS = 5000;
+
+function countRatings(rows: Pick<FeedbackRecord, 'rating'>[]): FeedbackCounts {
+  const up = rows.filter((row) => row.rating === 'up').length;
+  const down = rows.length - up;
+  return { up, down, upRate: rows.length > 0 ? up / rows.length : null };
+}
+
+function breakdown<T extends Pick<FeedbackRecord, 'rating'>>(
+  rows: T[],
+  keyOf: (row: T) => string,
+  labelOf: (row: T) => string
+): FeedbackBreakdown[] {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({ key, label: labelOf(group[0]), ...countRatings(group) }))
+    .sort((a, b) => b.up + b.down - (a.up + a.down));
+}
+
+export class FeedbackStore {
+  /**
+   * Record what served a model reply, so a rating of it can be attributed
+   */
+  async recordReply(reply: ReplyAttributionInsert): Promise<void> {
+    try {
+      const supabase = createServiceClient();
+      const { error } = await supabase
+        .from('reply_attributions')
+        .upsert({ ...reply, excerpt: reply.excerpt.slice(0, MAX_EXCERPT_LENGTH) }, { onConflict: 'message_id' });
+
+      if (error) {
+        console.error('Error recording reply attribution:', error);
+      }
+    } catch (error) {
+      console.error('Error recording reply attribution:', error);
+    }
+  }
+
+  async getReply(messageId: string): Promise<ReplyAttributionRecord | null> {
+    try {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase
+        .from('reply_attributions')
+        .select('*')
+        .eq('message_id', messageId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error getting reply attribution:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error getting reply attribution:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save a rating; a visitor rating the same message again replaces their earlier rating
+   */
+  async saveFeedback(feedback: FeedbackInsert): Promise<FeedbackRecord | null> {
+    try {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase
+        .from('message_feedback')
+        .upsert(
+          {
+            ...feedback,
+            excerpt: feedback.excerpt.slice(0, MAX_EXCERPT_LENGTH),
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'message_id,visitor_id' }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving feedback:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error saving feedback:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Withdraw a visitor's rating of a message; false when there was none
+   */
+  async removeFeedback(messageId: string, visitorId: string): Promise<boolean> {
+    try {
+      const supabase = createServiceClient();
+      const { count, error } = await supabase
+        .from('message_feedback')
+        .delete({ count: 'exact' })
+        .eq('message_id', messageId)
+        .eq('visitor_id', visitorId);
+
+      if (error) {
+        console.error('Error removing feedback:', error);
+        return false;
+      }
+
+      return (count ?? 0) > 0;
+    } catch (error) {
+      console.error('Error removing feedback:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Ratings over the last `days`, broken down by mode, model and prompt version, with
+   * the latest thumbs-down replies for review
+   */
+  async getSummary(days: number): Promise<FeedbackSummary> {
+    const supabase = createServiceClient();
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const { data, error } = await supabase
+      .from('message_feedback')
+      .select('*, prompt_versions(key, version)')
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(MAX_SUMMARY_ROWS);
+
+    if (error) {
+      throw error;
+    }
+
+    type FeedbackRow = FeedbackRecord & { prompt_versions: { key: string; version: number } | null };
+    const rows: FeedbackRow[] = data || [];
+    const negative = rows.filter((row) => row.rating === 'down');
+
+    const reasonCounts = new Map<string, number>();
+    for (const row of negative) {
+      if (row.reason) {
+        reasonCounts.set(row.reason, (reasonCounts.get(row.reason) ?? 0) + 1);
+      }
+    }
+
+    return {
+      totals: countRatings(rows),
+      byMode: breakdown(rows, (row) => row.mode, (row) => row.mode),
+      byModel: breakdown(rows, (row) => row.model_id ?? 'unknown', (row) => row.model_id ?? 'Unknown'),
+      byPromptVersion: breakdown(
+        rows,
+        (row) => row.prompt_version_id ?? `${row.mode}.default`,
+        (row) => (row.prompt_versions ? `${row.prompt_versions.key} v${row.prompt_versions.version}` : `${row.mode}.system default`)
+      ),
+      reasons: Array.from(reasonCounts.entries())
+        .map(([reason, count]) => ({
+          reason,
+          label: isFeedbackReason(reason) ? FEEDBACK_REASONS[reason] : reason,
+          count,
+        }))
+        .sort((a, b) => b.count - a.count),
+      recentNegative: negative.slice(0, 20),
+    };
+  }
+}
+
+// Export singleton instance
+export const feedbackStore = new FeedbackStore();
@@ -3,4 +3,8 @@ const corporate = `I am your corporate wellness companion, designed to support y
 const emotional = `I'm your emotional support companion, here to be present during life's difficult or overwhelming moments. Whether you're feeling lonely, anxious, stuck in overthinking or just need someone to listen, I'll offer a safe, judgment-free space to share and reflect. 
 What's your name?`
 
-export { corporate, emotional };
+const travel = `I'm your travel companion, here to help you go from dreaming to boarding. I can shape trip ideas, build day-by-day itineraries around your pace and budget, and help you adapt when plans change. Where are you thinking of going?`
+
+const culture = `I'm your culture and communication companion. I can walk you through local etiquette, explain the why behind social norms, and practice real conversations with you so you feel confident connecting with people. Which situation would you like to explore first?`
+
+export { corporate, emotional, travel, culture };
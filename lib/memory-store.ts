@@ -0,0 +1,118 @@
+import { createClient } from '@/lib/supabase/server';
+import type { Database } from '@/lib/supabase';
+
+export type MemoryRecord = Database['public']['Tables']['user_memories']['Row'];
+export type MemoryCategory = MemoryRecord['category'];
+
+export const MEMORY_CATEGORIES: MemoryCategory[] = ['name', 'role', 'company', 'stressor', 'preference', 'other'];
+
+const MEMORY_COLUMNS = 'id, user_id, category, fact, created_at, updated_at';
+
+export const MAX_FACT_LENGTH = 200;
+
+export function isMemoryCategory(value: unknown): value is MemoryCategory {
+  return typeof value === 'string' && (MEMORY_CATEGORIES as string[]).includes(value);
+}
+
+export class MemoryStore {
+  /**
+   * Get everything remembered about a user, oldest first
+   */
+  async listMemories(userId: string): Promise<MemoryRecord[]> {
+    try {
+      const supabase = await createClient();
+      const { data, error } = await supabase
+        .from('user_memories')
+        .select(MEMORY_COLUMNS)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching memories:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching memories:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remember new facts about a user
+   */
+  async addMemories(userId: string, facts: { category: MemoryCategory; fact: string }[]): Promise<void> {
+    if (facts.length === 0) {
+      return;
+    }
+
+    try {
+      const supabase = await createClient();
+      const { error } = await supabase
+        .from('user_memories')
+        .insert(facts.map(({ category, fact }) => ({
+          user_id: userId,
+          category,
+          fact: fact.slice(0, MAX_FACT_LENGTH),
+        })));
+
+      if (error) {
+        console.error('Error saving memories:', error);
+      }
+    } catch (error) {
+      console.error('Error saving memories:', error);
+    }
+  }
+
+  /**
+   * Correct a remembered fact (RLS scopes the update to the owner)
+   */
+  async updateMemory(id: string, fact: string): Promise<MemoryRecord | null> {
+    try {
+      const supabase = await createClient();
+      const { data, error } = await supabase
+        .from('user_memories')
+        .update({ fact: fact.slice(0, MAX_FACT_LENGTH), updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select(MEMORY_COLUMNS)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error updating memory:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error updating memory:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Forget a single fact; false when the user has no memory with this ID (RLS scopes the delete)
+   */
+  async deleteMemory(id: string): Promise<boolean> {
+    try {
+      const supabase = await createClient();
+      const { count, error } = await supabase
+        .from('user_memories')
+        .delete({ count: 'exact' })
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting memory:', error);
+        return false;
+      }
+
+      return (count ?? 0) > 0;
+    } catch (error) {
+      console.error('Error deleting memory:', error);
+      return false;
+    }
+  }
+}
+
+// Export singleton instance
+export const memoryStore = new MemoryStore();
@@ -0,0 +1,225 @@
+import { createHash } from 'node:crypto';
+import type { User } from '@supabase/supabase-js';
+import { createServiceClient } from '@/lib/supabase/server';
+import type { Database } from '@/lib/supabase';
+import { createZip } from '@/lib/privacy/zip';
+
+export type AccountDeletionRecord = Database['public']['Tables']['account_deletions']['Row'];
+
+// Every table holding rows about a user, keyed on user_id. Children come before their parents
+// (messages before conversations) so each row is counted where it lives, not via a cascade.
+export const USER_DATA_TABLES = [
+  'messages',
+  'conversations',
+  'user_memories',
+  'journal_entries',
+  'mood_checkins',
+  'message_feedback',
+  'reply_attributions',
+  'api_usage',
+  'prompt_usage',
+  'safety_events',
+  'guardrail_violations',
+  'login_history',
+  'engagement_metrics',
+] as const;
+
+export type UserDataTable = (typeof USER_DATA_TABLES)[number];
+
+// Analytics rows recorded before sign-in only carry the browser's visitor ID. A visitor ID can be
+// shared by several accounts on one browser, so its rows only count when they belong to no one
+// else: user_id is null or the user's own.
+const VISITOR_TABLES: UserDataTable[] = ['engagement_metrics', 'message_feedback', 'reply_attributions'];
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+export function hashEmail(email: string): string {
+  return createHash('sha256').update(email.trim().toLowerCase()).digest('hex');
+}
+
+// Rows that belong to the user or to no signed-in user at all
+function ownerFilter(userId: string): string {
+  return `user_id.is.null,user_id.eq.${userId}`;
+}
+
+export class PrivacyStore {
+  private async selectAll(
+    table: UserDataTable,
+    column: string,
+    values: string[],
+    ownerId?: string
+  ): Promise<{ id: string }[]> {
+    if (values.length === 0) {
+      return [];
+    }
+
+    const supabase = createServiceClient();
+    const rows: { id: string }[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase.from(table).select('*').in(column, values);
+      if (ownerId) {
+        query = query.or(ownerFilter(ownerId));
+      }
+      const { data, error } = await query
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Could not read ${table}: ${error.message}`);
+      }
+
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) {
+        return rows;
+      }
+    }
+  }
+
+  /**
+   * Visitor IDs tied to the account: those recorded on the user's own rows. A visitor ID sent by
+   * the client is never trusted, since anyone could send someone else's.
+   */
+  async findVisitorIds(userId: string): Promise<string[]> {
+    const visitorIds = new Set<string>();
+    for (const table of VISITOR_TABLES) {
+      const rows = await this.selectAll(table, 'user_id', [userId]);
+      rows.forEach((row) => {
+        const { visitor_id: visitorId } = row as { id: string; visitor_id: string | null };
+        if (visitorId) {
+          visitorIds.add(visitorId);
+        }
+      });
+    }
+    return Array.from(visitorIds);
+  }
+
+  /**
+   * Every row we hold about the user, by table
+   */
+  async collectUserData(userId: string, visitorIds: string[]): Promise<Record<UserDataTable, unknown[]>> {
+    const data = {} as Record<UserDataTable, unknown[]>;
+    for (const table of USER_DATA_TABLES) {
+      const rows = await this.selectAll(table, 'user_id', [userId]);
+      if (VISITOR_TABLES.includes(table)) {
+        const seen = new Set(rows.map((row) => row.id));
+        const visitorRows = await this.selectAll(table, 'visitor_id', visitorIds, userId);
+        rows.push(...visitorRows.filter((row) => !seen.has(row.id)));
+      }
+      data[table] = rows;
+    }
+    return data;
+  }
+
+  /**
+   * A ZIP archive with the account profile, one JSON file per table and a manifest
+   */
+  async exportUserData(user: User): Promise<Buffer> {
+    const exportedAt = new Date();
+    const visitorIds = await this.findVisitorIds(user.id);
+    const data = await this.collectUserData(user.id, visitorIds);
+
+    const profile = {
+      id: user.id,
+      email: user.email ?? null,
+      provider: user.app_metadata?.provider ?? 'email',
+      name: user.user_metadata?.name ?? null,
+      avatar_url: user.user_metadata?.avatar_url ?? null,
+      created_at: user.created_at,
+      last_sign_in_at: user.last_sign_in_at ?? null,
+      visitor_ids: visitorIds,
+    };
+
+    const manifest = {
+      exported_at: exportedAt.toISOString(),
+      user_id: user.id,
+      files: ['profile.json', ...USER_DATA_TABLES.map((table) => `${table}.json`)],
+      row_counts: Object.fromEntries(USER_DATA_TABLES.map((table) => [table, data[table].length])),
+      note: 'Conversations kept in a browser while signed out are stored only in that browser, apart from '
+        + 'the opening of each reply in reply_attributions. Export them from the conversation history sidebar.',
+    };
+
+    return createZip([
+      { name: 'manifest.json', content: JSON.stringify(manifest, null, 2) },
+      { name: 'profile.json', content: JSON.stringify(profile, null, 2) },
+      ...USER_DATA_TABLES.map((table) => ({ name: `${table}.json`, content: JSON.stringify(data[table], null, 2) })),
+    ], exportedAt);
+  }
+
+  /**
+   * Delete the account and everything linked to it, recording the deletion in account_deletions.
+   * The audit row is written first and marked failed if any step fails, so an incomplete
+   * deletion can be finished by an admin.
+   */
+  async deleteAccount(user: Pick<User, 'id' | 'email'>): Promise<AccountDeletionRecord> {
+    const supabase = createServiceClient();
+    const { data: audit, error: auditError } = await supabase
+      .from('account_deletions')
+      .insert({ user_id: user.id, email_hash: user.email ? hashEmail(user.email) : null })
+      .select()
+      .single();
+
+    if (auditError || !audit) {
+      throw new Error(`Could not record account deletion: ${auditError?.message ?? 'no row returned'}`);
+    }
+
+    const deletedRows: Record<string, number> = {};
+    try {
+      const visitorIds = await this.findVisitorIds(user.id);
+
+      for (const table of USER_DATA_TABLES) {
+        const { count, error } = await supabase.from(table).delete({ count: 'exact' }).eq('user_id', user.id);
+        if (error) {
+          throw new Error(`Could not delete ${table}: ${error.message}`);
+        }
+        deletedRows[table] = count ?? 0;
+
+        if (VISITOR_TABLES.includes(table) && visitorIds.length > 0) {
+          const { count: visitorCount, error: visitorError } = await supabase
+            .from(table)
+            .delete({ count: 'exact' })
+            .in('visitor_id', visitorIds)
+            .or(ownerFilter(user.id));
+          if (visitorError) {
+            throw new Error(`Could not delete ${table} by visitor: ${visitorError.message}`);
+          }
+          deletedRows[table] += visitorCount ?? 0;
+        }
+      }
+
+      const { error: authError } = await supabase.auth.admin.deleteUser(user.id);
+      if (authError) {
+        throw new Error(`Could not delete auth user: ${authError.message}`);
+      }
+      deletedRows['auth.users'] = 1;
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      const { data: failed } = await supabase
+        .from('account_deletions')
+        .update({
+          status: 'failed',
+          deleted_rows: deletedRows,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+        .eq('id', audit.id)
+        .select()
+        .single();
+      return failed ?? { ...audit, status: 'failed', deleted_rows: deletedRows };
+    }
+
+    const { data: completed, error: completeError } = await supabase
+      .from('account_deletions')
+      .update({ status: 'completed', deleted_rows: deletedRows, completed_at: new Date().toISOString() })
+      .eq('id', audit.id)
+      .select()
+      .single();
+
+    if (completeError) {
+      console.error('Error completing account deletion record:', completeError);
+    }
+    return completed ?? { ...audit, status: 'completed', deleted_rows: deletedRows };
+  }
+}
+
+// Export singleton instance
+export const privacyStore = new PrivacyStore();
@@ -0,0 +1,216 @@
+import { randomUUID } from 'crypto';
+import { createServiceClient } from '@/lib/supabase/server';
+import { privacyStore, USER_DATA_TABLES, type UserDataTable } from '@/lib/privacy-store';
+import { readZip } from './zip';
+
+// End-to-end check of the privacy center against a local Supabase stack.
+//
+//   supabase start                  then apply supabase-schema.sql to the local database
+//   pnpm privacy:verify             with NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY
+//                                   pointing at it (see `supabase status`)
+//
+// Creates a throwaway user, seeds a row in every table that holds user data, exports the
+// data and reads the ZIP back, then deletes the account and checks nothing is left behind.
+// A second user shares the browser's visitor ID; their rows must be neither exported nor deleted.
+// Exits 1 on the first failed check. Refuses to run against a hosted project.
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? '';
+
+function check(condition: unknown, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+  console.log(`  ok  ${message}`);
+}
+
+async function insert(table: UserDataTable, row: Record<string, unknown>): Promise<string> {
+  const { data, error } = await createServiceClient().from(table).insert(row).select('id').single();
+  if (error || !data) {
+    throw new Error(`Could not seed ${table}: ${error?.message ?? 'no row returned'}`);
+  }
+  return data.id;
+}
+
+async function seed(userId: string, visitorId: string): Promise<Record<UserDataTable, number>> {
+  const conversationId = await insert('conversations', { user_id: userId, mode: 'emotional', title: 'Privacy check' });
+  const userMessageId = await insert('messages', {
+    conversation_id: conversationId,
+    user_id: userId,
+    role: 'user',
+    content: 'I have been feeling stressed at work',
+    transcript: 'I have been feeling stressed at work',
+  });
+  await insert('messages', {
+    conversation_id: conversationId,
+    parent_id: userMessageId,
+    user_id: userId,
+    role: 'assistant',
+    content: 'That sounds hard. What has been weighing on you most?',
+  });
+  await insert('user_memories', { user_id: userId, category: 'stressor', fact: 'Deadlines at work' });
+  await insert('journal_entries', { user_id: userId, thread_id: conversationId, mode: 'emotional', content: 'Wrote it down' });
+  await insert('mood_checkins', { user_id: userId, thread_id: conversationId, mode: 'emotional', rating: 2, feeling: 'stressed' });
+  await insert('message_feedback', {
+    message_id: userMessageId,
+    thread_id: conversationId,
+    mode: 'emotional',
+    user_id: userId,
+    visitor_id: visitorId,
+    rating: 'up',
+    excerpt: 'That sounds hard.',
+  });
+  // Given before signing in, so only the visitor ID links it to the account
+  await insert('message_feedback', {
+    message_id: randomUUID(),
+    mode: 'emotional',
+    visitor_id: visitorId,
+    rating: 'down',
+    excerpt: 'Signed-out reply',
+  });
+  const reply = { thread_id: conversationId, mode: 'emotional', model_id: 'openai:gpt-4o-mini' };
+  await insert('reply_attributions', {
+    ...reply,
+    message_id: randomUUID(),
+    user_id: userId,
+    visitor_id: visitorId,
+    excerpt: 'That sounds hard.',
+  });
+  await insert('reply_attributions', { ...reply, message_id: randomUUID(), visitor_id: visitorId, excerpt: 'Signed-out reply' });
+  await insert('api_usage', { user_id: userId, usage_dollars: 0.0012, api_type: 'text', model: 'gpt-4o-mini', tokens_used: 120 });
+  await insert('prompt_usage', { user_id: userId, prompt_key: 'chat:emotional', channel: 'chat', thread_id: conversationId });
+  await insert('safety_events', { user_id: userId, thread_id: conversationId, mode: 'emotional', source: 'keywords', excerpt: 'stressed' });
+  await insert('guardrail_violations', {
+    user_id: userId,
+    thread_id: conversationId,
+    mode: 'emotional',
+    rule_id: 'diagnosis',
+    action: 'rewrite',
+    source: 'regex',
+    excerpt: 'You have anxiety',
+  });
+  await insert('login_history', { user_id: userId, ip_address: '127.0.0.1', user_agent: 'privacy-verify' });
+  const engagement = { session_id: randomUUID(), service_used: 'chat', environment: 'dev', ip_address: '127.0.0.1' };
+  await insert('engagement_metrics', { ...engagement, visitor_id: visitorId, user_id: userId });
+  await insert('engagement_metrics', { ...engagement, visitor_id: visitorId });
+
+  return {
+    messages: 2,
+    conversations: 1,
+    user_memories: 1,
+    journal_entries: 1,
+    mood_checkins: 1,
+    message_feedback: 2,
+    reply_attributions: 2,
+    api_usage: 1,
+    prompt_usage: 1,
+    safety_events: 1,
+    guardrail_violations: 1,
+    login_history: 1,
+    engagement_metrics: 2,
+  };
+}
+
+async function countRemaining(userId: string, visitorId: string): Promise<number> {
+  const supabase = createServiceClient();
+  let remaining = 0;
+  for (const table of USER_DATA_TABLES) {
+    const { count } = await supabase.from(table).select('id', { count: 'exact', head: true }).eq('user_id', userId);
+    remaining += count ?? 0;
+  }
+  for (const table of ['engagement_metrics', 'message_feedback', 'reply_attributions'] as const) {
+    const { count } = await supabase
+      .from(table)
+      .select('id', { count: 'exact', head: true })
+      .eq('visitor_id', visitorId)
+      .or(`user_id.is.null,user_id.eq.${userId}`);
+    remaining += count ?? 0;
+  }
+  return remaining;
+}
+
+async function main() {
+  const { hostname } = new URL(supabaseUrl || 'http://invalid');
+  if (!['localhost', '127.0.0.1', 'host.docker.internal'].includes(hostname)) {
+    throw new Error(`NEXT_PUBLIC_SUPABASE_URL must point at a local Supabase (got "${supabaseUrl || 'unset'}")`);
+  }
+
+  const supabase = createServiceClient();
+  const email = `privacy-verify-${Date.now()}@example.com`;
+  const visitorId = `visitor_verify_${randomUUID()}`;
+  const { data: created, error: createError } = await supabase.auth.admin.createUser({
+    email,
+    password: randomUUID(),
+    email_confirm: true,
+  });
+  if (createError || !created.user) {
+    throw new Error(`Could not create test user: ${createError?.message ?? 'no user returned'}`);
+  }
+  const user = created.user;
+
+  const { data: sharing, error: sharingError } = await supabase.auth.admin.createUser({
+    email: `privacy-verify-other-${Date.now()}@example.com`,
+    password: randomUUID(),
+    email_confirm: true,
+  });
+  if (sharingError || !sharing.user) {
+    await supabase.auth.admin.deleteUser(user.id).catch(() => undefined);
+    throw new Error(`Could not create second test user: ${sharingError?.message ?? 'no user returned'}`);
+  }
+  const otherUser = sharing.user;
+
+  try {
+    console.log(`Seeding data for ${email}`);
+    const expected = await seed(user.id, visitorId);
+    // Another account signed in on the same browser
+    const otherRowId = await insert('engagement_metrics', {
+      session_id: randomUUID(),
+      service_used: 'chat',
+      environment: 'dev',
+      visitor_id: visitorId,
+      user_id: otherUser.id,
+    });
+
+    console.log('Exporting');
+    const files = new Map(readZip(await privacyStore.exportUserData(user))
+      .map((entry) => [entry.name, JSON.parse(entry.content.toString('utf8'))]));
+    check(files.has('manifest.json') && files.has('profile.json'), 'archive has a manifest and profile');
+    check(files.get('profile.json').email === email, 'profile carries the account email');
+    for (const table of USER_DATA_TABLES) {
+      const rows = files.get(`${table}.json`);
+      check(Array.isArray(rows) && rows.length === expected[table], `${table}.json has ${expected[table]} row(s)`);
+      check(files.get('manifest.json').row_counts[table] === expected[table], `manifest counts ${table}`);
+    }
+    check(
+      !files.get('engagement_metrics.json').some((row: { id: string }) => row.id === otherRowId),
+      'rows of another account on the same visitor ID are not exported'
+    );
+
+    console.log('Deleting');
+    const deletion = await privacyStore.deleteAccount(user);
+    check(deletion.status === 'completed', `deletion completed${deletion.error ? ` (${deletion.error})` : ''}`);
+    for (const table of USER_DATA_TABLES) {
+      check(deletion.deleted_rows[table] === expected[table], `audit records ${expected[table]} ${table} row(s) deleted`);
+    }
+    check(await countRemaining(user.id, visitorId) === 0, 'no rows remain for the user or visitor');
+    const { data: otherRow } = await supabase.from('engagement_metrics').select('id').eq('id', otherRowId).maybeSingle();
+    check(otherRow, 'rows of another account on the same visitor ID are kept');
+
+    const { data: authUser } = await supabase.auth.admin.getUserById(user.id);
+    check(!authUser?.user, 'auth user is gone');
+
+    const { data: audit } = await supabase.from('account_deletions').select('*').eq('id', deletion.id).single();
+    check(audit?.status === 'completed' && audit.completed_at && audit.user_id === user.id, 'audit row is stored');
+    check(!JSON.stringify(audit).includes(email), 'audit row does not store the email');
+  } finally {
+    // Leave nothing behind if a check failed before the deletion ran
+    await supabase.auth.admin.deleteUser(user.id).catch(() => undefined);
+    await supabase.auth.admin.deleteUser(otherUser.id).catch(() => undefined);
+  }
+
+  console.log('\nPrivacy export and deletion verified');
+}
+
+main().catch((error) => {
+  console.error(`\nPrivacy verification failed: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,219 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import type { Database } from '@/lib/supabase';
+
+export type PromptVersionRecord = Database['public']['Tables']['prompt_versions']['Row'];
+export type PromptUsageInsert = Database['public']['Tables']['prompt_usage']['Insert'];
+
+export class PromptStore {
+  /**
+   * List prompt versions, newest first, optionally for one key
+   */
+  async listVersions(key?: string): Promise<PromptVersionRecord[]> {
+    try {
+      const supabase = createServiceClient();
+      let query = supabase
+        .from('prompt_versions')
+        .select('*')
+        .order('key', { ascending: true })
+        .order('version', { ascending: false });
+
+      if (key) {
+        query = query.eq('key', key);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching prompt versions:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching prompt versions:', error);
+      return [];
+    }
+  }
+
+  async getVersion(id: string): Promise<PromptVersionRecord | null> {
+    try {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase
+        .from('prompt_versions')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching prompt version:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error fetching prompt version:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The published version of a prompt. Throws on database errors so callers can
+   * tell "nothing published" (null) from "could not check".
+   */
+  async getPublished(key: string): Promise<PromptVersionRecord | null> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('prompt_versions')
+      .select('*')
+      .eq('key', key)
+      .eq('status', 'published')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Save a new draft as the next version of a prompt
+   */
+  async createDraft(key: string, content: string, changelog: string): Promise<PromptVersionRecord | null> {
+    try {
+      const supabase = createServiceClient();
+      const { data: latest } = await supabase
+        .from('prompt_versions')
+        .select('version')
+        .eq('key', key)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const { data, error } = await supabase
+        .from('prompt_versions')
+        .insert({ key, content, changelog, version: (latest?.version ?? 0) + 1 })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating prompt draft:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error creating prompt draft:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Edit a draft; published and archived versions are immutable
+   */
+  async updateDraft(id: string, update: { content?: string; changelog?: string }): Promise<PromptVersionRecord | null> {
+    try {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase
+        .from('prompt_versions')
+        .update(update)
+        .eq('id', id)
+        .eq('status', 'draft')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error updating prompt draft:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error updating prompt draft:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Publish a draft, archiving the version it replaces. Both happen in one transaction in
+   * publish_prompt_version, so a failure leaves the previous version published.
+   */
+  async publish(id: string): Promise<PromptVersionRecord | null> {
+    try {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase.rpc('publish_prompt_version', { p_id: id }).maybeSingle();
+
+      if (error) {
+        console.error('Error publishing prompt:', error);
+        return null;
+      }
+
+      // No row when the version is not a draft
+      return (data as PromptVersionRecord | null) ?? null;
+    } catch (error) {
+      console.error('Error publishing prompt:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Roll back to an earlier version by publishing a copy of it as the next version,
+   * so the history stays append-only
+   */
+  async rollback(id: string): Promise<PromptVersionRecord | null> {
+    const target = await this.getVersion(id);
+    if (!target) {
+      return null;
+    }
+
+    const draft = await this.createDraft(target.key, target.content, `Rolled back to version ${target.version}`);
+    return draft ? this.publish(draft.id) : null;
+  }
+
+  /**
+   * Delete a draft that was never published
+   */
+  async deleteDraft(id: string): Promise<boolean> {
+    try {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase
+        .from('prompt_versions')
+        .delete()
+        .eq('id', id)
+        .eq('status', 'draft')
+        .select('id');
+
+      if (error) {
+        console.error('Error deleting prompt draft:', error);
+        return false;
+      }
+
+      return (data?.length ?? 0) > 0;
+    } catch (error) {
+      console.error('Error deleting prompt draft:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record which prompt versions served a response or session
+   */
+  async recordUsage(rows: PromptUsageInsert[]): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+
+    try {
+      const supabase = createServiceClient();
+      const { error } = await supabase.from('prompt_usage').insert(rows);
+
+      if (error) {
+        console.error('Error recording prompt usage:', error);
+      }
+    } catch (error) {
+      console.error('Error recording prompt usage:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const promptStore = new PromptStore();
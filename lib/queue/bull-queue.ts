@@ -1,30 +1,9 @@
 import Queue from 'bull';
 import type { Queue as BullQueue } from 'bull';
 import { redisClient, initRedis, isRedisReady } from '../redis';
+import { QUEUE_NAMES, QUEUE_SETTINGS, type QueueName } from './config';
 
-// Queue names
-export const QUEUE_NAMES = {
-  OPENAI_CHAT: 'openai-chat',
-  AUDIO_PROCESSING: 'audio-processing',
-  LARGE_REQUESTS: 'large-requests',
-  ANALYTICS: 'analytics',
-} as const;
-
-// Job priorities
-export const JOB_PRIORITIES = {
-  HIGH: 1,
-  NORMAL: 2,
-  LOW: 3,
-  BULK: 4,
-} as const;
-
-// Job types
-export const JOB_TYPES = {
-  CHAT_REQUEST: 'chat-request',
-  AUDIO_TRANSCRIPTION: 'audio-transcription',
-  LARGE_ANALYSIS: 'large-analysis',
-  ANALYTICS_EVENT: 'analytics-event',
-} as const;
+export { QUEUE_NAMES, JOB_PRIORITIES, JOB_TYPES } from './config';
 
 // Parse Redis URL for Bull configuration
 function parseRedisUrl() {
@@ -56,10 +35,7 @@ function parseRedisUrl() {
 const redisConfig = parseRedisUrl();
 
 // Queue instances (lazy initialization)
-let _openaiChatQueue: BullQueue | null = null;
-let _audioProcessingQueue: BullQueue | null = null;
-let _largeRequestsQueue: BullQueue | null = null;
-let _analyticsQueue: BullQueue | null = null;
+const queues = new Map<QueueName, Promise<BullQueue>>();
 
 // Ensure Redis connection is established before creating queues
 async function ensureRedisConnection(): Promise<boolean> {
@@ -127,128 +103,45 @@ async function createQueue(name: string, options: Queue.QueueOptions = {}): Prom
   }
 }
 
-// Lazy getter functions with async initialization
-export async function getOpenaiChatQueue(): Promise<BullQueue> {
-  if (!_openaiChatQueue) {
-    _openaiChatQueue = await createQueue(QUEUE_NAMES.OPENAI_CHAT, {
+// Lazy getter with async initialization; job options and limits come from QUEUE_SETTINGS
+export function getQueue(name: QueueName): Promise<BullQueue> {
+  let queue = queues.get(name);
+  if (!queue) {
+    const settings = QUEUE_SETTINGS[name];
+    queue = createQueue(name, {
       defaultJobOptions: {
-        attempts: 3,
+        attempts: settings.attempts,
         backoff: {
           type: 'exponential',
-          delay: 2000,
+          delay: settings.backoffMs,
         },
-        removeOnComplete: 100,
-        removeOnFail: 50,
+        removeOnComplete: settings.removeOnComplete,
+        removeOnFail: settings.removeOnFail,
       },
+      ...(settings.limiter && { limiter: settings.limiter }),
     });
+    // A failed connection is retried on the next call
+    queue.catch(() => queues.delete(name));
+    queues.set(name, queue);
   }
-  return _openaiChatQueue;
+  return queue;
 }
 
-export async function getAudioProcessingQueue(): Promise<BullQueue> {
-  if (!_audioProcessingQueue) {
-    _audioProcessingQueue = await createQueue(QUEUE_NAMES.AUDIO_PROCESSING, {
-      defaultJobOptions: {
-        attempts: 2,
-        backoff: {
-          type: 'exponential',
-          delay: 5000,
-        },
-        removeOnComplete: 50,
-        removeOnFail: 25,
-      },
-    });
-  }
-  return _audioProcessingQueue;
+export function getOpenaiChatQueue(): Promise<BullQueue> {
+  return getQueue(QUEUE_NAMES.OPENAI_CHAT);
 }
 
-export async function getLargeRequestsQueue(): Promise<BullQueue> {
-  if (!_largeRequestsQueue) {
-    _largeRequestsQueue = await createQueue(QUEUE_NAMES.LARGE_REQUESTS, {
-      defaultJobOptions: {
-        attempts: 5,
-        backoff: {
-          type: 'exponential',
-          delay: 10000,
-        },
-        removeOnComplete: 20,
-        removeOnFail: 10,
-      },
-      limiter: {
-        max: 2, // Max 2 large requests at a time
-        duration: 60000, // Per minute
-      },
-    });
-  }
-  return _largeRequestsQueue;
+export function getAudioProcessingQueue(): Promise<BullQueue> {
+  return getQueue(QUEUE_NAMES.AUDIO_PROCESSING);
 }
 
-export async function getAnalyticsQueue(): Promise<BullQueue> {
-  if (!_analyticsQueue) {
-    _analyticsQueue = await createQueue(QUEUE_NAMES.ANALYTICS, {
-      defaultJobOptions: {
-        attempts: 1,
-        removeOnComplete: 1000,
-        removeOnFail: 500,
-      },
-    });
-  }
-  return _analyticsQueue;
+export function getLargeRequestsQueue(): Promise<BullQueue> {
+  return getQueue(QUEUE_NAMES.LARGE_REQUESTS);
 }
 
-// Legacy exports for backward compatibility (these will be deprecated)
-let _legacyOpenaiChatQueue: BullQueue | null = null;
-let _legacyAudioProcessingQueue: BullQueue | null = null;
-let _legacyLargeRequestsQueue: BullQueue | null = null;
-let _legacyAnalyticsQueue: BullQueue | null = null;
-
-export const openaiChatQueue = (async () => {
-  try {
-    if (!_legacyOpenaiChatQueue) {
-      _legacyOpenaiChatQueue = await getOpenaiChatQueue();
-    }
-    return _legacyOpenaiChatQueue;
-  } catch (error) {
-    console.error('❌ Failed to initialize legacy openaiChatQueue:', error);
-    throw error;
-  }
-})();
-
-export const audioProcessingQueue = (async () => {
-  try {
-    if (!_legacyAudioProcessingQueue) {
-      _legacyAudioProcessingQueue = await getAudioProcessingQueue();
-    }
-    return _legacyAudioProcessingQueue;
-  } catch (error) {
-    console.error('❌ Failed to initialize legacy audioProcessingQueue:', error);
-    throw error;
-  }
-})();
-
-export const largeRequestsQueue = (async () => {
-  try {
-    if (!_legacyLargeRequestsQueue) {
-      _legacyLargeRequestsQueue = await getLargeRequestsQueue();
-    }
-    return _legacyLargeRequestsQueue;
-  } catch (error) {
-    console.error('❌ Failed to initialize legacy largeRequestsQueue:', error);
-    throw error;
-  }
-})();
-
-export const analyticsQueue = (async () => {
-  try {
-    if (!_legacyAnalyticsQueue) {
-      _legacyAnalyticsQueue = await getAnalyticsQueue();
-    }
-    return _legacyAnalyticsQueue;
-  } catch (error) {
-    console.error('❌ Failed to initialize legacy analyticsQueue:', error);
-    throw error;
-  }
-})();
+export function getAnalyticsQueue(): Promise<BullQueue> {
+  return getQueue(QUEUE_NAMES.ANALYTICS);
+}
 
 // Queue monitoring with error handling
 export async function getQueueStats() {
@@ -296,21 +189,11 @@ export async function getQueueStats() {
 // Graceful shutdown
 export async function closeQueues() {
   try {
-    const queues = [
-      _openaiChatQueue,
-      _audioProcessingQueue,
-      _largeRequestsQueue,
-      _analyticsQueue,
-    ].filter(Boolean);
+    const open = Array.from(queues.values());
+    queues.clear();
+
+    await Promise.all(open.map(async (queue) => (await queue).close()));
 
-    await Promise.all(queues.map(queue => queue?.close()));
-    
-    // Reset queue instances
-    _openaiChatQueue = null;
-    _audioProcessingQueue = null;
-    _largeRequestsQueue = null;
-    _analyticsQueue = null;
-    
     console.log('✅ All queues closed');
   } catch (error) {
     console.error('❌ Error closing queues:', error);
@@ -0,0 +1,141 @@
+import { randomUUID } from 'crypto';
+import { getQueue } from './bull-queue';
+import { DEFAULT_WORKER_CONCURRENCY, QUEUE_SETTINGS, JOB_PRIORITIES } from './config';
+import {
+  CANCEL_CHANNEL,
+  jobEventsChannel,
+  publishToChannel,
+  subscribeToChannel,
+  type JobChannelMessage,
+} from './job-channel';
+import {
+  JobEventStream,
+  jobAttempts,
+  settleHandle,
+  type JobDefinition,
+  type JobHandle,
+  type JobRunner,
+  type SubmitOptions,
+} from './jobs';
+
+// Bull states in which a job has not started and can simply be removed
+const NOT_STARTED = new Set(['waiting', 'delayed', 'paused']);
+
+/**
+ * Queues jobs on Bull for `pnpm queue:worker` to run. Events arrive live over Redis pub/sub.
+ */
+export class BullJobRunner implements JobRunner {
+  readonly name = 'bull' as const;
+
+  async submit<P, R, E>(job: JobDefinition<P, R, E>, payload: P, options: SubmitOptions = {}): Promise<JobHandle<R, E>> {
+    const queue = await getQueue(job.queue);
+    // Our own ID, so the events channel is subscribed before the worker can publish on it
+    const id = randomUUID();
+    const events = new JobEventStream<E>();
+
+    let ended = () => {};
+    const eventsEnded = new Promise<void>((resolve) => {
+      ended = resolve;
+    });
+    const unsubscribe = await subscribeToChannel(jobEventsChannel(id), (raw) => {
+      const message: JobChannelMessage<E> = JSON.parse(raw);
+      if (message.type === 'event') {
+        events.push(message.event);
+      } else {
+        ended();
+      }
+    });
+
+    const bullJob = await queue.add(job.name, payload, {
+      jobId: id,
+      priority: options.priority ?? JOB_PRIORITIES.NORMAL,
+      attempts: jobAttempts(job),
+    }).catch(async (error) => {
+      await unsubscribe();
+      throw error;
+    });
+
+    // A removed job never finishes, so cancelling a waiting job rejects the outcome directly
+    let reject: (error: Error) => void = () => {};
+    const outcome = new Promise<R>((resolve, rejectOutcome) => {
+      reject = rejectOutcome;
+      Promise.all([bullJob.finished() as Promise<R>, eventsEnded]).then(([result]) => resolve(result), rejectOutcome);
+    });
+    outcome.then(unsubscribe, unsubscribe);
+
+    return settleHandle(job, id, events, outcome, {
+      position: async () => {
+        // Bull adds to the left of the wait list and takes the next job from the right
+        const waiting = await queue.client.lrange(queue.toKey('wait'), 0, -1);
+        const index = waiting.indexOf(id);
+        return index >= 0 ? waiting.length - index : null;
+      },
+      cancel: async () => {
+        if (NOT_STARTED.has(await bullJob.getState())) {
+          try {
+            await bullJob.remove();
+            reject(new Error(`Job ${job.name} ${id} was cancelled`));
+            return;
+          } catch (error) {
+            // Taken by the worker in the meantime; abort it instead
+            console.warn(`Job ${job.name} ${id} could not be removed:`, error instanceof Error ? error.message : error);
+          }
+        }
+        await publishToChannel(CANCEL_CHANNEL, id);
+      },
+    });
+  }
+}
+
+// Runs in this worker, by job ID, so a cancellation can abort them
+const running = new Map<string, AbortController>();
+let listeningForCancellations: Promise<unknown> | null = null;
+
+/**
+ * Register a job's processor on its Bull queue; called by the worker process
+ */
+export async function processJob<P, R, E>(job: JobDefinition<P, R, E>): Promise<void> {
+  const queue = await getQueue(job.queue);
+  listeningForCancellations ??= subscribeToChannel(CANCEL_CHANNEL, (id) => running.get(id)?.abort());
+  await listeningForCancellations;
+
+  const { concurrency } = QUEUE_SETTINGS[job.queue];
+  queue.process(job.name, Number.isFinite(concurrency) ? concurrency : DEFAULT_WORKER_CONCURRENCY, async (bullJob): Promise<R> => {
+    const id = String(bullJob.id);
+    const payload = job.payload.parse(bullJob.data);
+    const controller = new AbortController();
+    running.set(id, controller);
+
+    // Published in order, one after another, so the submitter sees events as emitted
+    const channel = jobEventsChannel(id);
+    let published = Promise.resolve();
+    const publish = (message: JobChannelMessage<E>) => {
+      published = published
+        .then(() => publishToChannel(channel, JSON.stringify(message)))
+        .catch((error) => console.error(`Error publishing ${job.name} job ${id} event:`, error));
+    };
+
+    console.log(`Processing ${job.name} job ${id}`);
+    try {
+      const result = await job.run(payload, {
+        id,
+        attempt: bullJob.attemptsMade + 1,
+        emit: (event) => publish({ type: 'event', event }),
+        signal: controller.signal,
+      });
+      publish({ type: 'end' });
+      await published;
+      console.log(`${job.name} job ${id} completed successfully`);
+      return result;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Cancelled by its submitter; not worth retrying
+        await bullJob.discard();
+      }
+      console.error(`${job.name} job ${id} failed:`, error);
+      throw error;
+    } finally {
+      running.delete(id);
+    }
+  });
+}
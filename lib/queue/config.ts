@@ -0,0 +1,91 @@
+// Queue names and per-queue settings shared by the Bull queues and the in-process runner,
+// so a job behaves the same whichever runner executes it. Kept free of Redis imports.
+
+export const QUEUE_NAMES = {
+  OPENAI_CHAT: 'openai-chat',
+  AUDIO_PROCESSING: 'audio-processing',
+  LARGE_REQUESTS: 'large-requests',
+  ANALYTICS: 'analytics',
+} as const;
+
+export type QueueName = (typeof QUEUE_NAMES)[keyof typeof QUEUE_NAMES];
+
+// Job priorities; lower numbers run first, as in Bull
+export const JOB_PRIORITIES = {
+  HIGH: 1,
+  NORMAL: 2,
+  LOW: 3,
+  BULK: 4,
+} as const;
+
+// Job types
+export const JOB_TYPES = {
+  CHAT_REQUEST: 'chat-request',
+  AUDIO_TRANSCRIPTION: 'audio-transcription',
+  LARGE_ANALYSIS: 'large-analysis',
+  ANALYTICS_EVENT: 'analytics-event',
+} as const;
+
+export interface QueueSettings {
+  // Jobs of one type processed at the same time per worker; Infinity for no limit, in which
+  // case a Bull worker runs DEFAULT_WORKER_CONCURRENCY at a time
+  concurrency: number;
+  // Default attempts per job, including the first
+  attempts: number;
+  // Base delay of the exponential backoff between attempts
+  backoffMs: number;
+  // Finished jobs Bull keeps for the dashboard; true removes them as soon as they finish
+  removeOnComplete: number | boolean;
+  removeOnFail: number | boolean;
+  // At most `max` jobs started per `duration` milliseconds
+  limiter?: { max: number; duration: number };
+}
+
+// Bull needs a fixed number of processors per job type
+export const DEFAULT_WORKER_CONCURRENCY = 5;
+
+/**
+ * Chat replies generated at once per server (in-process) or worker (bull), from
+ * CHAT_QUEUE_CONCURRENCY; unset, the in-process runner does not limit them
+ */
+function chatConcurrency(): number {
+  const value = Number(process.env.CHAT_QUEUE_CONCURRENCY);
+  return Number.isInteger(value) && value > 0 ? value : Infinity;
+}
+
+export const QUEUE_SETTINGS: Record<QueueName, QueueSettings> = {
+  [QUEUE_NAMES.OPENAI_CHAT]: {
+    concurrency: chatConcurrency(),
+    attempts: 3,
+    backoffMs: 2000,
+    // Chat payloads hold the conversation and the user's memories, which must not outlive the
+    // reply in Redis where account export and deletion cannot reach them
+    removeOnComplete: true,
+    removeOnFail: true,
+  },
+  [QUEUE_NAMES.AUDIO_PROCESSING]: {
+    concurrency: 2,
+    attempts: 2,
+    backoffMs: 5000,
+    removeOnComplete: 50,
+    removeOnFail: 25,
+  },
+  [QUEUE_NAMES.LARGE_REQUESTS]: {
+    concurrency: 1,
+    attempts: 5,
+    backoffMs: 10000,
+    removeOnComplete: 20,
+    removeOnFail: 10,
+    limiter: {
+      max: 2, // Max 2 large requests at a time
+      duration: 60000, // Per minute
+    },
+  },
+  [QUEUE_NAMES.ANALYTICS]: {
+    concurrency: 5,
+    attempts: 1,
+    backoffMs: 0,
+    removeOnComplete: 1000,
+    removeOnFail: 500,
+  },
+};
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { defineJob } from './jobs';
+import { JOB_TYPES, QUEUE_NAMES } from './config';
+
+export { chatCompletionJob } from '../companion/completion';
+export { audioTranscriptionJob } from '../audio-transcription';
+
+export const largeAnalysisJob = defineJob({
+  name: JOB_TYPES.LARGE_ANALYSIS,
+  queue: QUEUE_NAMES.LARGE_REQUESTS,
+  payload: z.object({ requestId: z.string() }),
+  run: async ({ requestId }) => {
+    // Simulate processing large requests
+    await new Promise(resolve => setTimeout(resolve, 5000));
+    return { success: true, requestId };
+  },
+});
+
+export const analyticsEventJob = defineJob({
+  name: JOB_TYPES.ANALYTICS_EVENT,
+  queue: QUEUE_NAMES.ANALYTICS,
+  payload: z.object({ event: z.record(z.unknown()), requestId: z.string() }),
+  run: async ({ event, requestId }) => {
+    // Simulate analytics processing
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    return { success: true, event, requestId };
+  },
+});
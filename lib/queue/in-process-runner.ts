@@ -0,0 +1,152 @@
+import { randomUUID } from 'crypto';
+import { QUEUE_SETTINGS, JOB_PRIORITIES, type QueueName } from './config';
+import {
+  JobEventStream,
+  jobAttempts,
+  settleHandle,
+  type JobDefinition,
+  type JobHandle,
+  type JobRunner,
+  type SubmitOptions,
+} from './jobs';
+
+interface QueuedJob {
+  id: string;
+  priority: number;
+  // Order of submission, so equal priorities run first come, first served
+  sequence: number;
+  attempt: number;
+  execute(attempt: number): Promise<void>;
+}
+
+/**
+ * Runs jobs in the current process with each queue's concurrency, rate limit, priorities and
+ * retries from QUEUE_SETTINGS. Nothing survives a restart; use the Bull runner for that.
+ */
+export class InProcessJobRunner implements JobRunner {
+  readonly name = 'in-process' as const;
+  private waiting = new Map<QueueName, QueuedJob[]>();
+  private active = new Map<QueueName, number>();
+  // Start times within the current limiter window
+  private started = new Map<QueueName, number[]>();
+  private sequence = 0;
+
+  async submit<P, R, E>(job: JobDefinition<P, R, E>, payload: P, options: SubmitOptions = {}): Promise<JobHandle<R, E>> {
+    const id = randomUUID();
+    const events = new JobEventStream<E>();
+    const maxAttempts = jobAttempts(job);
+    const controller = new AbortController();
+    let cancelWaiting = () => {};
+
+    const outcome = new Promise<R>((resolve, reject) => {
+      const cancelled = () => reject(new Error(`Job ${job.name} ${id} was cancelled`));
+      const queued: QueuedJob = {
+        id,
+        priority: options.priority ?? JOB_PRIORITIES.NORMAL,
+        sequence: this.sequence++,
+        attempt: 1,
+        execute: async (attempt) => {
+          try {
+            resolve(await job.run(payload, { id, attempt, emit: (event) => events.push(event), signal: controller.signal }));
+          } catch (error) {
+            if (attempt >= maxAttempts || controller.signal.aborted) {
+              reject(error instanceof Error ? error : new Error(String(error)));
+              return;
+            }
+            console.warn(`Job ${job.name} ${id} failed on attempt ${attempt}, retrying:`, error instanceof Error ? error.message : error);
+            const delay = QUEUE_SETTINGS[job.queue].backoffMs * 2 ** (attempt - 1);
+            setTimeout(() => {
+              if (controller.signal.aborted) {
+                cancelled();
+              } else {
+                this.enqueue(job.queue, { ...queued, attempt: attempt + 1 });
+              }
+            }, delay);
+          }
+        },
+      };
+      cancelWaiting = () => {
+        if (this.dequeue(job.queue, id)) {
+          cancelled();
+        }
+      };
+      this.enqueue(job.queue, queued);
+    });
+
+    return settleHandle(job, id, events, outcome, {
+      position: async () => {
+        const index = (this.waiting.get(job.queue) ?? []).findIndex((queued) => queued.id === id);
+        return index >= 0 ? index + 1 : null;
+      },
+      cancel: async () => {
+        controller.abort();
+        cancelWaiting();
+      },
+    });
+  }
+
+  /**
+   * Waiting and active jobs per queue, for the admin dashboard
+   */
+  getCounts(): Record<string, { waiting: number; active: number }> {
+    return Object.fromEntries(
+      (Object.keys(QUEUE_SETTINGS) as QueueName[]).map((queue) => [
+        queue,
+        { waiting: this.waiting.get(queue)?.length ?? 0, active: this.active.get(queue) ?? 0 },
+      ])
+    );
+  }
+
+  private enqueue(queue: QueueName, job: QueuedJob): void {
+    const waiting = this.waiting.get(queue) ?? [];
+    waiting.push(job);
+    waiting.sort((a, b) => a.priority - b.priority || a.sequence - b.sequence);
+    this.waiting.set(queue, waiting);
+    this.drain(queue);
+  }
+
+  // Take a job out of line; false if it is not waiting
+  private dequeue(queue: QueueName, id: string): boolean {
+    const waiting = this.waiting.get(queue) ?? [];
+    const index = waiting.findIndex((job) => job.id === id);
+    if (index < 0) {
+      return false;
+    }
+    waiting.splice(index, 1);
+    return true;
+  }
+
+  private drain(queue: QueueName): void {
+    const settings = QUEUE_SETTINGS[queue];
+    const waiting = this.waiting.get(queue) ?? [];
+
+    while (waiting.length > 0 && (this.active.get(queue) ?? 0) < settings.concurrency) {
+      const retryIn = this.rateLimitDelay(queue);
+      if (retryIn > 0) {
+        setTimeout(() => this.drain(queue), retryIn);
+        return;
+      }
+
+      const job = waiting.shift()!;
+      this.active.set(queue, (this.active.get(queue) ?? 0) + 1);
+      this.started.get(queue)?.push(Date.now());
+      job.execute(job.attempt).finally(() => {
+        this.active.set(queue, (this.active.get(queue) ?? 1) - 1);
+        this.drain(queue);
+      });
+    }
+  }
+
+  // Milliseconds until the queue's limiter lets another job start, 0 if it may start now
+  private rateLimitDelay(queue: QueueName): number {
+    const limiter = QUEUE_SETTINGS[queue].limiter;
+    if (!limiter) {
+      return 0;
+    }
+
+    const now = Date.now();
+    const recent = (this.started.get(queue) ?? []).filter((time) => now - time < limiter.duration);
+    this.started.set(queue, recent);
+    return recent.length < limiter.max ? 0 : recent[0] + limiter.duration - now;
+  }
+}
@@ -0,0 +1,65 @@
+import { redisClient, initRedis } from '../redis';
+
+// Redis pub/sub between the servers that submit Bull jobs and the worker that runs them: a job
+// publishes its events on its own channel as it runs, and submitters publish cancellations.
+
+// Messages on a job's events channel. `end` follows the last event of a successful run, so the
+// submitter knows nothing is still in flight when Bull reports the job complete.
+export type JobChannelMessage<E> = { type: 'event'; event: E } | { type: 'end' };
+
+// Carries the IDs of jobs to abort
+export const CANCEL_CHANNEL = 'jobs:cancel';
+
+export function jobEventsChannel(id: string): string {
+  return `jobs:events:${id}`;
+}
+
+// Subscriptions share one connection per process; a subscribed connection cannot run other commands
+let subscriber: Promise<typeof redisClient> | null = null;
+
+function getSubscriber(): Promise<typeof redisClient> {
+  if (!subscriber) {
+    subscriber = (async () => {
+      await initRedis();
+      const client = redisClient.duplicate();
+      client.on('error', (error) => {
+        console.error('❌ Redis job channel error:', error);
+      });
+      await client.connect();
+      return client;
+    })();
+    // A failed connection is retried on the next subscription
+    subscriber.catch(() => {
+      subscriber = null;
+    });
+  }
+  return subscriber;
+}
+
+export async function publishToChannel(channel: string, message: string): Promise<void> {
+  await initRedis();
+  await redisClient.publish(channel, message);
+}
+
+/**
+ * Listen on a channel until the returned function is called
+ */
+export async function subscribeToChannel(channel: string, listener: (message: string) => void): Promise<() => Promise<void>> {
+  const client = await getSubscriber();
+  await client.subscribe(channel, listener);
+  return async () => {
+    try {
+      await client.unsubscribe(channel, listener);
+    } catch (error) {
+      console.error(`Error unsubscribing from ${channel}:`, error);
+    }
+  };
+}
+
+export async function closeJobChannels(): Promise<void> {
+  const client = await subscriber?.catch(() => null);
+  subscriber = null;
+  if (client?.isOpen) {
+    await client.quit();
+  }
+}
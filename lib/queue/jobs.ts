@@ -0,0 +1,213 @@
+// Typed job system. A job definition names its queue, validates its payload with a zod schema
+// and declares its result type; the same definition runs in-process (development, tests, a
+// single server) or on Bull/Redis with `pnpm queue:worker` (JOB_RUNNER=bull).
+//
+// Jobs run outside the request that submitted them, so everything a job needs, such as the user
+// ID, goes in its payload. A job must never read cookies, headers or other request state.
+
+import type { z } from 'zod';
+import { QUEUE_SETTINGS, type QueueName } from './config';
+
+export type JobRunnerName = 'in-process' | 'bull';
+
+export interface JobContext<E = never> {
+  id: string;
+  // 1 on the first attempt
+  attempt: number;
+  // Progress for the submitter, such as streamed text; see JobHandle.events
+  emit(event: E): void;
+  // Aborted when the submitter cancels the job; long-running work should stop early
+  signal: AbortSignal;
+}
+
+export interface JobDefinition<P = unknown, R = unknown, E = never> {
+  // Job type within the queue, e.g. 'chat-request'
+  name: string;
+  queue: QueueName;
+  payload: z.ZodType<P, z.ZodTypeDef, unknown>;
+  // Override the queue's attempts, e.g. 1 for jobs whose events must not repeat
+  attempts?: number;
+  // Submitters stop waiting after this long; the job itself is not interrupted
+  timeoutMs?: number;
+  run(payload: P, context: JobContext<E>): Promise<R>;
+}
+
+export interface SubmitOptions {
+  // Lower runs first; see JOB_PRIORITIES
+  priority?: number;
+  // Cancel the job when this aborts, e.g. the signal of the request that submitted it
+  signal?: AbortSignal;
+}
+
+export interface JobHandle<R, E = never> {
+  id: string;
+  // Events in the order the job emitted them; ends when the job completes and throws if it fails.
+  // A retried attempt emits its events again, so jobs with events usually set attempts: 1.
+  events: AsyncIterable<E>;
+  result: Promise<R>;
+  // 1-based place in line while the job waits to start, null once it has started or finished
+  position(): Promise<number | null>;
+  // Remove the job if it is still waiting, or abort its run through JobContext.signal. The
+  // result rejects and the events end without an error.
+  cancel(): Promise<void>;
+}
+
+// How a runner reports on and cancels one of its jobs
+export interface JobControls {
+  position(): Promise<number | null>;
+  cancel(): Promise<void>;
+}
+
+export interface JobRunner {
+  readonly name: JobRunnerName;
+  submit<P, R, E>(job: JobDefinition<P, R, E>, payload: P, options?: SubmitOptions): Promise<JobHandle<R, E>>;
+}
+
+/**
+ * Declare a job; the identity function only exists to infer the payload, result and event types
+ */
+export function defineJob<P, R, E = never>(job: JobDefinition<P, R, E>): JobDefinition<P, R, E> {
+  return job;
+}
+
+export function jobAttempts(job: Pick<JobDefinition, 'queue' | 'attempts'>): number {
+  return job.attempts ?? QUEUE_SETTINGS[job.queue].attempts;
+}
+
+/**
+ * Single-consumer async queue of job events
+ */
+export class JobEventStream<E> implements AsyncIterable<E> {
+  private buffer: E[] = [];
+  private finished = false;
+  private failure: { error: unknown } | null = null;
+  private wake: (() => void) | null = null;
+
+  push(event: E): void {
+    if (!this.finished) {
+      this.buffer.push(event);
+      this.notify();
+    }
+  }
+
+  end(): void {
+    this.finished = true;
+    this.notify();
+  }
+
+  fail(error: unknown): void {
+    if (!this.finished) {
+      this.failure = { error };
+      this.end();
+    }
+  }
+
+  private notify(): void {
+    this.wake?.();
+    this.wake = null;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<E> {
+    while (true) {
+      if (this.buffer.length > 0) {
+        yield this.buffer.shift()!;
+        continue;
+      }
+      if (this.failure) {
+        throw this.failure.error;
+      }
+      if (this.finished) {
+        return;
+      }
+      await new Promise<void>((resolve) => {
+        this.wake = resolve;
+      });
+    }
+  }
+}
+
+/**
+ * Settle a handle's result and events together. Rejections are marked handled so a submitter
+ * that only reads events does not crash the process with an unhandled rejection.
+ */
+export function settleHandle<R, E>(
+  job: Pick<JobDefinition, 'name' | 'timeoutMs'>,
+  id: string,
+  events: JobEventStream<E>,
+  outcome: Promise<R>,
+  controls: JobControls
+): JobHandle<R, E> {
+  let cancelled = false;
+  const result = new Promise<R>((resolve, reject) => {
+    const timer = job.timeoutMs
+      ? setTimeout(() => reject(new Error(`Job ${job.name} ${id} did not finish within ${job.timeoutMs}ms`)), job.timeoutMs)
+      : null;
+    outcome.then(resolve, reject).finally(() => {
+      if (timer) clearTimeout(timer);
+    });
+  });
+
+  result.then(() => events.end(), (error) => (cancelled ? events.end() : events.fail(error)));
+  result.catch(() => undefined);
+  return {
+    id,
+    events,
+    result,
+    position: controls.position,
+    cancel: () => {
+      cancelled = true;
+      return controls.cancel();
+    },
+  };
+}
+
+/**
+ * JOB_RUNNER picks where jobs run; in-process unless set to bull, which needs `pnpm queue:worker`
+ */
+export function getJobRunnerName(): JobRunnerName {
+  return process.env.JOB_RUNNER === 'bull' ? 'bull' : 'in-process';
+}
+
+let runner: Promise<JobRunner> | null = null;
+
+export function getJobRunner(): Promise<JobRunner> {
+  // Imported on demand so in-process deployments never load Bull or connect to Redis
+  runner ??= getJobRunnerName() === 'bull'
+    ? import('./bull-runner').then(({ BullJobRunner }) => new BullJobRunner())
+    : import('./in-process-runner').then(({ InProcessJobRunner }) => new InProcessJobRunner());
+  return runner;
+}
+
+/**
+ * Validate the payload and queue the job on the configured runner
+ */
+export async function submitJob<P, R, E>(
+  job: JobDefinition<P, R, E>,
+  payload: P,
+  options: SubmitOptions = {}
+): Promise<JobHandle<R, E>> {
+  const parsed = job.payload.parse(payload);
+  const handle = await (await getJobRunner()).submit(job, parsed, options);
+
+  const { signal } = options;
+  if (signal) {
+    const cancel = () => {
+      handle.cancel().catch((error) => console.error(`Error cancelling job ${job.name} ${handle.id}:`, error));
+    };
+    if (signal.aborted) {
+      cancel();
+    } else {
+      signal.addEventListener('abort', cancel, { once: true });
+      const detach = () => signal.removeEventListener('abort', cancel);
+      handle.result.then(detach, detach);
+    }
+  }
+  return handle;
+}
+
+/**
+ * Submit a job and wait for its result
+ */
+export async function runJob<P, R, E>(job: JobDefinition<P, R, E>, payload: P, options: SubmitOptions = {}): Promise<R> {
+  return (await submitJob(job, payload, options)).result;
+}
@@ -0,0 +1,112 @@
+import { hostname } from 'os';
+import { redisClient, initRedis } from '../redis';
+import { getProviderHealth, type ProviderHealth } from '@/ai/failover';
+import { responseCache, type CacheMetrics } from '../cache';
+
+// With JOB_RUNNER=bull every model call and response cache lookup happens in a worker, so
+// each worker reports its circuit breakers and cache metrics to a Redis hash for the admin
+// status endpoint, one field per worker process.
+
+export interface WorkerHealth {
+  workerId: string;
+  reportedAt: string;
+  providers: ProviderHealth[];
+  cache: CacheMetrics;
+}
+
+const WORKER_HEALTH_KEY = 'jobs:workers:health';
+const REPORT_INTERVAL_MS = 10 * 1000;
+// A worker that missed this many reports is taken to be gone
+const STALE_AFTER_MS = 3 * REPORT_INTERVAL_MS;
+
+const STATE_SEVERITY: Record<ProviderHealth['state'], number> = { closed: 0, 'half-open': 1, open: 2 };
+
+const workerId = `${hostname()}:${process.pid}`;
+let timer: NodeJS.Timeout | null = null;
+
+async function reportHealth(): Promise<void> {
+  try {
+    const health: WorkerHealth = {
+      workerId,
+      reportedAt: new Date().toISOString(),
+      providers: getProviderHealth(),
+      cache: await responseCache.getMetrics(),
+    };
+    await redisClient.hSet(WORKER_HEALTH_KEY, workerId, JSON.stringify(health));
+  } catch (error) {
+    console.error('Error reporting worker health:', error);
+  }
+}
+
+/**
+ * Report this worker's health now and every REPORT_INTERVAL_MS; called by the worker process
+ */
+export function startHealthReports(): void {
+  if (!timer) {
+    timer = setInterval(reportHealth, REPORT_INTERVAL_MS);
+    void reportHealth();
+  }
+}
+
+export async function stopHealthReports(): Promise<void> {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+  try {
+    await redisClient.hDel(WORKER_HEALTH_KEY, workerId);
+  } catch (error) {
+    console.error('Error removing worker health:', error);
+  }
+}
+
+/**
+ * The latest report of every worker still reporting
+ */
+export async function getWorkerHealth(): Promise<WorkerHealth[]> {
+  await initRedis();
+  const reports = Object.values(await redisClient.hGetAll(WORKER_HEALTH_KEY))
+    .map((raw) => JSON.parse(raw) as WorkerHealth);
+  return reports.filter((report) => Date.now() - new Date(report.reportedAt).getTime() < STALE_AFTER_MS);
+}
+
+/**
+ * Each provider as its least healthy worker sees it
+ */
+export function mergeProviderHealth(reports: WorkerHealth[]): ProviderHealth[] {
+  const merged = new Map<string, ProviderHealth>();
+  for (const provider of reports.flatMap((report) => report.providers)) {
+    const current = merged.get(provider.name);
+    if (
+      !current ||
+      STATE_SEVERITY[provider.state] > STATE_SEVERITY[current.state] ||
+      (provider.state === current.state && provider.errorRate > current.errorRate)
+    ) {
+      merged.set(provider.name, provider);
+    }
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Cache counters added up across workers; the backend and its size are shared
+ */
+export function mergeCacheMetrics(reports: WorkerHealth[]): CacheMetrics | null {
+  if (reports.length === 0) {
+    return null;
+  }
+
+  const [first, ...others] = reports.map((report) => report.cache);
+  const total = others.reduce((sum, cache) => ({
+    ...sum,
+    hits: sum.hits + cache.hits,
+    misses: sum.misses + cache.misses,
+    sets: sum.sets + cache.sets,
+    evictions: sum.evictions + cache.evictions,
+    invalidations: sum.invalidations + cache.invalidations,
+    errors: sum.errors + cache.errors,
+    fallbacks: sum.fallbacks + cache.fallbacks,
+  }), first);
+  const lookups = total.hits + total.misses;
+  return { ...total, hitRate: lookups > 0 ? total.hits / lookups : 0 };
+}
@@ -13,7 +13,8 @@ export interface RealtimeSession {
 export interface RealtimeConfig {
   model: string;
   voice: string;
-  instructions?: string;
+  // Companion mode whose published system prompt the server uses as the session instructions
+  mode: string;
   vadConfig?: VADConfig;
   noiseReduction?: boolean;
 }
@@ -233,10 +234,6 @@ export class RealtimeWebRTC {
 
     this.dataChannel.addEventListener('open', () => {
       this.onStatusChange?.('Data channel open');
-      // Send initial session update
-      this.updateSession({
-        instructions: "You are a helpful AI assistant. Respond naturally and conversationally to user input."
-      });
     });
 
     this.dataChannel.addEventListener('message', (event) => {
@@ -0,0 +1,136 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import type { Database } from '@/lib/supabase';
+
+export type SafetyEventRecord = Database['public']['Tables']['safety_events']['Row'];
+export type SafetyEventInsert = Database['public']['Tables']['safety_events']['Insert'];
+export type GuardrailViolationRecord = Database['public']['Tables']['guardrail_violations']['Row'];
+export type GuardrailViolationInsert = Database['public']['Tables']['guardrail_violations']['Insert'];
+
+// Enough context for a reviewer without keeping whole conversations
+const MAX_EXCERPT_LENGTH = 500;
+
+export class SafetyEventStore {
+  /**
+   * Record an escalated message for admin review
+   */
+  async recordEvent(event: SafetyEventInsert): Promise<void> {
+    try {
+      const supabase = createServiceClient();
+      const { error } = await supabase
+        .from('safety_events')
+        .insert({ ...event, excerpt: event.excerpt.slice(0, MAX_EXCERPT_LENGTH) });
+
+      if (error) {
+        console.error('Error recording safety event:', error);
+      }
+    } catch (error) {
+      console.error('Error recording safety event:', error);
+    }
+  }
+
+  /**
+   * List recent safety events, unreviewed only unless asked otherwise
+   */
+  async listEvents(options: { includeReviewed?: boolean; limit?: number } = {}): Promise<SafetyEventRecord[]> {
+    try {
+      const supabase = createServiceClient();
+      let query = supabase
+        .from('safety_events')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(options.limit ?? 100);
+
+      if (!options.includeReviewed) {
+        query = query.eq('reviewed', false);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching safety events:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching safety events:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Mark an event as reviewed (or reopen it)
+   */
+  async setReviewed(id: string, reviewed: boolean): Promise<SafetyEventRecord | null> {
+    try {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase
+        .from('safety_events')
+        .update({ reviewed, reviewed_at: reviewed ? new Date().toISOString() : null })
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error updating safety event:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error updating safety event:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Log output the streaming guardrails changed
+   */
+  async recordGuardrailViolations(violations: GuardrailViolationInsert[]): Promise<void> {
+    if (violations.length === 0) {
+      return;
+    }
+
+    try {
+      const supabase = createServiceClient();
+      const { error } = await supabase
+        .from('guardrail_violations')
+        .insert(violations.map((violation) => ({
+          ...violation,
+          excerpt: violation.excerpt.slice(0, MAX_EXCERPT_LENGTH),
+        })));
+
+      if (error) {
+        console.error('Error recording guardrail violations:', error);
+      }
+    } catch (error) {
+      console.error('Error recording guardrail violations:', error);
+    }
+  }
+
+  /**
+   * List recent guardrail violations, newest first
+   */
+  async listGuardrailViolations(limit = 100): Promise<GuardrailViolationRecord[]> {
+    try {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase
+        .from('guardrail_violations')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching guardrail violations:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching guardrail violations:', error);
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+export const safetyEventStore = new SafetyEventStore();
@@ -0,0 +1,177 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import type { Database } from '@/lib/supabase';
+
+export type SemanticCacheEntry = Database['public']['Tables']['semantic_cache_entries']['Row'];
+export type SemanticCacheInsert = Database['public']['Tables']['semantic_cache_entries']['Insert'];
+export type SemanticCacheStatus = SemanticCacheEntry['status'];
+
+// Columns for the admin list; embeddings are only needed to build the index
+const LIST_COLUMNS = 'id, mode, prompt_version_id, embedding_model, question, answer, model_id, status, ask_count, hit_count, created_at, approved_at, last_asked_at';
+
+// Entries loaded into one mode's index; the least asked beyond this are left out
+const MAX_INDEX_ENTRIES = 2000;
+
+export class SemanticCacheStore {
+  /**
+   * Entries for the admin view, most asked first
+   */
+  async listEntries(options: { status?: SemanticCacheStatus; mode?: string; limit?: number } = {}): Promise<Omit<SemanticCacheEntry, 'embedding'>[]> {
+    try {
+      const supabase = createServiceClient();
+      let query = supabase
+        .from('semantic_cache_entries')
+        .select(LIST_COLUMNS)
+        .order('ask_count', { ascending: false })
+        .order('created_at', { ascending: false })
+        .limit(options.limit ?? 200);
+
+      if (options.status) {
+        query = query.eq('status', options.status);
+      }
+      if (options.mode) {
+        query = query.eq('mode', options.mode);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching semantic cache entries:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching semantic cache entries:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Entries a question in this mode can match: same prompt version and embedding model.
+   * Pending entries are included so repeats are counted before anyone approves them.
+   */
+  async listIndexEntries(mode: string, promptVersionId: string | null, embeddingModel: string): Promise<SemanticCacheEntry[]> {
+    try {
+      const supabase = createServiceClient();
+      let query = supabase
+        .from('semantic_cache_entries')
+        .select('*')
+        .eq('mode', mode)
+        .eq('embedding_model', embeddingModel)
+        .order('ask_count', { ascending: false })
+        .limit(MAX_INDEX_ENTRIES);
+
+      query = promptVersionId ? query.eq('prompt_version_id', promptVersionId) : query.is('prompt_version_id', null);
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error loading semantic cache index:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error loading semantic cache index:', error);
+      return [];
+    }
+  }
+
+  async createEntry(entry: SemanticCacheInsert): Promise<SemanticCacheEntry | null> {
+    try {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase
+        .from('semantic_cache_entries')
+        .insert(entry)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating semantic cache entry:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error creating semantic cache entry:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Count a near-duplicate question, and a served answer when hit is set
+   */
+  async recordUse(id: string, hit: boolean): Promise<void> {
+    try {
+      const supabase = createServiceClient();
+      const { error } = await supabase.rpc('record_semantic_cache_use', { p_id: id, p_hit: hit });
+
+      if (error) {
+        console.error('Error recording semantic cache use:', error);
+      }
+    } catch (error) {
+      console.error('Error recording semantic cache use:', error);
+    }
+  }
+
+  /**
+   * Approve an entry so its answer is served, or send it back to pending
+   */
+  async setStatus(id: string, status: SemanticCacheStatus): Promise<Omit<SemanticCacheEntry, 'embedding'> | null> {
+    try {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase
+        .from('semantic_cache_entries')
+        .update({ status, approved_at: status === 'approved' ? new Date().toISOString() : null })
+        .eq('id', id)
+        .select(LIST_COLUMNS)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error updating semantic cache entry:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error updating semantic cache entry:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete entries by ID, or every entry matching the filters when no IDs are given.
+   * Returns the number removed, or null on failure.
+   */
+  async purge(filter: { ids?: string[]; status?: SemanticCacheStatus; mode?: string }): Promise<number | null> {
+    try {
+      const supabase = createServiceClient();
+      let query = supabase.from('semantic_cache_entries').delete({ count: 'exact' });
+
+      if (filter.ids) {
+        query = query.in('id', filter.ids);
+      } else {
+        // PostgREST refuses an unfiltered delete; every row has a created_at
+        query = query.not('created_at', 'is', null);
+      }
+      if (filter.status) {
+        query = query.eq('status', filter.status);
+      }
+      if (filter.mode) {
+        query = query.eq('mode', filter.mode);
+      }
+
+      const { count, error } = await query;
+      if (error) {
+        console.error('Error purging semantic cache entries:', error);
+        return null;
+      }
+
+      return count ?? 0;
+    } catch (error) {
+      console.error('Error purging semantic cache entries:', error);
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const semanticCacheStore = new SemanticCacheStore();
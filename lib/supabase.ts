@@ -8,6 +8,7 @@ export interface Database {
         Row: {
           id: string;
           visitor_id: string;
+          user_id: string | null;
           session_id: string;
           service_used: string;
           environment: 'dev' | 'prod';
@@ -16,11 +17,14 @@ export interface Database {
           ip_address: string | null;
           country: string | null;
           city: string | null;
+          experiment_id: string | null;
+          experiment_variant: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           visitor_id: string;
+          user_id?: string | null;
           session_id: string;
           service_used: string;
           environment: 'dev' | 'prod';
@@ -29,11 +33,14 @@ export interface Database {
           ip_address?: string | null;
           country?: string | null;
           city?: string | null;
+          experiment_id?: string | null;
+          experiment_variant?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
           visitor_id?: string;
+          user_id?: string | null;
           session_id?: string;
           service_used?: string;
           environment?: 'dev' | 'prod';
@@ -42,6 +49,8 @@ export interface Database {
           ip_address?: string | null;
           country?: string | null;
           city?: string | null;
+          experiment_id?: string | null;
+          experiment_variant?: string | null;
           created_at?: string;
         };
       };
@@ -77,10 +86,557 @@ export interface Database {
           created_at?: string;
         };
       };
+      conversations: {
+        Row: {
+          id: string;
+          user_id: string;
+          mode: string;
+          title: string | null;
+          pinned: boolean;
+          flagged: boolean;
+          context_summary: string | null;
+          summary_message_count: number;
+          summary_fingerprint: string | null;
+          active_message_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          mode: string;
+          title?: string | null;
+          pinned?: boolean;
+          flagged?: boolean;
+          context_summary?: string | null;
+          summary_message_count?: number;
+          summary_fingerprint?: string | null;
+          active_message_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          mode?: string;
+          title?: string | null;
+          pinned?: boolean;
+          flagged?: boolean;
+          context_summary?: string | null;
+          summary_message_count?: number;
+          summary_fingerprint?: string | null;
+          active_message_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      messages: {
+        Row: {
+          id: string;
+          conversation_id: string;
+          parent_id: string | null;
+          user_id: string;
+          role: 'user' | 'assistant';
+          content: string;
+          transcript: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          conversation_id: string;
+          parent_id?: string | null;
+          user_id: string;
+          role: 'user' | 'assistant';
+          content: string;
+          transcript?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          conversation_id?: string;
+          parent_id?: string | null;
+          user_id?: string;
+          role?: 'user' | 'assistant';
+          content?: string;
+          transcript?: string | null;
+          created_at?: string;
+        };
+      };
+      safety_events: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          thread_id: string | null;
+          mode: string;
+          source: 'keywords' | 'moderation';
+          categories: string[];
+          excerpt: string;
+          locale: string | null;
+          reviewed: boolean;
+          reviewed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          thread_id?: string | null;
+          mode: string;
+          source: 'keywords' | 'moderation';
+          categories?: string[];
+          excerpt: string;
+          locale?: string | null;
+          reviewed?: boolean;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          thread_id?: string | null;
+          mode?: string;
+          source?: 'keywords' | 'moderation';
+          categories?: string[];
+          excerpt?: string;
+          locale?: string | null;
+          reviewed?: boolean;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+      };
+      guardrail_violations: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          thread_id: string | null;
+          mode: string;
+          rule_id: string;
+          action: 'rewrite' | 'redact' | 'cutoff';
+          source: 'regex' | 'judge';
+          excerpt: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          thread_id?: string | null;
+          mode: string;
+          rule_id: string;
+          action: 'rewrite' | 'redact' | 'cutoff';
+          source: 'regex' | 'judge';
+          excerpt: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          thread_id?: string | null;
+          mode?: string;
+          rule_id?: string;
+          action?: 'rewrite' | 'redact' | 'cutoff';
+          source?: 'regex' | 'judge';
+          excerpt?: string;
+          created_at?: string;
+        };
+      };
+      user_memories: {
+        Row: {
+          id: string;
+          user_id: string;
+          category: 'name' | 'role' | 'company' | 'stressor' | 'preference' | 'other';
+          fact: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          category: 'name' | 'role' | 'company' | 'stressor' | 'preference' | 'other';
+          fact: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          category?: 'name' | 'role' | 'company' | 'stressor' | 'preference' | 'other';
+          fact?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      journal_entries: {
+        Row: {
+          id: string;
+          user_id: string;
+          thread_id: string | null;
+          mode: string;
+          title: string | null;
+          content: string;
+          mood: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          thread_id?: string | null;
+          mode: string;
+          title?: string | null;
+          content: string;
+          mood?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          thread_id?: string | null;
+          mode?: string;
+          title?: string | null;
+          content?: string;
+          mood?: string | null;
+          created_at?: string;
+        };
+      };
+      mood_checkins: {
+        Row: {
+          id: string;
+          user_id: string;
+          thread_id: string | null;
+          mode: string;
+          rating: number;
+          feeling: string;
+          note: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          thread_id?: string | null;
+          mode: string;
+          rating: number;
+          feeling: string;
+          note?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          thread_id?: string | null;
+          mode?: string;
+          rating?: number;
+          feeling?: string;
+          note?: string | null;
+          created_at?: string;
+        };
+      };
+      prompt_versions: {
+        Row: {
+          id: string;
+          key: string;
+          version: number;
+          content: string;
+          status: 'draft' | 'published' | 'archived';
+          changelog: string;
+          created_at: string;
+          published_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          key: string;
+          version: number;
+          content: string;
+          status?: 'draft' | 'published' | 'archived';
+          changelog?: string;
+          created_at?: string;
+          published_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          key?: string;
+          version?: number;
+          content?: string;
+          status?: 'draft' | 'published' | 'archived';
+          changelog?: string;
+          created_at?: string;
+          published_at?: string | null;
+        };
+      };
+      prompt_usage: {
+        Row: {
+          id: string;
+          prompt_key: string;
+          prompt_version_id: string | null;
+          channel: 'chat' | 'realtime' | 'avatar';
+          user_id: string | null;
+          thread_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          prompt_key: string;
+          prompt_version_id?: string | null;
+          channel: 'chat' | 'realtime' | 'avatar';
+          user_id?: string | null;
+          thread_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          prompt_key?: string;
+          prompt_version_id?: string | null;
+          channel?: 'chat' | 'realtime' | 'avatar';
+          user_id?: string | null;
+          thread_id?: string | null;
+          created_at?: string;
+        };
+      };
+      experiments: {
+        Row: {
+          id: string;
+          mode: string;
+          name: string;
+          status: 'running' | 'stopped';
+          variants: ExperimentVariant[];
+          split: number;
+          created_at: string;
+          stopped_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          mode: string;
+          name: string;
+          status?: 'running' | 'stopped';
+          variants: ExperimentVariant[];
+          split?: number;
+          created_at?: string;
+          stopped_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          mode?: string;
+          name?: string;
+          status?: 'running' | 'stopped';
+          variants?: ExperimentVariant[];
+          split?: number;
+          created_at?: string;
+          stopped_at?: string | null;
+        };
+      };
+      reply_attributions: {
+        Row: {
+          id: string;
+          message_id: string;
+          thread_id: string;
+          mode: string;
+          user_id: string | null;
+          visitor_id: string | null;
+          model_id: string;
+          prompt_version_id: string | null;
+          experiment_id: string | null;
+          experiment_variant: string | null;
+          excerpt: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          message_id: string;
+          thread_id: string;
+          mode: string;
+          user_id?: string | null;
+          visitor_id?: string | null;
+          model_id: string;
+          prompt_version_id?: string | null;
+          experiment_id?: string | null;
+          experiment_variant?: string | null;
+          excerpt: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          message_id?: string;
+          thread_id?: string;
+          mode?: string;
+          user_id?: string | null;
+          visitor_id?: string | null;
+          model_id?: string;
+          prompt_version_id?: string | null;
+          experiment_id?: string | null;
+          experiment_variant?: string | null;
+          excerpt?: string;
+          created_at?: string;
+        };
+      };
+      message_feedback: {
+        Row: {
+          id: string;
+          message_id: string;
+          thread_id: string | null;
+          mode: string;
+          user_id: string | null;
+          visitor_id: string;
+          rating: 'up' | 'down';
+          reason: string | null;
+          comment: string | null;
+          model_id: string | null;
+          prompt_version_id: string | null;
+          experiment_id: string | null;
+          experiment_variant: string | null;
+          excerpt: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          message_id: string;
+          thread_id?: string | null;
+          mode: string;
+          user_id?: string | null;
+          visitor_id: string;
+          rating: 'up' | 'down';
+          reason?: string | null;
+          comment?: string | null;
+          model_id?: string | null;
+          prompt_version_id?: string | null;
+          experiment_id?: string | null;
+          experiment_variant?: string | null;
+          excerpt: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          message_id?: string;
+          thread_id?: string | null;
+          mode?: string;
+          user_id?: string | null;
+          visitor_id?: string;
+          rating?: 'up' | 'down';
+          reason?: string | null;
+          comment?: string | null;
+          model_id?: string | null;
+          prompt_version_id?: string | null;
+          experiment_id?: string | null;
+          experiment_variant?: string | null;
+          excerpt?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      login_history: {
+        Row: {
+          id: string;
+          user_id: string;
+          login_at: string;
+          ip_address: string | null;
+          user_agent: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          login_at?: string;
+          ip_address?: string | null;
+          user_agent?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          login_at?: string;
+          ip_address?: string | null;
+          user_agent?: string | null;
+        };
+      };
+      account_deletions: {
+        Row: {
+          id: string;
+          user_id: string;
+          email_hash: string | null;
+          status: 'pending' | 'completed' | 'failed';
+          deleted_rows: Record<string, number>;
+          error: string | null;
+          requested_at: string;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          email_hash?: string | null;
+          status?: 'pending' | 'completed' | 'failed';
+          deleted_rows?: Record<string, number>;
+          error?: string | null;
+          requested_at?: string;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          email_hash?: string | null;
+          status?: 'pending' | 'completed' | 'failed';
+          deleted_rows?: Record<string, number>;
+          error?: string | null;
+          requested_at?: string;
+          completed_at?: string | null;
+        };
+      };
+      semantic_cache_entries: {
+        Row: {
+          id: string;
+          mode: string;
+          prompt_version_id: string | null;
+          embedding_model: string;
+          embedding: number[];
+          question: string;
+          answer: string;
+          model_id: string | null;
+          status: 'pending' | 'approved';
+          ask_count: number;
+          hit_count: number;
+          created_at: string;
+          approved_at: string | null;
+          last_asked_at: string;
+        };
+        Insert: {
+          id?: string;
+          mode: string;
+          prompt_version_id?: string | null;
+          embedding_model: string;
+          embedding: number[];
+          question: string;
+          answer: string;
+          model_id?: string | null;
+          status?: 'pending' | 'approved';
+          ask_count?: number;
+          hit_count?: number;
+          created_at?: string;
+          approved_at?: string | null;
+          last_asked_at?: string;
+        };
+        Update: {
+          id?: string;
+          mode?: string;
+          prompt_version_id?: string | null;
+          embedding_model?: string;
+          embedding?: number[];
+          question?: string;
+          answer?: string;
+          model_id?: string | null;
+          status?: 'pending' | 'approved';
+          ask_count?: number;
+          hit_count?: number;
+          created_at?: string;
+          approved_at?: string | null;
+          last_asked_at?: string;
+        };
+      };
     };
   };
 }
 
+// One arm of an experiment; null fields fall back to the published prompt or the mode's model
+export interface ExperimentVariant {
+  id: 'A' | 'B';
+  promptVersionId: string | null;
+  model: string | null;
+}
+
 // Export the createClient function for use in components
 export { createClient } from './supabase/client';
 
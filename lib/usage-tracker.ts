@@ -1,7 +1,8 @@
 import { createClient } from '@/lib/supabase/server';
 
-// OpenAI API Pricing (as of 2024)
-const OPENAI_PRICING = {
+// Model pricing in USD. OpenAI as of 2024, DeepInfra as of 2025 (see deepinfra.com/pricing).
+// Keys are provider model names; registry IDs such as "deepinfra:<model>" are looked up without the prefix.
+const MODEL_PRICING = {
   // GPT Models (per 1K tokens)
   'gpt-4o': { input: 0.005, output: 0.015 },
   'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
@@ -19,17 +20,38 @@ const OPENAI_PRICING = {
   // DALL-E (per image)
   'dall-e-3': { input: 0.04 },
   'dall-e-2': { input: 0.02 },
+
+  // DeepInfra models (per 1K tokens)
+  'meta-llama/Llama-3.3-70B-Instruct-Turbo': { input: 0.00023, output: 0.0004 },
+  'deepseek-ai/DeepSeek-R1': { input: 0.00075, output: 0.0024 },
+  'Qwen/Qwen2.5-72B-Instruct': { input: 0.00023, output: 0.0004 },
 } as const;
 
+type PricedModel = keyof typeof MODEL_PRICING;
+
+function getModelPricing(model: string) {
+  if (model in MODEL_PRICING) {
+    return MODEL_PRICING[model as PricedModel];
+  }
+  const providerModel = model.slice(model.indexOf(':') + 1);
+  return providerModel in MODEL_PRICING ? MODEL_PRICING[providerModel as PricedModel] : undefined;
+}
+
 export interface UsageData {
   user_id?: string;
   api_type: 'speech' | 'text' | 'tts' | 'transcription';
   model: string;
   tokens_used?: number;
+  // Exact split when the provider reports it; otherwise tokens_used is split 70/30
+  input_tokens?: number;
+  output_tokens?: number;
   characters_used?: number;
   minutes_used?: number;
   images_used?: number;
   request_id?: string;
+  // Experiment arm the request ran on, for comparing variants in the analytics dashboard
+  experiment_id?: string;
+  experiment_variant?: string;
   metadata?: Record<string, unknown>;
 }
 
@@ -38,7 +60,7 @@ export class UsageTracker {
    * Calculate cost based on OpenAI pricing
    */
   private calculateCost(data: UsageData): number {
-    const pricing = OPENAI_PRICING[data.model as keyof typeof OPENAI_PRICING];
+    const pricing = getModelPricing(data.model);
     if (!pricing) {
       console.warn(`No pricing found for model: ${data.model}`);
       return 0;
@@ -48,7 +70,9 @@ export class UsageTracker {
 
     switch (data.api_type) {
       case 'text':
-        if (data.tokens_used && 'output' in pricing) {
+        if (data.input_tokens !== undefined && data.output_tokens !== undefined && 'output' in pricing) {
+          cost = (data.input_tokens * pricing.input + data.output_tokens * pricing.output) / 1000;
+        } else if (data.tokens_used && 'output' in pricing) {
           const inputTokens = Math.floor(data.tokens_used * 0.7); // Estimate 70% input
           const outputTokens = data.tokens_used - inputTokens;
           cost = (inputTokens * pricing.input + outputTokens * pricing.output) / 1000;
@@ -70,8 +94,8 @@ export class UsageTracker {
       case 'speech':
         // Speech-to-speech might use both transcription and TTS
         if (data.minutes_used) {
-          const whisperCost = data.minutes_used * OPENAI_PRICING['whisper-1'].input;
-          const ttsCost = (data.characters_used || 0) * OPENAI_PRICING['tts-1'].input / 1000;
+          const whisperCost = data.minutes_used * MODEL_PRICING['whisper-1'].input;
+          const ttsCost = (data.characters_used || 0) * MODEL_PRICING['tts-1'].input / 1000;
           cost = whisperCost + ttsCost;
         }
         break;
@@ -102,6 +126,8 @@ export class UsageTracker {
           model: data.model,
           tokens_used: data.tokens_used,
           request_id: data.request_id,
+          experiment_id: data.experiment_id,
+          experiment_variant: data.experiment_variant,
           metadata: data.metadata || {},
         });
 
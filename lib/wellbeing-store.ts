@@ -0,0 +1,87 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import type { Database } from '@/lib/supabase';
+
+export type JournalEntry = Database['public']['Tables']['journal_entries']['Row'];
+export type JournalEntryInsert = Database['public']['Tables']['journal_entries']['Insert'];
+export type MoodCheckIn = Database['public']['Tables']['mood_checkins']['Row'];
+export type MoodCheckInInsert = Database['public']['Tables']['mood_checkins']['Insert'];
+
+// Written from companion tools, which run inside a queued job with no request or cookies, so the
+// service client is used and every call names its user explicitly.
+export class WellbeingStore {
+  /**
+   * Save a journal entry written during a companion session
+   */
+  async addJournalEntry(entry: JournalEntryInsert): Promise<JournalEntry | null> {
+    try {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase
+        .from('journal_entries')
+        .insert(entry)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving journal entry:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error saving journal entry:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record a mood check-in
+   */
+  async addMoodCheckIn(checkIn: MoodCheckInInsert): Promise<MoodCheckIn | null> {
+    try {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase
+        .from('mood_checkins')
+        .insert(checkIn)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving mood check-in:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error saving mood check-in:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Most recent mood check-ins for a user, newest first
+   */
+  async listMoodCheckIns(userId: string, limit: number = 5): Promise<MoodCheckIn[]> {
+    try {
+      const supabase = createServiceClient();
+      const { data, error } = await supabase
+        .from('mood_checkins')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching mood check-ins:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching mood check-ins:', error);
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+export const wellbeingStore = new WellbeingStore();
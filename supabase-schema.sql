@@ -5,6 +5,8 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE TABLE IF NOT EXISTS engagement_metrics (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
     visitor_id TEXT NOT NULL,
+    -- Set when a signed-in user's request is tracked, so account deletion can find the row
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
     session_id TEXT NOT NULL,
     service_used TEXT NOT NULL,
     environment TEXT NOT NULL CHECK (environment IN ('dev', 'prod')),
@@ -13,6 +15,9 @@ CREATE TABLE IF NOT EXISTS engagement_metrics (
     ip_address INET,
     country TEXT,
     city TEXT,
+    -- Set on chat turns served while the mode had a running experiment
+    experiment_id UUID,
+    experiment_variant TEXT,
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -39,9 +44,231 @@ CREATE TABLE IF NOT EXISTS api_usage (
   tokens_used INTEGER,
   request_id TEXT,
   metadata JSONB DEFAULT '{}',
+  experiment_id UUID,
+  experiment_variant TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create conversation history tables
+CREATE TABLE IF NOT EXISTS conversations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  mode TEXT NOT NULL,
+  title TEXT,
+  pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  flagged BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Rolling summary of the first summary_message_count messages, sent in their place
+  context_summary TEXT,
+  summary_message_count INTEGER NOT NULL DEFAULT 0,
+  summary_fingerprint TEXT,
+  -- Last message of the branch the user is viewing; NULL for threads saved before branching
+  active_message_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Messages form a tree: editing a user turn adds a sibling under the same parent,
+-- so the earlier continuation stays available as another branch
+CREATE TABLE IF NOT EXISTS messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  -- What /api/transcribe heard when the user dictated this turn
+  transcript TEXT,
+  content_tsv TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Messages the safety classifier escalated, for admin review.
+-- thread_id is TEXT because anonymous threads only exist in the browser.
+CREATE TABLE IF NOT EXISTS safety_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  thread_id TEXT,
+  mode TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('keywords', 'moderation')),
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  excerpt TEXT NOT NULL,
+  locale TEXT,
+  reviewed BOOLEAN NOT NULL DEFAULT FALSE,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Assistant output the streaming guardrails rewrote, redacted or cut off
+CREATE TABLE IF NOT EXISTS guardrail_violations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  thread_id TEXT,
+  mode TEXT NOT NULL,
+  rule_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('rewrite', 'redact', 'cutoff')),
+  source TEXT NOT NULL CHECK (source IN ('regex', 'judge')),
+  excerpt TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Durable facts the companions remember about each user across sessions
+CREATE TABLE IF NOT EXISTS user_memories (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('name', 'role', 'company', 'stressor', 'preference', 'other')),
+  fact TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Journal entries and mood check-ins saved by the companion tools
+CREATE TABLE IF NOT EXISTS journal_entries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  thread_id TEXT,
+  mode TEXT NOT NULL,
+  title TEXT,
+  content TEXT NOT NULL,
+  mood TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS mood_checkins (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  thread_id TEXT,
+  mode TEXT NOT NULL,
+  rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  feeling TEXT NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Versioned companion prompts, edited on the admin Prompts page. key is
+-- "<mode>.system" or "<mode>.intro"; at most one version per key is published.
+CREATE TABLE IF NOT EXISTS prompt_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  key TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
+  changelog TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  published_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (key, version)
+);
+
+-- Which prompt version served each chat response, realtime session and avatar session.
+-- prompt_version_id is NULL when the built-in default from the code was used.
+CREATE TABLE IF NOT EXISTS prompt_usage (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  prompt_key TEXT NOT NULL,
+  prompt_version_id UUID REFERENCES prompt_versions(id) ON DELETE SET NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('chat', 'realtime', 'avatar')),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  thread_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- A/B experiments splitting a mode's chat sessions between two prompt or model variants.
+-- variants is [{ "id": "A" | "B", "promptVersionId": uuid | null, "model": string | null }];
+-- null means the published prompt or the mode's default model. split is the percentage on A.
+CREATE TABLE IF NOT EXISTS experiments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  mode TEXT NOT NULL,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'stopped')),
+  variants JSONB NOT NULL,
+  split INTEGER NOT NULL DEFAULT 50 CHECK (split BETWEEN 1 AND 99),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  stopped_at TIMESTAMP WITH TIME ZONE
+);
+
+-- What served each model reply, recorded by the chat engine so ratings are attributed from the
+-- server's own record rather than the client's. message_id is the reply's chat message ID;
+-- thread_id is TEXT because anonymous threads only exist in the browser.
+CREATE TABLE IF NOT EXISTS reply_attributions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id TEXT NOT NULL UNIQUE,
+  thread_id TEXT NOT NULL,
+  mode TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  visitor_id TEXT,
+  model_id TEXT NOT NULL,
+  prompt_version_id UUID REFERENCES prompt_versions(id) ON DELETE SET NULL,
+  experiment_id UUID,
+  experiment_variant TEXT,
+  excerpt TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Thumbs up/down on assistant replies, one per message and visitor (a second vote replaces
+-- the first). The thread, mode, model, prompt version, experiment arm and excerpt are copied
+-- from the reply's row in reply_attributions.
+CREATE TABLE IF NOT EXISTS message_feedback (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id TEXT NOT NULL,
+  thread_id TEXT,
+  mode TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  visitor_id TEXT NOT NULL,
+  rating TEXT NOT NULL CHECK (rating IN ('up', 'down')),
+  reason TEXT,
+  comment TEXT,
+  model_id TEXT,
+  prompt_version_id UUID REFERENCES prompt_versions(id) ON DELETE SET NULL,
+  experiment_id UUID,
+  experiment_variant TEXT,
+  excerpt TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (message_id, visitor_id)
+);
+
+-- Sign-ins, recorded by lib/auth.ts and the OAuth callback
+CREATE TABLE IF NOT EXISTS login_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  login_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ip_address INET,
+  user_agent TEXT
+);
+
+-- Audit trail of self-service account deletions. user_id has no foreign key because the
+-- user is gone once the deletion completes; the email is only kept as a SHA-256 hash.
+-- deleted_rows maps each table to the number of rows removed.
+CREATE TABLE IF NOT EXISTS account_deletions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  email_hash TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  deleted_rows JSONB NOT NULL DEFAULT '{}',
+  error TEXT,
+  requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Answers to repeated first-turn FAQ questions, served by similarity of the question's
+-- embedding. New entries wait as pending until an admin approves them.
+CREATE TABLE IF NOT EXISTS semantic_cache_entries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  mode TEXT NOT NULL,
+  -- Prompt version the answer was written under; null for the built-in default
+  prompt_version_id UUID REFERENCES prompt_versions(id) ON DELETE CASCADE,
+  embedding_model TEXT NOT NULL,
+  embedding REAL[] NOT NULL,
+  question TEXT NOT NULL,
+  answer TEXT NOT NULL,
+  model_id TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved')),
+  -- Near-duplicate questions seen, including the first
+  ask_count INTEGER NOT NULL DEFAULT 1,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  approved_at TIMESTAMP WITH TIME ZONE,
+  last_asked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create indexes for better query performance
 CREATE INDEX IF NOT EXISTS idx_engagement_metrics_visitor_id ON engagement_metrics(visitor_id);
 CREATE INDEX IF NOT EXISTS idx_engagement_metrics_session_id ON engagement_metrics(session_id);
@@ -58,6 +285,79 @@ CREATE INDEX IF NOT EXISTS idx_api_usage_user_id ON api_usage(user_id);
 CREATE INDEX IF NOT EXISTS idx_api_usage_timestamp ON api_usage(timestamp);
 CREATE INDEX IF NOT EXISTS idx_api_usage_api_type ON api_usage(api_type);
 
+CREATE INDEX IF NOT EXISTS idx_conversations_user_id ON conversations(user_id);
+CREATE INDEX IF NOT EXISTS idx_conversations_mode ON conversations(mode);
+CREATE INDEX IF NOT EXISTS idx_conversations_updated_at ON conversations(updated_at);
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_id ON messages(conversation_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_messages_content_tsv ON messages USING GIN(content_tsv);
+CREATE INDEX IF NOT EXISTS idx_messages_parent_id ON messages(parent_id);
+CREATE INDEX IF NOT EXISTS idx_user_memories_user_id ON user_memories(user_id);
+CREATE INDEX IF NOT EXISTS idx_safety_events_created_at ON safety_events(created_at);
+CREATE INDEX IF NOT EXISTS idx_safety_events_reviewed ON safety_events(reviewed);
+CREATE INDEX IF NOT EXISTS idx_guardrail_violations_created_at ON guardrail_violations(created_at);
+CREATE INDEX IF NOT EXISTS idx_journal_entries_user_id ON journal_entries(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_mood_checkins_user_id ON mood_checkins(user_id, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_versions_published ON prompt_versions(key) WHERE status = 'published';
+CREATE INDEX IF NOT EXISTS idx_prompt_usage_version ON prompt_usage(prompt_version_id, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_experiments_running ON experiments(mode) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_engagement_metrics_experiment ON engagement_metrics(experiment_id, experiment_variant);
+CREATE INDEX IF NOT EXISTS idx_api_usage_experiment ON api_usage(experiment_id, experiment_variant);
+CREATE INDEX IF NOT EXISTS idx_reply_attributions_user_id ON reply_attributions(user_id);
+CREATE INDEX IF NOT EXISTS idx_reply_attributions_visitor_id ON reply_attributions(visitor_id);
+CREATE INDEX IF NOT EXISTS idx_message_feedback_created_at ON message_feedback(created_at);
+CREATE INDEX IF NOT EXISTS idx_message_feedback_experiment ON message_feedback(experiment_id, experiment_variant);
+CREATE INDEX IF NOT EXISTS idx_engagement_metrics_user_id ON engagement_metrics(user_id);
+CREATE INDEX IF NOT EXISTS idx_login_history_user_id ON login_history(user_id);
+CREATE INDEX IF NOT EXISTS idx_account_deletions_requested_at ON account_deletions(requested_at);
+CREATE INDEX IF NOT EXISTS idx_semantic_cache_entries_mode ON semantic_cache_entries(mode, status);
+
+-- Keep conversations.updated_at in step with their latest message, which also
+-- becomes the end of the branch on screen
+CREATE OR REPLACE FUNCTION touch_conversation_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE conversations SET updated_at = NOW(), active_message_id = NEW.id WHERE id = NEW.conversation_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_messages_touch_conversation ON messages;
+CREATE TRIGGER trg_messages_touch_conversation
+    AFTER INSERT ON messages
+    FOR EACH ROW EXECUTE FUNCTION touch_conversation_updated_at();
+
+-- Count a near-duplicate question against a semantic cache entry, and a served answer when p_hit
+CREATE OR REPLACE FUNCTION record_semantic_cache_use(p_id UUID, p_hit BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE semantic_cache_entries
+    SET ask_count = ask_count + 1,
+        hit_count = hit_count + CASE WHEN p_hit THEN 1 ELSE 0 END,
+        last_asked_at = NOW()
+    WHERE id = p_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Publish a draft prompt version and archive the one it replaces in one transaction, so a key is
+-- never left without a published version. Returns no row unless p_id is a draft.
+CREATE OR REPLACE FUNCTION publish_prompt_version(p_id UUID)
+RETURNS SETOF prompt_versions AS $$
+DECLARE
+    v_key TEXT;
+BEGIN
+    SELECT key INTO v_key FROM prompt_versions WHERE id = p_id AND status = 'draft' FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    -- Archive first: the unique index allows one published version per key
+    UPDATE prompt_versions SET status = 'archived' WHERE key = v_key AND status = 'published';
+
+    RETURN QUERY
+    UPDATE prompt_versions SET status = 'published', published_at = NOW() WHERE id = p_id RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
 -- Create a function to get engagement analytics
 CREATE OR REPLACE FUNCTION get_engagement_analytics(
     p_environment TEXT DEFAULT 'prod',
@@ -183,6 +483,22 @@ $$ LANGUAGE plpgsql;
 ALTER TABLE engagement_metrics ENABLE ROW LEVEL SECURITY;
 ALTER TABLE database_metrics ENABLE ROW LEVEL SECURITY;
 ALTER TABLE api_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_memories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mood_checkins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE login_history ENABLE ROW LEVEL SECURITY;
+-- No policies on these tables: only the service role (server) can read or write them
+ALTER TABLE safety_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE guardrail_violations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE experiments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reply_attributions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_feedback ENABLE ROW LEVEL SECURITY;
+ALTER TABLE account_deletions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE semantic_cache_entries ENABLE ROW LEVEL SECURITY;
 
 -- Create more permissive policies for admin access
 CREATE POLICY "Allow all access to engagement_metrics" ON engagement_metrics
@@ -194,6 +510,37 @@ CREATE POLICY "Allow all access to database_metrics" ON database_metrics
 CREATE POLICY "Allow all access to api_usage" ON api_usage
     FOR ALL USING (true);
 
+-- Conversation history is private to each user
+CREATE POLICY "Users can manage their own conversations" ON conversations
+    FOR ALL USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage messages in their own conversations" ON messages
+    FOR ALL USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM conversations c
+            WHERE c.id = conversation_id AND c.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can manage their own memories" ON user_memories
+    FOR ALL USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own journal entries" ON journal_entries
+    FOR ALL USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own mood check-ins" ON mood_checkins
+    FOR ALL USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view and record their own sign-ins" ON login_history
+    FOR ALL USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
 -- Drop the restrictive policies if they exist
 DROP POLICY IF EXISTS "Allow admin read access to engagement_metrics" ON engagement_metrics;
 DROP POLICY IF EXISTS "Allow admin read access to database_metrics" ON database_metrics;